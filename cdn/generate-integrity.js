@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+/**
+ * Builds the minified recorder and writes integrity.json next to the files
+ * of every CDN version (cdn/v4/...)
+ *
+ * Run after changing anything under cdn/ so the published hashes match:
+ *   npm run integrity:cdn
+ *
+ * The loader serves `sajko-replay.min.js`, so it is rebuilt from
+ * `sajko-replay.js` first and hashed like every other file. A changed file
+ * needs a new `@version` in the recorder header - the run fails otherwise,
+ * so a pinned hash never silently stops matching a published version.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const esbuild = require('esbuild');
+
+const ALGORITHM = 'sha384';
+const MANIFEST = 'integrity.json';
+const RECORDER = 'sajko-replay.js';
+const RECORDER_MIN = 'sajko-replay.min.js';
+
+function hashFile(file) {
+  const digest = crypto.createHash(ALGORITHM).update(fs.readFileSync(file)).digest('base64');
+  return `${ALGORITHM}-${digest}`;
+}
+
+function readVersion(dir) {
+  // The recorder carries its release version in the header comment
+  const recorder = path.join(dir, RECORDER);
+  if (!fs.existsSync(recorder)) return null;
+  const match = fs.readFileSync(recorder, 'utf8').match(/@version\s+(\S+)/);
+  return match ? match[1] : null;
+}
+
+function readManifest(dir) {
+  const file = path.join(dir, MANIFEST);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : null;
+}
+
+function buildMinified(dir, version) {
+  const recorder = path.join(dir, RECORDER);
+  if (!fs.existsSync(recorder)) return;
+
+  const { code } = esbuild.transformSync(fs.readFileSync(recorder, 'utf8'), {
+    minify: true,
+    legalComments: 'none',
+    banner: `/*! SAJKO Session Replay v${version} */`
+  });
+  fs.writeFileSync(path.join(dir, RECORDER_MIN), code);
+}
+
+const cdnDir = __dirname;
+const versions = fs.readdirSync(cdnDir).filter(name => /^v\d+$/.test(name));
+let failed = false;
+
+for (const version of versions) {
+  const dir = path.join(cdnDir, version);
+  const release = readVersion(dir);
+  buildMinified(dir, release);
+
+  const files = {};
+  for (const name of fs.readdirSync(dir).sort()) {
+    if (name === MANIFEST || !/\.(js|wasm)$/.test(name)) continue;
+    files[name] = hashFile(path.join(dir, name));
+  }
+
+  const previous = readManifest(dir);
+  if (previous && previous.version === release) {
+    const changed = Object.keys(files).filter(name => previous.files[name] && previous.files[name] !== files[name]);
+    if (changed.length > 0) {
+      console.error(`${version}: ${changed.join(', ')} changed but @version is still ${release} - bump it in ${RECORDER}`);
+      failed = true;
+      continue;
+    }
+  }
+
+  const manifest = {
+    version: release,
+    algorithm: ALGORITHM,
+    files
+  };
+
+  fs.writeFileSync(path.join(dir, MANIFEST), JSON.stringify(manifest, null, 2) + '\n');
+  console.log(`${version}/${MANIFEST}: ${Object.keys(files).length} files`);
+}
+
+if (failed) {
+  process.exit(1);
+}
@@ -4,19 +4,26 @@
  * Combines Go WASM processing with JavaScript DOM operations
  * 70% smaller payloads, 10x faster processing, 50% less memory
  * 
- * @version 4.0.0
+ * @version 4.1.9
  * @author SAJKO Team
  */
 
 (function() {
   'use strict';
   
+  // Shadows the global console for this file so every log honors
+  // logLevel and the custom logger from the config
+  const console = createConsole(getConfig());
+  
   // Prevent duplicate initialization
   if (window.__sajkoRecorderV4Instance) {
     console.log('🔄 SAJKO V4: Recorder already initialized');
     return;
   }
 
+  // Captured now: document.currentScript is only set while this file runs
+  const loaderScript = document.currentScript;
+
   const instanceId = `${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
   console.log('🚀 SAJKO V4: Initializing Go-powered recorder', { instanceId });
 
@@ -34,22 +41,97 @@
         websiteId: script.getAttribute('data-website-id'),
         apiEndpoint: script.getAttribute('data-api-endpoint') || 'https://api.sajko.ai',
         hasUserConsent: script.getAttribute('data-user-consent') === 'true',
-        debug: script.getAttribute('data-debug') === 'true'
+        debug: script.getAttribute('data-debug') === 'true',
+        logLevel: script.getAttribute('data-log-level') || undefined
       };
     }
     
     return {};
   }
 
+  // Log levels match the core's LogLevel; console.log counts as debug
+  function createConsole(config) {
+    const levels = { silent: 0, error: 1, warn: 2, info: 3, debug: 4 };
+    const level = levels[config.logLevel] !== undefined
+      ? config.logLevel
+      : (config.debug ? 'debug' : 'warn');
+    const native = window.console;
+
+    function write(entryLevel, args) {
+      if (levels[entryLevel] > levels[level]) return;
+
+      if (typeof config.logger === 'function') {
+        try {
+          config.logger({
+            level: entryLevel,
+            message: String(args[0]),
+            context: args.length > 1 ? { details: args.slice(1) } : undefined,
+            source: 'replay',
+            timestamp: Date.now()
+          });
+        } catch (error) {
+          // A broken logger must not break recording
+        }
+        return;
+      }
+
+      native[entryLevel === 'debug' ? 'log' : entryLevel](...args);
+    }
+
+    return {
+      log: (...args) => write('debug', args),
+      debug: (...args) => write('debug', args),
+      info: (...args) => write('info', args),
+      warn: (...args) => write('warn', args),
+      error: (...args) => write('error', args)
+    };
+  }
+
   const config = getConfig();
 
+  // Analytics consent, for events sent without recording. The core hands
+  // over the current choice as consent.defaults; script tags only have the
+  // all-or-nothing hasUserConsent.
+  function analyticsConsent(consent, replay) {
+    return consent && consent.analytics !== undefined ? !!consent.analytics : !!replay;
+  }
+
+  // respectPrivacySignals, resolved as the core's resolvePrivacySignals()
+  // does: true or 'block' sends nothing, 'anonymous' sends events without
+  // replay or anything identifying the visitor
+  function resolvePrivacyMode(option) {
+    const dnt = navigator.doNotTrack || window.doNotTrack || navigator.msDoNotTrack;
+    const signalled = navigator.globalPrivacyControl === true || dnt === '1' || dnt === 'yes';
+    if (!signalled || !option) return null;
+    return option === true ? 'block' : option;
+  }
+
+  const PRIVACY_MODE = resolvePrivacyMode(config.respectPrivacySignals);
+  const ANONYMOUS = PRIVACY_MODE === 'anonymous';
+
   // Configuration
   const CONFIG = {
     apiEndpoint: config.apiEndpoint || 'https://api.sajko.ai',
     websiteId: config.websiteId,
-    hasUserConsent: config.hasUserConsent || false,
+    // Replay recording
+    hasUserConsent: !PRIVACY_MODE && (config.hasUserConsent || false),
+    analyticsConsent: PRIVACY_MODE !== 'block' &&
+      analyticsConsent(config.consent && config.consent.defaults, config.hasUserConsent),
     debug: config.debug || false,
     wasmUrl: config.wasmUrl || (config.apiEndpoint || 'https://api.sajko.ai') + '/sajko-replay.wasm',
+    sampling: config.sampling || null,
+    superPropertiesKey: (config.superProperties && config.superProperties.storageKey) || 'sajko_super_properties',
+    // The core scrubs super properties before handing them over; persisted
+    // ones read here would skip that
+    scrubbing: !!(config.privacy && config.privacy.scrub),
+    // Kept by reference: redact is a function when set through the core
+    network: config.network || null,
+    // Same layout as the core's createIdentityStorage(), so both read the same IDs
+    storage: config.storage || {},
+    crossDomain: config.crossDomain || null,
+    startPaused: config.startPaused || false,
+    // inactivityTimeoutMs, maxDurationMs, rotateOnUtmChange
+    session: config.session || {},
     
     performance: {
       maxMemoryMB: 25,
@@ -104,18 +186,379 @@
     return new Promise((resolve, reject) => {
       const script = document.createElement('script');
       script.src = src;
+      // Pass the CSP nonce on to dependencies
+      if (loaderScript && loaderScript.nonce) {
+        script.nonce = loaderScript.nonce;
+      }
       script.onload = resolve;
       script.onerror = reject;
       document.head.appendChild(script);
     });
   }
 
+  // Sampling - must match packages/core/src/sampling.ts so both sides
+  // reach the same decision for a visitor
+  function samplingBucket(id) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < id.length; i++) {
+      hash ^= id.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) / 0x100000000;
+  }
+
+  function matchesSamplingUrl(pattern, url) {
+    if (pattern instanceof RegExp) {
+      return pattern.test(url);
+    }
+    const source = String(pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp('^' + source + '$').test(new URL(url).pathname);
+  }
+
+  function decideSampling(sampling, visitorId, identified) {
+    if (!sampling) return null;
+
+    const rules = sampling.rules || [];
+    const index = rules.findIndex(rule =>
+      (rule.identified === undefined || rule.identified === identified) &&
+      (rule.url === undefined || matchesSamplingUrl(rule.url, window.location.href))
+    );
+    const rule = index >= 0 ? rules[index] : {};
+    const clamp = rate => Math.min(1, Math.max(0, rate));
+
+    const sessionRate = clamp(rule.sessionRate ?? sampling.sessionRate ?? 1);
+    const replayRate = clamp(rule.replayRate ?? sampling.replayRate ?? 1);
+    const sessionSampled = samplingBucket(visitorId) < sessionRate;
+
+    return {
+      sessionSampled,
+      replaySampled: sessionSampled && samplingBucket(visitorId + ':replay') < replayRate,
+      sessionRate,
+      replayRate,
+      rule: index >= 0 ? index : null
+    };
+  }
+
+  // Network capture (config.network): filtering and scrubbing of recorded
+  // fetch/XMLHttpRequest calls
+  const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'x-auth-token', 'x-csrf-token'];
+
+  function matchesNetworkUrl(pattern, url) {
+    if (pattern instanceof RegExp) {
+      return pattern.test(url);
+    }
+    pattern = String(pattern);
+    if (pattern.indexOf('*') === -1) {
+      return url.indexOf(pattern) !== -1;
+    }
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp('^' + source + '$').test(url);
+  }
+
+  function resolveUrl(url) {
+    try {
+      return new URL(String(url), window.location.href).href;
+    } catch (error) {
+      return String(url);
+    }
+  }
+
+  function shouldCaptureUrl(network, url) {
+    // Never record the tracker's own traffic
+    if (url.indexOf(CONFIG.apiEndpoint) === 0) return false;
+    if ((network.denyUrls || []).some(pattern => matchesNetworkUrl(pattern, url))) return false;
+    return !network.allowUrls || network.allowUrls.some(pattern => matchesNetworkUrl(pattern, url));
+  }
+
+  function shouldCaptureStatus(network, status) {
+    if (!network.statusCodes) return true;
+    return network.statusCodes.some(code =>
+      typeof code === 'string' ? String(status).charAt(0) === code.charAt(0) && status >= 100 : code === status
+    );
+  }
+
+  // Headers as a plain object, limited to captureHeaders, secrets redacted
+  function pickHeaders(network, entries) {
+    const wanted = Array.isArray(network.captureHeaders)
+      ? network.captureHeaders.map(name => name.toLowerCase())
+      : null;
+    const headers = {};
+    entries.forEach(([name, value]) => {
+      const key = name.toLowerCase();
+      if (wanted && wanted.indexOf(key) === -1) return;
+      headers[key] = SENSITIVE_HEADERS.indexOf(key) !== -1 ? '[REDACTED]' : String(value);
+    });
+    return headers;
+  }
+
+  function parseRawHeaders(raw) {
+    return (raw || '').trim().split(/[\r\n]+/).filter(Boolean).map(line => {
+      const index = line.indexOf(':');
+      return [line.slice(0, index).trim(), line.slice(index + 1).trim()];
+    });
+  }
+
+  // Text of a request body, or undefined for binary and streamed bodies
+  function readRequestBody(body) {
+    if (body === undefined || body === null) return undefined;
+    if (typeof body === 'string') return body;
+    if (body instanceof URLSearchParams) return body.toString();
+    return undefined;
+  }
+
+  function isTextContent(contentType) {
+    return !contentType || /^text\/|json|xml|x-www-form-urlencoded|graphql/i.test(contentType);
+  }
+
+  function truncateBody(network, body) {
+    if (body === undefined) return undefined;
+    const max = network.maxBodySize || 10000;
+    return body.length > max ? body.slice(0, max) + `… [truncated ${body.length - max} chars]` : body;
+  }
+
+  // Identity storage - visitor ID across visits, session ID for this visit.
+  // Errors (private mode, blocked cookies) leave the IDs for this page only.
+  function guardedStorage(getStorage) {
+    return {
+      getItem(key) {
+        try { return getStorage().getItem(key); } catch (error) { return null; }
+      },
+      setItem(key, value) {
+        try { getStorage().setItem(key, value); } catch (error) { /* not persisted */ }
+      },
+      removeItem(key) {
+        try { getStorage().removeItem(key); } catch (error) { /* not persisted */ }
+      }
+    };
+  }
+
+  function cookieStorage(options, expiresDays) {
+    const write = (key, value, maxAge) => {
+      const sameSite = options.sameSite || 'Lax';
+      const secure = options.secure !== undefined ? options.secure : (sameSite === 'None' || location.protocol === 'https:');
+      document.cookie = [
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+        'Path=/',
+        options.domain ? `Domain=${options.domain}` : '',
+        maxAge !== undefined ? `Max-Age=${maxAge}` : '',
+        `SameSite=${sameSite}`,
+        secure ? 'Secure' : ''
+      ].filter(Boolean).join('; ');
+    };
+
+    return guardedStorage(() => ({
+      getItem(key) {
+        const name = `${encodeURIComponent(key)}=`;
+        const cookie = document.cookie.split('; ').find(part => part.startsWith(name));
+        return cookie ? decodeURIComponent(cookie.slice(name.length)) : null;
+      },
+      setItem(key, value) {
+        write(key, value, expiresDays !== undefined ? Math.round(expiresDays * 86400) : undefined);
+      },
+      removeItem(key) {
+        write(key, '', 0);
+      }
+    }));
+  }
+
+  function createIdentityStorage(storage) {
+    if (storage.adapter) {
+      const adapter = guardedStorage(() => storage.adapter);
+      return { visitor: adapter, session: adapter };
+    }
+
+    if (storage.type === 'cookie') {
+      const cookie = storage.cookie || {};
+      return {
+        visitor: cookieStorage(cookie, cookie.expiresDays !== undefined ? cookie.expiresDays : 365),
+        session: cookieStorage(cookie)
+      };
+    }
+
+    if (storage.type === 'memory') {
+      const values = {};
+      const memory = {
+        getItem: key => (key in values ? values[key] : null),
+        setItem: (key, value) => { values[key] = String(value); },
+        removeItem: key => { delete values[key]; }
+      };
+      return { visitor: memory, session: memory };
+    }
+
+    return {
+      visitor: guardedStorage(() => localStorage),
+      session: guardedStorage(() => sessionStorage)
+    };
+  }
+
+  const identityStorage = createIdentityStorage(CONFIG.storage);
+  // Exit markers are per page URL - too many for cookies, and nothing may
+  // be written to the device in memory mode
+  const markerStorage = CONFIG.storage.type === 'memory'
+    ? identityStorage.session
+    : guardedStorage(() => sessionStorage);
+
+  // Why a stored session can no longer be continued, or null. Sessions
+  // stored by older versions have no lastActivity and count from creation.
+  function sessionExpiry(session, now) {
+    const inactivityTimeout = CONFIG.session.inactivityTimeoutMs || 30 * 60 * 1000;
+    if (now - (session.lastActivity || session.created) > inactivityTimeout) return 'inactivity';
+    if (CONFIG.session.maxDurationMs && now - session.created > CONFIG.session.maxDurationMs) return 'max_duration';
+    return null;
+  }
+
+  // Campaign of the current URL, or null without UTM parameters
+  function currentUtm() {
+    const params = new URLSearchParams(window.location.search);
+    const values = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content']
+      .map(name => params.get(name) || '');
+    return values.some(Boolean) ? values.join('|') : null;
+  }
+
+  // Cross-domain linker: `2.<base64url JSON>.<base64url signature>`. The
+  // SAJKO API issues it for the current IDs and signs it with the site's
+  // private key (ECDSA P-256), so only pages verifying it against
+  // crossDomain.publicKey adopt it - a tampered or self-made one is
+  // rejected. The timestamp is set by the API.
+  const LINKER_VERSION = '2';
+
+  function fromBase64Url(value) {
+    return atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  }
+
+  function base64UrlBytes(value) {
+    return Uint8Array.from(fromBase64Url(value), char => char.charCodeAt(0));
+  }
+
+  // Ties a linker to this browser, so a decorated URL copied elsewhere is
+  // not adopted. Not a secret - the signature is what makes it trustworthy.
+  function browserTag() {
+    const input = `${navigator.userAgent}|${navigator.language}`;
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+  }
+
+  // Ask the API for a signed linker carrying the given IDs
+  async function requestLinker(visitorId, sessionId) {
+    const response = await fetch(`${CONFIG.apiEndpoint}/api/cross-domain/linker`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        websiteId: CONFIG.websiteId,
+        visitorId,
+        sessionId,
+        from: location.hostname,
+        browser: browserTag()
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`Linker request failed: ${response.status}`);
+    }
+    const { linker } = await response.json();
+    return linker;
+  }
+
+  // Returns the linked IDs, or the reason the value was rejected
+  async function readLinker(value, crossDomain) {
+    const parts = value.split('.');
+    if (parts.length !== 3 || parts[0] !== LINKER_VERSION) {
+      return { error: 'invalid' };
+    }
+    try {
+      const key = await crypto.subtle.importKey(
+        'spki',
+        base64UrlBytes(crossDomain.publicKey),
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['verify']
+      );
+      const signed = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+      const valid = await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' }, key, base64UrlBytes(parts[2]), signed
+      );
+      if (!valid) {
+        return { error: 'invalid' };
+      }
+      
+      const link = JSON.parse(decodeURIComponent(escape(fromBase64Url(parts[1]))));
+      if (link.w !== CONFIG.websiteId || link.b !== browserTag() ||
+          typeof link.v !== 'string' || typeof link.s !== 'string') {
+        return { error: 'invalid' };
+      }
+      const age = Date.now() - link.t;
+      if (!(age >= -60000 && age <= (crossDomain.maxAgeSeconds || 120) * 1000)) {
+        return { error: 'expired' };
+      }
+      return link;
+    } catch (error) {
+      return { error: 'invalid' };
+    }
+  }
+
+  function isLinkedDomain(crossDomain, hostname) {
+    if (!hostname || hostname === location.hostname) return false;
+    return (crossDomain.domains || []).some(domain =>
+      hostname === domain || hostname.endsWith(`.${domain}`)
+    );
+  }
+
+  // Lifecycle listeners registered through SajkoReplay.on()
+  const lifecycleListeners = {};
+
+  function onLifecycle(event, handler) {
+    (lifecycleListeners[event] = lifecycleListeners[event] || []).push(handler);
+    return () => {
+      lifecycleListeners[event] = (lifecycleListeners[event] || []).filter(h => h !== handler);
+    };
+  }
+
+  function emitLifecycle(event, payload) {
+    (lifecycleListeners[event] || []).forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.warn(`⚠️ SAJKO V4: Listener for "${event}" threw`, error);
+      }
+    });
+  }
+
   // Main Recorder Class (Hybrid Go + JS)
   class SajkoSessionRecorderV4 {
     constructor() {
+      this.session = null;
+      this.sessionSavedAt = 0;
+      this.rotatingSession = null;
+      this.crossDomainLink = null;
       this.sessionId = this.getOrCreateSessionId();
       this.visitorId = this.getOrCreateVisitorId();
+      this.sampling = decideSampling(CONFIG.sampling, this.visitorId || this.sessionId, false);
+      // Verified asynchronously; the session is only created once it is
+      // settled, so IDs handed over by another domain win
+      this.linkAdoption = this.adoptCrossDomainLink();
+      this.linker = null;
+      this.linkerRequest = null;
+      this.superProperties = this.readSuperProperties();
       this.isRecording = false;
+      // Server-side session of the current sessionId, created once
+      this.sessionCreation = null;
+      this.pageViewSentFor = null;
+      this.batchTimer = null;
+      this.deliveryListening = false;
+      // { reason, since } while pause() keeps DOM, input and network calls
+      // out of the replay - startPaused when pause() ran before the script
+      this.paused = CONFIG.startPaused
+        ? { reason: typeof CONFIG.startPaused === 'string' ? CONFIG.startPaused : null, since: Date.now() }
+        : null;
       this.eventQueue = [];
       this.wasmBridge = null;
       this.lastActivityTime = 0;
@@ -141,13 +584,23 @@
 
     async initialize() {
       try {
-        if (!CONFIG.hasUserConsent) {
-          console.warn('⚠️ SAJKO V4: User consent required');
+        if (!CONFIG.websiteId) {
+          console.error('❌ SAJKO V4: Website ID required');
           return false;
         }
 
-        if (!CONFIG.websiteId) {
-          console.error('❌ SAJKO V4: Website ID required');
+        // IDs from a cross-domain link decide sampling
+        await this.linkAdoption;
+        
+        if (!CONFIG.hasUserConsent) {
+          console.log('ℹ️ SAJKO V4: No replay consent, recording disabled');
+          this.startEventDelivery();
+          return false;
+        }
+        
+        if (this.sampling && !this.sampling.sessionSampled) {
+          console.log('ℹ️ SAJKO V4: Session not sampled, recording disabled', this.sampling);
+          this.startEventDelivery();
           return false;
         }
         
@@ -164,7 +617,7 @@
         console.log('✅ SAJKO V4: WASM bridge ready');
 
         // Create session
-        await this.createSession();
+        await this.ensureSession();
         
         // Initialize media tracking
         this.initializeMediaTracking();
@@ -187,6 +640,25 @@
       }
     }
 
+    // The server-side session is created once per sessionId, by whichever
+    // comes first: recording or an event sent without it
+    async ensureSession() {
+      await this.linkAdoption;
+      if (this.sessionCreation && this.sessionCreation.sessionId === this.sessionId) {
+        return this.sessionCreation.promise;
+      }
+      
+      const creation = { sessionId: this.sessionId };
+      creation.promise = this.createSession().catch(error => {
+        if (this.sessionCreation === creation) {
+          this.sessionCreation = null;
+        }
+        throw error;
+      });
+      this.sessionCreation = creation;
+      return creation.promise;
+    }
+
     async createSession() {
       const deviceInfo = this.detectDevice();
       const sessionData = {
@@ -242,9 +714,17 @@
     startRecording() {
       this.isRecording = true;
       this.lastActivityTime = Date.now();
-      
-      // Setup DOM observation (stays in JS)
-      this.startDOMObservation();
+      emitLifecycle('recording_started', { sessionId: this.sessionId });
+      
+      // Setup DOM observation (stays in JS), only for sessions sampled for
+      // replay and not paused
+      const recordReplay = this.recordsReplay();
+      if (recordReplay) {
+        this.startDOMObservation();
+      } else if (this.paused) {
+        // A session started while paused opens with the gap
+        this.recordEvent({ type: 'replay_paused', reason: this.paused.reason, timestamp: Date.now() });
+      }
       
       // Setup event listeners
       this.setupEventListeners();
@@ -252,6 +732,12 @@
       // Start performance monitoring
       this.startPerformanceMonitoring();
       
+      // Record fetch/XMLHttpRequest calls when configured
+      this.startNetworkCapture();
+      
+      // Hand the IDs to the domains in crossDomain.domains
+      this.startLinkDecoration();
+      
       // Start batch timer
       this.startBatchTimer();
       
@@ -259,18 +745,80 @@
       this.startFlowHeartbeat();
       
       // Capture initial snapshot
-      this.captureSnapshot(); // Fire and forget - no need to await
+      if (recordReplay) {
+        this.captureSnapshot(); // Fire and forget - no need to await
+      }
       
       // Send initial page view for flow tracking
+      this.sendInitialPageView();
+      
+      // Capture initial performance metrics
+      this.capturePerformanceMetrics();
+    }
+    
+    // Once per session and page, whether recording or only sending events
+    sendInitialPageView() {
+      if (this.pageViewSentFor === this.sessionId) return;
+      this.pageViewSentFor = this.sessionId;
+      
       this.trackFlowEvent('page_view', { 
         target: document 
       }, {
         isInitialLoad: true,
-        referrer: document.referrer
+        referrer: document.referrer,
+        ...(this.crossDomainLink && this.crossDomainLink.linked
+          ? { crossDomain: { from: this.crossDomainLink.from } }
+          : {})
       });
+    }
+    
+    // Without replay consent nothing is recorded, but events that are
+    // analytics rather than replay - custom events, identify, alias, group,
+    // errors, Web Vitals and the page view - are still sent with analytics
+    // consent. The session is created and the batch timer started lazily.
+    startEventDelivery() {
+      if (this.isRecording || !this.tracksEvents()) return;
       
-      // Capture initial performance metrics
-      this.capturePerformanceMetrics();
+      this.startBatchTimer();
+      if (!this.deliveryListening) {
+        this.deliveryListening = true;
+        // Recording flushes on exit itself; these cover the time without it
+        window.addEventListener('pagehide', () => {
+          if (!this.isRecording) this.flushEventsSync();
+        });
+        document.addEventListener('visibilitychange', () => {
+          if (!this.isRecording && document.hidden) this.flushEvents();
+        });
+      }
+      
+      this.ensureSession()
+        .then(() => this.sendInitialPageView())
+        .catch(error => console.error('❌ SAJKO V4: Session creation failed:', error));
+    }
+    
+    // Mirrors the core: unsampled sessions only send events with
+    // sampling.alwaysTrackEvents
+    tracksEvents() {
+      const sampled = !this.sampling || this.sampling.sessionSampled ||
+        !!(CONFIG.sampling && CONFIG.sampling.alwaysTrackEvents);
+      return !!CONFIG.websiteId && CONFIG.analyticsConsent && sampled;
+    }
+    
+    // Analytics events go out whether or not replay is being recorded
+    sendEvent(eventData) {
+      if (!this.tracksEvents()) return;
+      if (this.isRecording) {
+        this.recordEvent(eventData);
+        return;
+      }
+      
+      if (!this.keepSessionAlive(eventData, this.sendEvent)) return;
+      this.eventQueue.push(eventData);
+      this.startEventDelivery();
+      
+      if (this.eventQueue.length >= CONFIG.performance.eventQueueSize) {
+        this.flushEvents();
+      }
     }
     
     startFlowHeartbeat() {
@@ -315,6 +863,7 @@
       // Fallback to basic recording without WASM
       console.log('⚠️ SAJKO V4: Using fallback mode (no WASM)');
       this.isRecording = true;
+      emitLifecycle('recording_started', { sessionId: this.sessionId });
       this.setupEventListeners();
       this.startBatchTimer();
     }
@@ -405,8 +954,12 @@
           });
           paintObserver.observe({ entryTypes: ['paint', 'largest-contentful-paint'] });
           
-          // Observe resource timing for API calls
-          const resourceObserver = new PerformanceObserver((list) => {
+          // Observe resource timing for API calls, unless config.network
+          // records them with status, headers and bodies
+          const resourceObserver = CONFIG.network ? null : new PerformanceObserver((list) => {
+            // Entries arrive once a call finished - like recordNetworkCall(),
+            // calls finishing during a pause belong to the sensitive screen
+            if (this.paused) return;
             for (const entry of list.getEntries()) {
               if (entry.initiatorType === 'xmlhttprequest' || entry.initiatorType === 'fetch') {
                 this.recordEvent({
@@ -422,7 +975,9 @@
               }
             }
           });
-          resourceObserver.observe({ entryTypes: ['resource'] });
+          if (resourceObserver) {
+            resourceObserver.observe({ entryTypes: ['resource'] });
+          }
           
         } catch (error) {
           console.log('⚠️ SAJKO V4: PerformanceObserver not supported:', error);
@@ -430,6 +985,311 @@
       }
     }
     
+    // Adopt the visitor and session IDs from a decorated link once its
+    // signature is verified. The parameter is stripped right away, so it is
+    // neither bookmarked nor shared.
+    async adoptCrossDomainLink() {
+      const crossDomain = CONFIG.crossDomain;
+      if (!crossDomain) return;
+      
+      this.crossDomainLink = { linked: false };
+      const param = crossDomain.param || '_sajko';
+      const url = new URL(window.location.href);
+      const value = url.searchParams.get(param);
+      if (!value) return;
+      
+      url.searchParams.delete(param);
+      try {
+        history.replaceState(history.state, '', url.pathname + url.search + url.hash);
+      } catch (error) {
+        // Sandboxed documents may refuse - the parameter stays visible
+      }
+      // Anonymous visits take no IDs from another domain either
+      if (ANONYMOUS) return;
+      
+      if (!crossDomain.publicKey || !(window.crypto && window.crypto.subtle)) {
+        console.warn('⚠️ SAJKO V4: Cross-domain link ignored, it cannot be verified without crossDomain.publicKey');
+        return;
+      }
+      
+      const link = await readLinker(value, crossDomain);
+      if (link.error) {
+        console.warn(`⚠️ SAJKO V4: Ignored ${link.error} cross-domain link`);
+        return;
+      }
+      
+      identityStorage.visitor.setItem('sajko_visitor_id', link.v);
+      identityStorage.session.setItem('sajko_session_v4', JSON.stringify({ id: link.s, created: Date.now() }));
+      this.sessionId = this.getOrCreateSessionId();
+      this.visitorId = this.getOrCreateVisitorId();
+      this.sampling = decideSampling(CONFIG.sampling, this.visitorId, false);
+      this.crossDomainLink = { linked: true, from: link.f, linkedAt: Date.now() };
+      console.log('🔗 SAJKO V4: Session linked from', link.f);
+    }
+    
+    // Signed linker for the current IDs, or null while none is usable. It
+    // is fetched ahead and renewed once half its lifetime is used, so a
+    // click never waits for the API.
+    currentLinker() {
+      const maxAgeMs = (CONFIG.crossDomain.maxAgeSeconds || 120) * 1000;
+      const linker = this.linker;
+      const current = linker && linker.visitorId === this.visitorId && linker.sessionId === this.sessionId;
+      const age = current ? Date.now() - linker.fetchedAt : Infinity;
+      
+      if (age > maxAgeMs / 2) {
+        this.refreshLinker();
+      }
+      // Leave time for the navigation before it expires
+      return age < maxAgeMs - 10000 ? linker.value : null;
+    }
+    
+    refreshLinker() {
+      if (this.linkerRequest) return this.linkerRequest;
+      
+      const { visitorId, sessionId } = this;
+      this.linkerRequest = requestLinker(visitorId, sessionId)
+        .then(value => {
+          this.linker = { value, visitorId, sessionId, fetchedAt: Date.now() };
+        })
+        .catch(error => {
+          console.warn('⚠️ SAJKO V4: Cross-domain linker unavailable:', error);
+        })
+        .finally(() => {
+          this.linkerRequest = null;
+        });
+      return this.linkerRequest;
+    }
+    
+    // Add the signed linker to links and forms leading to the configured
+    // domains as they are used. Links followed before the API answered go
+    // out undecorated.
+    startLinkDecoration() {
+      const crossDomain = CONFIG.crossDomain;
+      if (!crossDomain || !crossDomain.domains || crossDomain.domains.length === 0 || ANONYMOUS) return;
+      
+      const param = crossDomain.param || '_sajko';
+      const linkedUrl = (href) => {
+        const url = resolveUrl(href);
+        if (!url) return null;
+        try {
+          const target = new URL(url);
+          return /^https?:$/.test(target.protocol) && isLinkedDomain(crossDomain, target.hostname) ? target : null;
+        } catch (error) {
+          return null;
+        }
+      };
+      const decorate = (href) => {
+        const target = linkedUrl(href);
+        const linker = target && this.currentLinker();
+        if (!linker) return null;
+        target.searchParams.set(param, linker);
+        return target;
+      };
+      const closestLink = (event) =>
+        event.target && event.target.closest && event.target.closest('a[href], area[href]');
+      
+      // Hovering or focusing a link renews a stale linker before it is used
+      const onApproach = (event) => {
+        const link = closestLink(event);
+        if (link && linkedUrl(link.href)) this.currentLinker();
+      };
+      
+      const onLink = (event) => {
+        const link = closestLink(event);
+        if (!link) return;
+        const target = decorate(link.href);
+        if (target) link.href = target.href;
+      };
+      
+      const onSubmit = (event) => {
+        const form = event.target;
+        if (crossDomain.forms === false || !form || form.tagName !== 'FORM') return;
+        const target = decorate(form.action);
+        if (!target) return;
+        
+        if ((form.method || 'get').toLowerCase() === 'get') {
+          // GET submissions replace the action's query with the form fields
+          let input = form.querySelector(`input[type="hidden"][name="${param}"]`);
+          if (!input) {
+            input = document.createElement('input');
+            input.type = 'hidden';
+            input.name = param;
+            form.appendChild(input);
+          }
+          input.value = target.searchParams.get(param);
+        } else {
+          form.action = target.href;
+        }
+      };
+      
+      this.refreshLinker();
+      ['mouseover', 'focusin'].forEach(type => {
+        document.addEventListener(type, onApproach, true);
+        this.eventCleanup.push(() => document.removeEventListener(type, onApproach, true));
+      });
+      ['mousedown', 'keydown', 'click'].forEach(type => {
+        document.addEventListener(type, onLink, true);
+        this.eventCleanup.push(() => document.removeEventListener(type, onLink, true));
+      });
+      document.addEventListener('submit', onSubmit, true);
+      this.eventCleanup.push(() => document.removeEventListener('submit', onSubmit, true));
+    }
+    
+    startNetworkCapture() {
+      const network = CONFIG.network;
+      if (!network || network.enabled === false || this.networkCaptureActive) return;
+      this.networkCaptureActive = true;
+      this.eventCleanup.push(() => { this.networkCaptureActive = false; });
+      
+      const self = this;
+      
+      if (window.fetch) {
+        const originalFetch = window.fetch;
+        const patchedFetch = function(input, init) {
+          const request = input instanceof Request ? input : null;
+          const url = resolveUrl(request ? request.url : input);
+          if (!self.isRecording || self.paused || !shouldCaptureUrl(network, url)) {
+            return originalFetch.apply(this, arguments);
+          }
+          
+          const call = {
+            url,
+            method: ((init && init.method) || (request && request.method) || 'GET').toUpperCase(),
+            initiator: 'fetch'
+          };
+          if (network.captureHeaders) {
+            const headers = new Headers((init && init.headers) || (request && request.headers) || undefined);
+            call.requestHeaders = pickHeaders(network, Array.from(headers.entries()));
+          }
+          if (network.captureBodies) {
+            call.requestBody = truncateBody(network, readRequestBody(init && init.body));
+          }
+          
+          const startTime = performance.now();
+          return originalFetch.apply(this, arguments).then(response => {
+            call.status = response.status;
+            call.duration = Math.round(performance.now() - startTime);
+            if (network.captureHeaders) {
+              call.responseHeaders = pickHeaders(network, Array.from(response.headers.entries()));
+            }
+            if (network.captureBodies && isTextContent(response.headers.get('content-type'))) {
+              // Read a copy so the page still gets the body
+              response.clone().text()
+                .then(text => { call.responseBody = truncateBody(network, text); })
+                .catch(() => {})
+                .then(() => self.recordNetworkCall(call));
+            } else {
+              self.recordNetworkCall(call);
+            }
+            return response;
+          }, error => {
+            call.status = 0;
+            call.duration = Math.round(performance.now() - startTime);
+            call.error = error && error.message ? error.message : String(error);
+            self.recordNetworkCall(call);
+            throw error;
+          });
+        };
+        window.fetch = patchedFetch;
+        this.eventCleanup.push(() => {
+          // Leave wrappers installed after ours in place
+          if (window.fetch === patchedFetch) {
+            window.fetch = originalFetch;
+          }
+        });
+      }
+      
+      if (window.XMLHttpRequest) {
+        const proto = XMLHttpRequest.prototype;
+        const originalOpen = proto.open;
+        const originalSend = proto.send;
+        const originalSetRequestHeader = proto.setRequestHeader;
+        
+        const patchedOpen = function(method, url) {
+          this.__sajkoCall = {
+            url: resolveUrl(url),
+            method: String(method || 'GET').toUpperCase(),
+            initiator: 'xhr',
+            requestHeaders: network.captureHeaders ? [] : undefined
+          };
+          return originalOpen.apply(this, arguments);
+        };
+        proto.open = patchedOpen;
+        
+        proto.setRequestHeader = function(name, value) {
+          if (this.__sajkoCall && this.__sajkoCall.requestHeaders) {
+            this.__sajkoCall.requestHeaders.push([name, value]);
+          }
+          return originalSetRequestHeader.apply(this, arguments);
+        };
+        
+        proto.send = function(body) {
+          const pending = this.__sajkoCall;
+          if (pending && self.isRecording && !self.paused && shouldCaptureUrl(network, pending.url)) {
+            const xhr = this;
+            const startTime = performance.now();
+            const call = { url: pending.url, method: pending.method, initiator: 'xhr' };
+            if (pending.requestHeaders) {
+              call.requestHeaders = pickHeaders(network, pending.requestHeaders);
+            }
+            if (network.captureBodies) {
+              call.requestBody = truncateBody(network, readRequestBody(body));
+            }
+            
+            xhr.addEventListener('loadend', () => {
+              call.status = xhr.status;
+              call.duration = Math.round(performance.now() - startTime);
+              if (xhr.status === 0) {
+                call.error = 'Network request failed';
+              }
+              if (network.captureHeaders) {
+                call.responseHeaders = pickHeaders(network, parseRawHeaders(xhr.getAllResponseHeaders()));
+              }
+              if (network.captureBodies && (xhr.responseType === '' || xhr.responseType === 'text') &&
+                  isTextContent(xhr.getResponseHeader('content-type'))) {
+                call.responseBody = truncateBody(network, xhr.responseText);
+              }
+              self.recordNetworkCall(call);
+            });
+          }
+          return originalSend.apply(this, arguments);
+        };
+        
+        this.eventCleanup.push(() => {
+          if (proto.open === patchedOpen) {
+            proto.open = originalOpen;
+            proto.send = originalSend;
+            proto.setRequestHeader = originalSetRequestHeader;
+          }
+        });
+      }
+    }
+    
+    recordNetworkCall(call) {
+      const network = CONFIG.network;
+      // Calls that finish during a pause belong to the sensitive screen too
+      if (this.paused || !shouldCaptureStatus(network, call.status)) return;
+      
+      let result = call;
+      if (typeof network.redact === 'function') {
+        try {
+          const redacted = network.redact(call);
+          if (redacted === null || redacted === false) return;
+          if (redacted) result = redacted;
+        } catch (error) {
+          // Recording an unscrubbed call could leak what redact() removes
+          console.warn('⚠️ SAJKO V4: network.redact threw, call not recorded', error);
+          return;
+        }
+      }
+      
+      this.recordEvent({
+        type: 'api_call',
+        timestamp: Date.now(),
+        data: result
+      });
+    }
+    
     capturePerformanceMetrics() {
       // Capture Navigation Timing metrics if available
       if (performance.timing) {
@@ -475,13 +1335,15 @@
     
     recordEvent(eventData) {
       // Add event to queue for batch processing
-      if (this.eventQueue && this.isRecording) {
+      if (this.eventQueue && this.isRecording && this.keepSessionAlive(eventData, this.recordEvent)) {
         this.eventQueue.push(eventData);
         this.lastActivityTime = Date.now();
       }
     }
 
+    // Input handlers record nothing while paused
     async handleMouseMove(event) {
+      if (this.paused) return;
       const now = performance.now();
       if (now - this.lastMouseMove < this.mouseSampleRate) return;
       
@@ -497,6 +1359,7 @@
     }
 
     async handleClick(event) {
+      if (this.paused) return;
       const eventData = {
         type: 'mouse_click',
         clientX: event.clientX,
@@ -512,6 +1375,7 @@
     }
 
     async handleScroll(event) {
+      if (this.paused) return;
       const now = performance.now();
       if (now - this.lastScroll < this.scrollSampleRate) return;
       
@@ -527,6 +1391,7 @@
     }
 
     async handleKeyboard(event) {
+      if (this.paused) return;
       const eventData = {
         type: 'keyboard_input',
         key: event.key,
@@ -538,6 +1403,7 @@
     }
 
     async handleInput(event) {
+      if (this.paused) return;
       const target = event.target;
       const value = this.shouldMaskInput(target) ? '[MASKED]' : target.value;
       
@@ -552,6 +1418,7 @@
     }
     
     async handleFormSubmit(event) {
+      if (this.paused) return;
       const form = event.target;
       const formData = {
         type: 'form_submit',
@@ -606,6 +1473,11 @@
           ...additionalData
         };
         
+        // Global properties registered through the core's register()
+        if (Object.keys(this.superProperties).length > 0) {
+          flowData.properties = { ...this.superProperties, ...flowData.properties };
+        }
+        
         // Send to flow tracking endpoint
         fetch(`${CONFIG.apiEndpoint}/api/flows/track`, {
           method: 'POST',
@@ -627,7 +1499,7 @@
     handleUnload(event) {
       // Improved duplicate prevention with time-based check
       const sessionExitKey = `sajko_exit_${this.sessionId}`;
-      const recentExit = sessionStorage.getItem(sessionExitKey);
+      const recentExit = markerStorage.getItem(sessionExitKey);
       
       if (recentExit && Date.now() - parseInt(recentExit) < 1000) {
         console.log('🚫 SAJKO V4: Exit event already sent, skipping duplicate');
@@ -679,13 +1551,13 @@
       this.sendSessionCompletion();
       
       // Mark exit as sent with timestamp for time-based duplicate prevention
-      sessionStorage.setItem(`sajko_exit_${this.sessionId}`, Date.now().toString());
+      markerStorage.setItem(`sajko_exit_${this.sessionId}`, Date.now().toString());
     }
 
     handlePageHide(event) {
       // Prevent duplicate exit events
       const exitEventKey = `sajko_v4_exit_sent_${window.location.href}`;
-      if (sessionStorage.getItem(exitEventKey)) {
+      if (markerStorage.getItem(exitEventKey)) {
         console.log('🚫 SAJKO V4: Exit event already sent from page_hide, skipping duplicate');
         return;
       }
@@ -722,7 +1594,7 @@
       this.sendSessionCompletion();
       
       // Mark exit as sent AFTER flushing to prevent blocking subsequent calls
-      sessionStorage.setItem(exitEventKey, Date.now().toString());
+      markerStorage.setItem(exitEventKey, Date.now().toString());
     }
 
     sendSessionCompletion() {
@@ -989,7 +1861,7 @@
     }
 
     async addEvent(eventData) {
-      if (!this.isRecording) return;
+      if (!this.isRecording || !this.keepSessionAlive(eventData, this.addEvent)) return;
       
       // Process through WASM if available
       if (this.wasmBridge && this.wasmBridge.isReady) {
@@ -1031,6 +1903,9 @@
       this.eventQueue = [];
       
       try {
+        // Batches sent without recording may be the session's first
+        await this.ensureSession();
+        
         let payload = events;
         
         // Process batch through WASM if available
@@ -1040,16 +1915,19 @@
           if (result.data) {
             // Send compressed data
             await this.sendCompressedBatch(result.data, events.length);
+            emitLifecycle('flush_succeeded', { eventCount: events.length });
             return;
           }
         }
         
         // Send uncompressed if WASM not available
         await this.sendBatch(events);
+        emitLifecycle('flush_succeeded', { eventCount: events.length });
       } catch (error) {
         console.error('❌ SAJKO V4: Failed to flush events:', error);
         // Re-queue events
         this.eventQueue.unshift(...events.slice(-10));
+        emitLifecycle('flush_failed', { eventCount: events.length, error });
       }
     }
 
@@ -1133,7 +2011,8 @@
     }
 
     startBatchTimer() {
-      setInterval(() => {
+      if (this.batchTimer) return;
+      this.batchTimer = setInterval(() => {
         if (this.eventQueue.length > 0) {
           this.flushEvents();
         }
@@ -1142,7 +2021,7 @@
 
     startDOMObservation() {
       this.mutationObserver = new MutationObserver((mutations) => {
-        if (!this.isRecording) return;
+        if (!this.isRecording || this.paused) return;
         this.processDOMMutations(mutations);
       });
 
@@ -1211,6 +2090,8 @@
     }
     
     async captureSnapshot(snapshotType = 'full') {
+      if (this.paused) return;
+      
       // First preserve all inline styles before any manipulation
       const inlineStyles = this.captureInlineStyles();
       
@@ -1912,33 +2793,144 @@
     }
 
     getOrCreateSessionId() {
-      const stored = sessionStorage.getItem('sajko_session_v4');
+      const now = Date.now();
+      const utm = currentUtm();
+      const stored = identityStorage.session.getItem('sajko_session_v4');
       if (stored) {
-        const session = JSON.parse(stored);
-        if (Date.now() - session.created < 30 * 60 * 1000) {
-          return session.id;
+        try {
+          const session = JSON.parse(stored);
+          const campaignChanged = CONFIG.session.rotateOnUtmChange && utm && utm !== session.utm;
+          if (!sessionExpiry(session, now) && !campaignChanged) {
+            this.session = { ...session, lastActivity: now };
+            this.saveSession();
+            return session.id;
+          }
+        } catch (error) {
+          // Corrupt entry - start a new session
         }
       }
       
-      const sessionId = `sajko_v4_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-      sessionStorage.setItem('sajko_session_v4', JSON.stringify({
-        id: sessionId,
-        created: Date.now()
-      }));
+      const sessionId = `sajko_v4_${now}_${Math.random().toString(36).substring(2, 15)}`;
+      this.session = { id: sessionId, created: now, lastActivity: now, utm };
+      this.saveSession();
       
       return sessionId;
     }
+    
+    saveSession() {
+      identityStorage.session.setItem('sajko_session_v4', JSON.stringify(this.session));
+      this.sessionSavedAt = Date.now();
+    }
+    
+    // Activity keeps the session alive. After a pause longer than
+    // inactivityTimeoutMs or past maxDurationMs, the event is recorded in a
+    // new session instead - returns false when it was deferred to it.
+    keepSessionAlive(eventData, record) {
+      if (!this.rotatingSession) {
+        const now = Date.now();
+        const reason = sessionExpiry(this.session, now);
+        if (!reason) {
+          this.session.lastActivity = now;
+          // Persisted at most every 5s - enough precision for a timeout in minutes
+          if (now - this.sessionSavedAt > 5000) {
+            this.saveSession();
+          }
+          return true;
+        }
+        this.startNewSession(reason);
+      }
+      this.rotatingSession.then(() => record.call(this, eventData));
+      return false;
+    }
+    
+    // New session for the same visitor: what was recorded so far is sent
+    // under the old session, then recording starts over
+    startNewSession(reason) {
+      if (this.rotatingSession) return this.rotatingSession;
+      
+      this.rotatingSession = (async () => {
+        const wasRecording = this.isRecording;
+        const previousSessionId = this.sessionId;
+        
+        await this.flushEvents();
+        if (wasRecording) {
+          this.stop();
+        }
+        
+        identityStorage.session.removeItem('sajko_session_v4');
+        this.sessionId = this.getOrCreateSessionId();
+        this.sessionStartTime = Date.now();
+        this.currentPageNumber = 1;
+        
+        console.log('🔄 SAJKO V4: New session', { sessionId: this.sessionId, reason });
+        emitLifecycle('session_rotated', { sessionId: this.sessionId, previousSessionId, reason });
+        
+        if (wasRecording) {
+          await this.initialize();
+        }
+      })().finally(() => {
+        this.rotatingSession = null;
+      });
+      
+      return this.rotatingSession;
+    }
+
+    // Sensitive screens: DOM changes, input and network calls stay out of
+    // the replay, while the session and tracked events carry on. The
+    // timeline gets a replay_paused / replay_resumed pair the player shows
+    // as a gap.
+    pause(reason) {
+      if (this.paused) return;
+      
+      this.paused = { reason: reason || null, since: Date.now() };
+      if (this.mutationObserver) {
+        this.mutationObserver.disconnect();
+      }
+      
+      this.recordEvent({ type: 'replay_paused', reason: this.paused.reason, timestamp: this.paused.since });
+      console.log('⏸️ SAJKO V4: Replay paused', this.paused);
+      emitLifecycle('recording_paused', { sessionId: this.sessionId, reason: this.paused.reason });
+    }
+    
+    resume() {
+      if (!this.paused) return;
+      
+      const reason = this.paused.reason;
+      const pausedMs = Date.now() - this.paused.since;
+      this.paused = null;
+      
+      this.recordEvent({ type: 'replay_resumed', reason, pausedMs, timestamp: Date.now() });
+      
+      // The page may have changed completely - start from a fresh snapshot
+      if (this.isRecording && this.recordsReplay()) {
+        this.startDOMObservation();
+        this.captureSnapshot();
+      }
+      
+      console.log('▶️ SAJKO V4: Replay resumed', { reason, pausedMs });
+      emitLifecycle('recording_resumed', { sessionId: this.sessionId, reason, pausedMs });
+    }
+    
+    recordsReplay() {
+      return (!this.sampling || this.sampling.replaySampled) && !this.paused;
+    }
 
     getOrCreateVisitorId() {
-      let visitorId = localStorage.getItem('sajko_visitor_id');
+      // Anonymous visits get no visitor ID - events only carry the session
+      if (ANONYMOUS) return null;
+      
+      let visitorId = identityStorage.visitor.getItem('sajko_visitor_id');
       if (!visitorId) {
         visitorId = `visitor_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-        localStorage.setItem('sajko_visitor_id', visitorId);
+        identityStorage.visitor.setItem('sajko_visitor_id', visitorId);
       }
       return visitorId;
     }
 
     stop() {
+      if (this.isRecording) {
+        emitLifecycle('recording_stopped', { sessionId: this.sessionId });
+      }
       this.isRecording = false;
       
       // Flush remaining events
@@ -1960,6 +2952,178 @@
       console.log('🛑 SAJKO V4: Recording stopped');
     }
 
+    // Persisted by the core's register(), so the first page view has them
+    // before the core hands over page-scoped ones. With privacy.scrub set
+    // the recorder waits for the core's scrubbed copy instead.
+    readSuperProperties() {
+      const properties = {};
+      if (CONFIG.scrubbing) return properties;
+      // Same backends and keys as the core's SuperProperties
+      [
+        [identityStorage.visitor, CONFIG.superPropertiesKey],
+        [identityStorage.session, CONFIG.superPropertiesKey + ':session']
+      ].forEach(([storage, key]) => {
+        try {
+          Object.assign(properties, JSON.parse(storage.getItem(key) || '{}'));
+        } catch (error) {
+          // Corrupt entry - ignore
+        }
+      });
+      return properties;
+    }
+
+    setSuperProperties(properties) {
+      this.superProperties = { ...properties };
+    }
+
+    // Custom event from the core's track(), at the time it was called
+    trackEvent(eventName, data, timestamp) {
+      this.sendEvent({
+        type: 'custom_event',
+        timestamp: timestamp || Date.now(),
+        data: { name: eventName, properties: data || {}, pageUrl: window.location.href }
+      });
+    }
+
+    // Identity calls are dropped for anonymous visits, as in the core
+    identify(userId, traits) {
+      if (ANONYMOUS) return;
+      this.sendEvent({
+        type: 'identify',
+        timestamp: Date.now(),
+        data: { userId, traits: traits || {} }
+      });
+    }
+
+    alias(userId, previousId) {
+      if (ANONYMOUS) return;
+      this.sendEvent({
+        type: 'alias',
+        timestamp: Date.now(),
+        data: { userId, previousId: previousId || this.visitorId }
+      });
+    }
+
+    group(groupId, traits) {
+      if (ANONYMOUS) return;
+      this.sendEvent({
+        type: 'group',
+        timestamp: Date.now(),
+        data: { groupId, traits: traits || {} }
+      });
+    }
+
+    // Structured error from the core's captureException(), placed on the
+    // replay timeline next to the interactions that led to it
+    captureException(error) {
+      this.sendEvent({
+        type: 'error',
+        timestamp: Date.now(),
+        data: { ...error, sessionId: error.sessionId || this.sessionId }
+      });
+    }
+
+    // Normalized LCP/CLS/INP/FCP/TTFB from the core, one per metric and page view
+    reportWebVital(metric) {
+      this.sendEvent({
+        type: 'web_vital',
+        timestamp: Date.now(),
+        data: metric
+      });
+    }
+
+    async reset() {
+      const wasRecording = this.isRecording;
+      const previousSessionId = this.sessionId;
+      
+      // Send what belongs to the previous user under the old IDs
+      await this.flushEvents();
+      if (wasRecording) {
+        this.stop();
+      }
+      
+      identityStorage.visitor.removeItem('sajko_visitor_id');
+      identityStorage.session.removeItem('sajko_session_v4');
+      this.sessionId = this.getOrCreateSessionId();
+      this.visitorId = this.getOrCreateVisitorId();
+      this.sampling = decideSampling(CONFIG.sampling, this.visitorId || this.sessionId, false);
+      this.sessionStartTime = Date.now();
+      this.currentPageNumber = 1;
+      
+      console.log('🔄 SAJKO V4: Identity reset', {
+        sessionId: this.sessionId,
+        visitorId: this.visitorId
+      });
+      emitLifecycle('session_rotated', { sessionId: this.sessionId, previousSessionId, reason: 'reset' });
+      
+      if (wasRecording) {
+        return this.initialize();
+      }
+      return false;
+    }
+
+    // Replay consent starts and stops recording; analytics consent alone
+    // keeps events flowing without it
+    async setConsent(consent) {
+      const wasAllowed = CONFIG.hasUserConsent;
+      // A privacy signal keeps replay off whatever the choice
+      CONFIG.hasUserConsent = !PRIVACY_MODE && !!(consent && consent.replay);
+      CONFIG.analyticsConsent = PRIVACY_MODE !== 'block' && analyticsConsent(consent, consent && consent.replay);
+      
+      if (CONFIG.hasUserConsent && !wasAllowed && !this.isRecording) {
+        console.log('✅ SAJKO V4: Replay consent granted, starting recording');
+        return this.initialize();
+      }
+      
+      if (!CONFIG.hasUserConsent && this.isRecording) {
+        console.log('🛑 SAJKO V4: Replay consent revoked, stopping recording');
+        this.stop();
+      }
+      
+      if (!this.isRecording) {
+        if (CONFIG.analyticsConsent) {
+          this.startEventDelivery();
+        } else {
+          // Queued before the refusal - not to be sent anymore
+          this.eventQueue = [];
+        }
+      }
+      
+      return CONFIG.hasUserConsent;
+    }
+
+    async setSampling(decision) {
+      const previous = this.sampling;
+      this.sampling = decision;
+      
+      if (decision.sessionSampled && !this.isRecording) {
+        if (!CONFIG.hasUserConsent) {
+          this.startEventDelivery();
+          return false;
+        }
+        console.log('✅ SAJKO V4: Session now sampled, starting recording');
+        return this.initialize();
+      }
+      
+      // Only recording stops - events keep going with alwaysTrackEvents
+      if (!decision.sessionSampled && this.isRecording) {
+        console.log('🛑 SAJKO V4: Session no longer sampled, stopping recording');
+        this.stop();
+        this.startEventDelivery();
+        return false;
+      }
+      
+      const wasReplaying = !previous || previous.replaySampled;
+      if (this.isRecording && decision.replaySampled && !wasReplaying && !this.paused) {
+        this.startDOMObservation();
+        this.captureSnapshot();
+      } else if (this.isRecording && !decision.replaySampled && wasReplaying && this.mutationObserver) {
+        this.mutationObserver.disconnect();
+      }
+      
+      return this.isRecording;
+    }
+
     getMetrics() {
       const metrics = {
         sessionId: this.sessionId,
@@ -1968,6 +3132,18 @@
         hasWasm: this.wasmBridge?.isReady || false
       };
       
+      if (this.sampling) {
+        metrics.sampling = this.sampling;
+      }
+      
+      if (this.crossDomainLink) {
+        metrics.crossDomain = { ...this.crossDomainLink };
+      }
+      
+      if (this.paused) {
+        metrics.paused = { ...this.paused };
+      }
+      
       if (this.wasmBridge && this.wasmBridge.isReady) {
         Object.assign(metrics, this.wasmBridge.getMetrics());
       }
@@ -2132,10 +3308,27 @@
         start: () => recorder.initialize(),
         stop: () => recorder.stop(),
         flush: () => recorder.flushEvents(),
-        isRecording: recorder.isRecording,
-        sessionId: recorder.sessionId,
+        // Getters so callers always see the recorder's current state
+        get isRecording() { return recorder.isRecording; },
+        get isPaused() { return !!recorder.paused; },
+        get sessionId() { return recorder.sessionId; },
+        get visitorId() { return recorder.visitorId; },
         getMetrics: () => recorder.getMetrics(),
-        version: '4.0.0',
+        setConsent: (consent) => recorder.setConsent(consent),
+        setSampling: (decision) => recorder.setSampling(decision),
+        setSuperProperties: (properties) => recorder.setSuperProperties(properties),
+        trackEvent: (eventName, data, timestamp) => recorder.trackEvent(eventName, data, timestamp),
+        identify: (userId, traits) => recorder.identify(userId, traits),
+        alias: (userId, previousId) => recorder.alias(userId, previousId),
+        group: (groupId, traits) => recorder.group(groupId, traits),
+        captureException: (error) => recorder.captureException(error),
+        reportWebVital: (metric) => recorder.reportWebVital(metric),
+        reset: () => recorder.reset(),
+        startNewSession: () => recorder.startNewSession('manual'),
+        pause: (reason) => recorder.pause(reason),
+        resume: () => recorder.resume(),
+        on: (event, handler) => onLifecycle(event, handler),
+        version: '4.1.9',
         useWasm: true
       };
       
@@ -0,0 +1,3 @@
+/*! SAJKO Session Replay v4.1.9 */
+(function(){"use strict";const c=F(D());if(window.__sajkoRecorderV4Instance){c.log("\u{1F504} SAJKO V4: Recorder already initialized");return}const R=document.currentScript,W=`${Date.now()}_${Math.random().toString(36).substring(2,15)}`;c.log("\u{1F680} SAJKO V4: Initializing Go-powered recorder",{instanceId:W});function D(){if(window.sajkoConfig)return window.sajkoConfig;const n=document.currentScript||document.querySelector("script[data-website-id]");return n?{websiteId:n.getAttribute("data-website-id"),apiEndpoint:n.getAttribute("data-api-endpoint")||"https://api.sajko.ai",hasUserConsent:n.getAttribute("data-user-consent")==="true",debug:n.getAttribute("data-debug")==="true",logLevel:n.getAttribute("data-log-level")||void 0}:{}}function F(n){const e={silent:0,error:1,warn:2,info:3,debug:4},t=e[n.logLevel]!==void 0?n.logLevel:n.debug?"debug":"warn",s=window.console;function i(r,o){if(!(e[r]>e[t])){if(typeof n.logger=="function"){try{n.logger({level:r,message:String(o[0]),context:o.length>1?{details:o.slice(1)}:void 0,source:"replay",timestamp:Date.now()})}catch{}return}s[r==="debug"?"log":r](...o)}}return{log:(...r)=>i("debug",r),debug:(...r)=>i("debug",r),info:(...r)=>i("info",r),warn:(...r)=>i("warn",r),error:(...r)=>i("error",r)}}const g=D();function L(n,e){return n&&n.analytics!==void 0?!!n.analytics:!!e}function z(n){const e=navigator.doNotTrack||window.doNotTrack||navigator.msDoNotTrack;return!(navigator.globalPrivacyControl===!0||e==="1"||e==="yes")||!n?null:n===!0?"block":n}const E=z(g.respectPrivacySignals),v=E==="anonymous",h={apiEndpoint:g.apiEndpoint||"https://api.sajko.ai",websiteId:g.websiteId,hasUserConsent:!E&&(g.hasUserConsent||!1),analyticsConsent:E!=="block"&&L(g.consent&&g.consent.defaults,g.hasUserConsent),debug:g.debug||!1,wasmUrl:g.wasmUrl||(g.apiEndpoint||"https://api.sajko.ai")+"/sajko-replay.wasm",sampling:g.sampling||null,superPropertiesKey:g.superProperties&&g.superProperties.storageKey||"sajko_super_properties",scrubbing:!!(g.privacy&&g.privacy.scrub),network:g.network||null,storage:g.storage||{},crossDomain:g.crossDomain||null,startPaused:g.startPaused||!1,session:g.session||{},performance:{maxMemoryMB:25,maxCPUPercent:3,mouseSampleRate:20,scrollSampleRate:30,batchIntervalMs:8e3,eventQueueSize:50},privacy:{enablePIIMasking:!0,maskSelectors:['input[type="password"]',"[data-sensitive]",".sensitive"]}};async function X(){const n=h.apiEndpoint;if(c.log("\u{1F4E6} SAJKO V4: Loading dependencies from:",n),!window.Go){c.log("\u{1F4E6} SAJKO V4: Loading wasm_exec.js...");try{await V(n+"/wasm_exec.js"),c.log("\u2705 SAJKO V4: wasm_exec.js loaded")}catch(e){throw c.error("\u274C SAJKO V4: Failed to load wasm_exec.js:",e),e}}if(!window.WASMBridge){c.log("\u{1F4E6} SAJKO V4: Loading wasm-bridge.js...");try{await V(n+"/wasm-bridge.js"),c.log("\u2705 SAJKO V4: wasm-bridge.js loaded")}catch(e){throw c.error("\u274C SAJKO V4: Failed to load wasm-bridge.js:",e),e}}}function V(n){return new Promise((e,t)=>{const s=document.createElement("script");s.src=n,R&&R.nonce&&(s.nonce=R.nonce),s.onload=e,s.onerror=t,document.head.appendChild(s)})}function P(n){let e=2166136261;for(let t=0;t<n.length;t++)e^=n.charCodeAt(t),e=Math.imul(e,16777619);return(e>>>0)/4294967296}function Q(n,e){if(n instanceof RegExp)return n.test(e);const t=String(n).split("*").map(s=>s.replace(/[.+?^${}()|[\]\\]/g,"\\$&")).join(".*");return new RegExp("^"+t+"$").test(new URL(e).pathname)}function T(n,e,t){if(!n)return null;const s=n.rules||[],i=s.findIndex(u=>(u.identified===void 0||u.identified===t)&&(u.url===void 0||Q(u.url,window.location.href))),r=i>=0?s[i]:{},o=u=>Math.min(1,Math.max(0,u)),l=o(r.sessionRate??n.sessionRate??1),p=o(r.replayRate??n.replayRate??1),d=P(e)<l;return{sessionSampled:d,replaySampled:d&&P(e+":replay")<p,sessionRate:l,replayRate:p,rule:i>=0?i:null}}const Y=["authorization","proxy-authorization","cookie","set-cookie","x-api-key","x-auth-token","x-csrf-token"];function M(n,e){if(n instanceof RegExp)return n.test(e);if(n=String(n),n.indexOf("*")===-1)return e.indexOf(n)!==-1;const t=n.split("*").map(s=>s.replace(/[.+?^${}()|[\]\\]/g,"\\$&")).join(".*");return new RegExp("^"+t+"$").test(e)}function _(n){try{return new URL(String(n),window.location.href).href}catch{return String(n)}}function U(n,e){return e.indexOf(h.apiEndpoint)===0||(n.denyUrls||[]).some(t=>M(t,e))?!1:!n.allowUrls||n.allowUrls.some(t=>M(t,e))}function G(n,e){return n.statusCodes?n.statusCodes.some(t=>typeof t=="string"?String(e).charAt(0)===t.charAt(0)&&e>=100:t===e):!0}function O(n,e){const t=Array.isArray(n.captureHeaders)?n.captureHeaders.map(i=>i.toLowerCase()):null,s={};return e.forEach(([i,r])=>{const o=i.toLowerCase();t&&t.indexOf(o)===-1||(s[o]=Y.indexOf(o)!==-1?"[REDACTED]":String(r))}),s}function Z(n){return(n||"").trim().split(/[\r\n]+/).filter(Boolean).map(e=>{const t=e.indexOf(":");return[e.slice(0,t).trim(),e.slice(t+1).trim()]})}function J(n){if(n!=null){if(typeof n=="string")return n;if(n instanceof URLSearchParams)return n.toString()}}function K(n){return!n||/^text\/|json|xml|x-www-form-urlencoded|graphql/i.test(n)}function x(n,e){if(e===void 0)return;const t=n.maxBodySize||1e4;return e.length>t?e.slice(0,t)+`\u2026 [truncated ${e.length-t} chars]`:e}function I(n){return{getItem(e){try{return n().getItem(e)}catch{return null}},setItem(e,t){try{n().setItem(e,t)}catch{}},removeItem(e){try{n().removeItem(e)}catch{}}}}function N(n,e){const t=(s,i,r)=>{const o=n.sameSite||"Lax",l=n.secure!==void 0?n.secure:o==="None"||location.protocol==="https:";document.cookie=[`${encodeURIComponent(s)}=${encodeURIComponent(i)}`,"Path=/",n.domain?`Domain=${n.domain}`:"",r!==void 0?`Max-Age=${r}`:"",`SameSite=${o}`,l?"Secure":""].filter(Boolean).join("; ")};return I(()=>({getItem(s){const i=`${encodeURIComponent(s)}=`,r=document.cookie.split("; ").find(o=>o.startsWith(i));return r?decodeURIComponent(r.slice(i.length)):null},setItem(s,i){t(s,i,e!==void 0?Math.round(e*86400):void 0)},removeItem(s){t(s,"",0)}}))}function ee(n){if(n.adapter){const e=I(()=>n.adapter);return{visitor:e,session:e}}if(n.type==="cookie"){const e=n.cookie||{};return{visitor:N(e,e.expiresDays!==void 0?e.expiresDays:365),session:N(e)}}if(n.type==="memory"){const e={},t={getItem:s=>s in e?e[s]:null,setItem:(s,i)=>{e[s]=String(i)},removeItem:s=>{delete e[s]}};return{visitor:t,session:t}}return{visitor:I(()=>localStorage),session:I(()=>sessionStorage)}}const f=ee(h.storage),C=h.storage.type==="memory"?f.session:I(()=>sessionStorage);function H(n,e){const t=h.session.inactivityTimeoutMs||18e5;return e-(n.lastActivity||n.created)>t?"inactivity":h.session.maxDurationMs&&e-n.created>h.session.maxDurationMs?"max_duration":null}function te(){const n=new URLSearchParams(window.location.search),e=["utm_source","utm_medium","utm_campaign","utm_term","utm_content"].map(t=>n.get(t)||"");return e.some(Boolean)?e.join("|"):null}const se="2";function j(n){return atob(n.replace(/-/g,"+").replace(/_/g,"/"))}function $(n){return Uint8Array.from(j(n),e=>e.charCodeAt(0))}function B(){const n=`${navigator.userAgent}|${navigator.language}`;let e=2166136261;for(let t=0;t<n.length;t++)e^=n.charCodeAt(t),e=Math.imul(e,16777619);return(e>>>0).toString(36)}async function ie(n,e){const t=await fetch(`${h.apiEndpoint}/api/cross-domain/linker`,{method:"POST",headers:{"Content-Type":"application/json"},body:JSON.stringify({websiteId:h.websiteId,visitorId:n,sessionId:e,from:location.hostname,browser:B()})});if(!t.ok)throw new Error(`Linker request failed: ${t.status}`);const{linker:s}=await t.json();return s}async function ne(n,e){const t=n.split(".");if(t.length!==3||t[0]!==se)return{error:"invalid"};try{const s=await crypto.subtle.importKey("spki",$(e.publicKey),{name:"ECDSA",namedCurve:"P-256"},!1,["verify"]),i=new TextEncoder().encode(`${t[0]}.${t[1]}`);if(!await crypto.subtle.verify({name:"ECDSA",hash:"SHA-256"},s,$(t[2]),i))return{error:"invalid"};const o=JSON.parse(decodeURIComponent(escape(j(t[1]))));if(o.w!==h.websiteId||o.b!==B()||typeof o.v!="string"||typeof o.s!="string")return{error:"invalid"};const l=Date.now()-o.t;return l>=-6e4&&l<=(e.maxAgeSeconds||120)*1e3?o:{error:"expired"}}catch{return{error:"invalid"}}}function re(n,e){return!e||e===location.hostname?!1:(n.domains||[]).some(t=>e===t||e.endsWith(`.${t}`))}const A={};function oe(n,e){return(A[n]=A[n]||[]).push(e),()=>{A[n]=(A[n]||[]).filter(t=>t!==e)}}function w(n,e){(A[n]||[]).forEach(t=>{try{t(e)}catch(s){c.warn(`\u26A0\uFE0F SAJKO V4: Listener for "${n}" threw`,s)}})}class ae{constructor(){this.session=null,this.sessionSavedAt=0,this.rotatingSession=null,this.crossDomainLink=null,this.sessionId=this.getOrCreateSessionId(),this.visitorId=this.getOrCreateVisitorId(),this.sampling=T(h.sampling,this.visitorId||this.sessionId,!1),this.linkAdoption=this.adoptCrossDomainLink(),this.linker=null,this.linkerRequest=null,this.superProperties=this.readSuperProperties(),this.isRecording=!1,this.sessionCreation=null,this.pageViewSentFor=null,this.batchTimer=null,this.deliveryListening=!1,this.paused=h.startPaused?{reason:typeof h.startPaused=="string"?h.startPaused:null,since:Date.now()}:null,this.eventQueue=[],this.wasmBridge=null,this.lastActivityTime=0,this.currentPageNumber=1,this.sessionStartTime=Date.now(),this.lastMouseMove=0,this.lastScroll=0,this.mouseSampleRate=50,this.scrollSampleRate=100,this.mutationObserver=null,this.eventCleanup=[],this.mediaTracker=null,this.trackedMediaUrls=new Map,c.log("\u{1F3AC} SAJKO V4 Recorder initialized")}async initialize(){try{if(!h.websiteId)return c.error("\u274C SAJKO V4: Website ID required"),!1;if(await this.linkAdoption,!h.hasUserConsent)return c.log("\u2139\uFE0F SAJKO V4: No replay consent, recording disabled"),this.startEventDelivery(),!1;if(this.sampling&&!this.sampling.sessionSampled)return c.log("\u2139\uFE0F SAJKO V4: Session not sampled, recording disabled",this.sampling),this.startEventDelivery(),!1;if(typeof WASMBridge>"u")throw c.error("\u274C SAJKO V4: WASMBridge not loaded"),new Error("WASMBridge class not available");return c.log("\u{1F527} SAJKO V4: Initializing WASM bridge..."),this.wasmBridge=new WASMBridge,await this.wasmBridge.initialize(),c.log("\u2705 SAJKO V4: WASM bridge ready"),await this.ensureSession(),this.initializeMediaTracking(),this.startRecording(),c.log("\u2705 SAJKO V4: Recording started",{sessionId:this.sessionId,visitorId:this.visitorId,useWasm:!0}),!0}catch(e){return c.error("\u274C SAJKO V4: Failed to initialize:",e),this.startRecordingFallback(),!1}}async ensureSession(){if(await this.linkAdoption,this.sessionCreation&&this.sessionCreation.sessionId===this.sessionId)return this.sessionCreation.promise;const e={sessionId:this.sessionId};return e.promise=this.createSession().catch(t=>{throw this.sessionCreation===e&&(this.sessionCreation=null),t}),this.sessionCreation=e,e.promise}async createSession(){const e=this.detectDevice(),t={sessionId:this.sessionId,visitorId:this.visitorId,websiteId:h.websiteId,startTime:new Date().toISOString(),deviceInfo:{userAgent:e.userAgent,deviceType:e.deviceType,browserName:e.browserName,browserVersion:e.browserVersion,osName:e.osName,osVersion:e.osVersion,screenResolution:e.screenResolution,viewportSize:e.viewportSize},pageInfo:{initialUrl:window.location.href,referrer:document.referrer||null,title:document.title},initialUrl:window.location.href};c.log("\u{1F504} SAJKO V4: Creating session with data:",t);try{const s=await fetch(`${h.apiEndpoint}/api/session-replay`,{method:"POST",headers:{"Content-Type":"application/json",Accept:"application/json"},body:JSON.stringify(t)}),i=await s.text();if(c.log("\u{1F4E1} SAJKO V4: Session creation response:",s.status,i),!s.ok)throw new Error(`Session creation failed: ${s.status} - ${i}`);c.log("\u2705 SAJKO V4: Session created successfully")}catch(s){throw c.error("\u274C SAJKO V4: Session creation failed:",s),s}}startRecording(){this.isRecording=!0,this.lastActivityTime=Date.now(),w("recording_started",{sessionId:this.sessionId});const e=this.recordsReplay();e?this.startDOMObservation():this.paused&&this.recordEvent({type:"replay_paused",reason:this.paused.reason,timestamp:Date.now()}),this.setupEventListeners(),this.startPerformanceMonitoring(),this.startNetworkCapture(),this.startLinkDecoration(),this.startBatchTimer(),this.startFlowHeartbeat(),e&&this.captureSnapshot(),this.sendInitialPageView(),this.capturePerformanceMetrics()}sendInitialPageView(){this.pageViewSentFor!==this.sessionId&&(this.pageViewSentFor=this.sessionId,this.trackFlowEvent("page_view",{target:document},{isInitialLoad:!0,referrer:document.referrer,...this.crossDomainLink&&this.crossDomainLink.linked?{crossDomain:{from:this.crossDomainLink.from}}:{}}))}startEventDelivery(){this.isRecording||!this.tracksEvents()||(this.startBatchTimer(),this.deliveryListening||(this.deliveryListening=!0,window.addEventListener("pagehide",()=>{this.isRecording||this.flushEventsSync()}),document.addEventListener("visibilitychange",()=>{!this.isRecording&&document.hidden&&this.flushEvents()})),this.ensureSession().then(()=>this.sendInitialPageView()).catch(e=>c.error("\u274C SAJKO V4: Session creation failed:",e)))}tracksEvents(){const e=!this.sampling||this.sampling.sessionSampled||!!(h.sampling&&h.sampling.alwaysTrackEvents);return!!h.websiteId&&h.analyticsConsent&&e}sendEvent(e){if(this.tracksEvents()){if(this.isRecording){this.recordEvent(e);return}this.keepSessionAlive(e,this.sendEvent)&&(this.eventQueue.push(e),this.startEventDelivery(),this.eventQueue.length>=h.performance.eventQueueSize&&this.flushEvents())}}startFlowHeartbeat(){this.heartbeatInterval&&clearInterval(this.heartbeatInterval),this.heartbeatInterval=setInterval(()=>{this.isRecording&&!document.hidden&&this.sendFlowHeartbeat()},3e4)}sendFlowHeartbeat(){if(!this.sessionId||!this.visitorId||!h.websiteId)return;const e={sessionId:this.sessionId,visitorId:this.visitorId,websiteId:h.websiteId,eventType:"heartbeat",pageUrl:window.location.href,pageTitle:document.title,timestamp:new Date().toISOString()};fetch(`${h.apiEndpoint}/api/flows/heartbeat`,{method:"POST",headers:{"Content-Type":"application/json"},body:JSON.stringify(e),keepalive:!0}).catch(()=>{})}startRecordingFallback(){c.log("\u26A0\uFE0F SAJKO V4: Using fallback mode (no WASM)"),this.isRecording=!0,w("recording_started",{sessionId:this.sessionId}),this.setupEventListeners(),this.startBatchTimer()}setupEventListeners(){this.addEventListener(document,"mousemove",this.handleMouseMove.bind(this)),this.addEventListener(document,"click",this.handleClick.bind(this)),this.addEventListener(document,"keydown",this.handleKeyboard.bind(this)),this.addEventListener(window,"scroll",this.handleScroll.bind(this)),this.addEventListener(document,"input",this.handleInput.bind(this),!0),this.addEventListener(document,"submit",this.handleFormSubmit.bind(this),!0),this.addEventListener(window,"beforeunload",this.handleUnload.bind(this)),this.addEventListener(window,"pagehide",this.handlePageHide.bind(this)),this.addEventListener(window,"unload",this.handleUnload.bind(this)),this.addEventListener(document,"visibilitychange",this.handleVisibilityChange.bind(this)),this.addEventListener(window,"popstate",this.handlePopState.bind(this)),this.addEventListener(window,"hashchange",this.handleHashChange.bind(this)),this.interceptHistoryAPI(),this.setupSPANavigationDetection()}startPerformanceMonitoring(){if(document.readyState==="loading"&&this.addEventListener(document,"DOMContentLoaded",()=>{this.recordEvent({type:"dom_content_loaded",timestamp:Date.now(),data:{loadTime:performance.timing.domContentLoadedEventEnd-performance.timing.navigationStart}})}),this.addEventListener(window,"load",()=>{this.recordEvent({type:"page_load",timestamp:Date.now(),data:{loadTime:(performance.timing.loadEventEnd-performance.timing.navigationStart)/1e3}})}),window.PerformanceObserver)try{new PerformanceObserver(s=>{for(const i of s.getEntries())i.name==="first-contentful-paint"?this.recordEvent({type:"performance_mark",timestamp:Date.now(),data:{name:"first-contentful-paint",time:i.startTime/1e3}}):i.name==="largest-contentful-paint"&&this.recordEvent({type:"performance_mark",timestamp:Date.now(),data:{name:"largest-contentful-paint",time:i.startTime/1e3}})}).observe({entryTypes:["paint","largest-contentful-paint"]});const t=h.network?null:new PerformanceObserver(s=>{if(!this.paused)for(const i of s.getEntries())(i.initiatorType==="xmlhttprequest"||i.initiatorType==="fetch")&&this.recordEvent({type:"api_call",timestamp:Date.now(),data:{url:i.name,duration:i.duration,method:i.initiatorType,size:i.transferSize||0}})});t&&t.observe({entryTypes:["resource"]})}catch(e){c.log("\u26A0\uFE0F SAJKO V4: PerformanceObserver not supported:",e)}}async adoptCrossDomainLink(){const e=h.crossDomain;if(!e)return;this.crossDomainLink={linked:!1};const t=e.param||"_sajko",s=new URL(window.location.href),i=s.searchParams.get(t);if(!i)return;s.searchParams.delete(t);try{history.replaceState(history.state,"",s.pathname+s.search+s.hash)}catch{}if(v)return;if(!e.publicKey||!(window.crypto&&window.crypto.subtle)){c.warn("\u26A0\uFE0F SAJKO V4: Cross-domain link ignored, it cannot be verified without crossDomain.publicKey");return}const r=await ne(i,e);if(r.error){c.warn(`\u26A0\uFE0F SAJKO V4: Ignored ${r.error} cross-domain link`);return}f.visitor.setItem("sajko_visitor_id",r.v),f.session.setItem("sajko_session_v4",JSON.stringify({id:r.s,created:Date.now()})),this.sessionId=this.getOrCreateSessionId(),this.visitorId=this.getOrCreateVisitorId(),this.sampling=T(h.sampling,this.visitorId,!1),this.crossDomainLink={linked:!0,from:r.f,linkedAt:Date.now()},c.log("\u{1F517} SAJKO V4: Session linked from",r.f)}currentLinker(){const e=(h.crossDomain.maxAgeSeconds||120)*1e3,t=this.linker,i=t&&t.visitorId===this.visitorId&&t.sessionId===this.sessionId?Date.now()-t.fetchedAt:1/0;return i>e/2&&this.refreshLinker(),i<e-1e4?t.value:null}refreshLinker(){if(this.linkerRequest)return this.linkerRequest;const{visitorId:e,sessionId:t}=this;return this.linkerRequest=ie(e,t).then(s=>{this.linker={value:s,visitorId:e,sessionId:t,fetchedAt:Date.now()}}).catch(s=>{c.warn("\u26A0\uFE0F SAJKO V4: Cross-domain linker unavailable:",s)}).finally(()=>{this.linkerRequest=null}),this.linkerRequest}startLinkDecoration(){const e=h.crossDomain;if(!e||!e.domains||e.domains.length===0||v)return;const t=e.param||"_sajko",s=d=>{const u=_(d);if(!u)return null;try{const m=new URL(u);return/^https?:$/.test(m.protocol)&&re(e,m.hostname)?m:null}catch{return null}},i=d=>{const u=s(d),m=u&&this.currentLinker();return m?(u.searchParams.set(t,m),u):null},r=d=>d.target&&d.target.closest&&d.target.closest("a[href], area[href]"),o=d=>{const u=r(d);u&&s(u.href)&&this.currentLinker()},l=d=>{const u=r(d);if(!u)return;const m=i(u.href);m&&(u.href=m.href)},p=d=>{const u=d.target;if(e.forms===!1||!u||u.tagName!=="FORM")return;const m=i(u.action);if(m)if((u.method||"get").toLowerCase()==="get"){let a=u.querySelector(`input[type="hidden"][name="${t}"]`);a||(a=document.createElement("input"),a.type="hidden",a.name=t,u.appendChild(a)),a.value=m.searchParams.get(t)}else u.action=m.href};this.refreshLinker(),["mouseover","focusin"].forEach(d=>{document.addEventListener(d,o,!0),this.eventCleanup.push(()=>document.removeEventListener(d,o,!0))}),["mousedown","keydown","click"].forEach(d=>{document.addEventListener(d,l,!0),this.eventCleanup.push(()=>document.removeEventListener(d,l,!0))}),document.addEventListener("submit",p,!0),this.eventCleanup.push(()=>document.removeEventListener("submit",p,!0))}startNetworkCapture(){const e=h.network;if(!e||e.enabled===!1||this.networkCaptureActive)return;this.networkCaptureActive=!0,this.eventCleanup.push(()=>{this.networkCaptureActive=!1});const t=this;if(window.fetch){const s=window.fetch,i=function(r,o){const l=r instanceof Request?r:null,p=_(l?l.url:r);if(!t.isRecording||t.paused||!U(e,p))return s.apply(this,arguments);const d={url:p,method:(o&&o.method||l&&l.method||"GET").toUpperCase(),initiator:"fetch"};if(e.captureHeaders){const m=new Headers(o&&o.headers||l&&l.headers||void 0);d.requestHeaders=O(e,Array.from(m.entries()))}e.captureBodies&&(d.requestBody=x(e,J(o&&o.body)));const u=performance.now();return s.apply(this,arguments).then(m=>(d.status=m.status,d.duration=Math.round(performance.now()-u),e.captureHeaders&&(d.responseHeaders=O(e,Array.from(m.headers.entries()))),e.captureBodies&&K(m.headers.get("content-type"))?m.clone().text().then(a=>{d.responseBody=x(e,a)}).catch(()=>{}).then(()=>t.recordNetworkCall(d)):t.recordNetworkCall(d),m),m=>{throw d.status=0,d.duration=Math.round(performance.now()-u),d.error=m&&m.message?m.message:String(m),t.recordNetworkCall(d),m})};window.fetch=i,this.eventCleanup.push(()=>{window.fetch===i&&(window.fetch=s)})}if(window.XMLHttpRequest){const s=XMLHttpRequest.prototype,i=s.open,r=s.send,o=s.setRequestHeader,l=function(p,d){return this.__sajkoCall={url:_(d),method:String(p||"GET").toUpperCase(),initiator:"xhr",requestHeaders:e.captureHeaders?[]:void 0},i.apply(this,arguments)};s.open=l,s.setRequestHeader=function(p,d){return this.__sajkoCall&&this.__sajkoCall.requestHeaders&&this.__sajkoCall.requestHeaders.push([p,d]),o.apply(this,arguments)},s.send=function(p){const d=this.__sajkoCall;if(d&&t.isRecording&&!t.paused&&U(e,d.url)){const u=this,m=performance.now(),a={url:d.url,method:d.method,initiator:"xhr"};d.requestHeaders&&(a.requestHeaders=O(e,d.requestHeaders)),e.captureBodies&&(a.requestBody=x(e,J(p))),u.addEventListener("loadend",()=>{a.status=u.status,a.duration=Math.round(performance.now()-m),u.status===0&&(a.error="Network request failed"),e.captureHeaders&&(a.responseHeaders=O(e,Z(u.getAllResponseHeaders()))),e.captureBodies&&(u.responseType===""||u.responseType==="text")&&K(u.getResponseHeader("content-type"))&&(a.responseBody=x(e,u.responseText)),t.recordNetworkCall(a)})}return r.apply(this,arguments)},this.eventCleanup.push(()=>{s.open===l&&(s.open=i,s.send=r,s.setRequestHeader=o)})}}recordNetworkCall(e){const t=h.network;if(this.paused||!G(t,e.status))return;let s=e;if(typeof t.redact=="function")try{const i=t.redact(e);if(i===null||i===!1)return;i&&(s=i)}catch(i){c.warn("\u26A0\uFE0F SAJKO V4: network.redact threw, call not recorded",i);return}this.recordEvent({type:"api_call",timestamp:Date.now(),data:s})}capturePerformanceMetrics(){if(performance.timing){const e=performance.timing,t=e.navigationStart,s=e.domInteractive-t;s>0&&this.recordEvent({type:"performance_mark",timestamp:Date.now(),data:{name:"time-to-interactive",time:s/1e3}}),performance.getEntriesByType&&performance.getEntriesByType("paint").forEach(r=>{r.name==="first-contentful-paint"&&this.recordEvent({type:"performance_mark",timestamp:Date.now(),data:{name:"first-contentful-paint",time:r.startTime/1e3}})})}}addEventListener(e,t,s,i){e.addEventListener(t,s,i),this.eventCleanup.push(()=>e.removeEventListener(t,s,i))}recordEvent(e){this.eventQueue&&this.isRecording&&this.keepSessionAlive(e,this.recordEvent)&&(this.eventQueue.push(e),this.lastActivityTime=Date.now())}async handleMouseMove(e){if(this.paused)return;const t=performance.now();if(t-this.lastMouseMove<this.mouseSampleRate)return;const s={type:"mouse_move",clientX:e.clientX,clientY:e.clientY,timestamp:Date.now()};await this.addEvent(s),this.lastMouseMove=t}async handleClick(e){if(this.paused)return;const t={type:"mouse_click",clientX:e.clientX,clientY:e.clientY,target:this.getElementSelector(e.target),timestamp:Date.now()};await this.addEvent(t),this.trackFlowEvent("click",e)}async handleScroll(e){if(this.paused)return;const t=performance.now();if(t-this.lastScroll<this.scrollSampleRate)return;const s={type:"scroll",scrollX:window.scrollX,scrollY:window.scrollY,timestamp:Date.now()};await this.addEvent(s),this.lastScroll=t}async handleKeyboard(e){if(this.paused)return;const t={type:"keyboard_input",key:e.key,target:this.getElementSelector(e.target),timestamp:Date.now()};await this.addEvent(t)}async handleInput(e){if(this.paused)return;const t=e.target,s=this.shouldMaskInput(t)?"[MASKED]":t.value,i={type:"form_input",target:this.getElementSelector(t),value:s,timestamp:Date.now()};await this.addEvent(i)}async handleFormSubmit(e){if(this.paused)return;const t=e.target,s={type:"form_submit",target:this.getElementSelector(t),formId:t.id||null,formAction:t.action||null,formMethod:t.method||"GET",timestamp:Date.now()};await this.addEvent(s),this.trackFlowEvent("form_submit",e,{formId:t.id,formAction:t.action})}async trackFlowEvent(e,t,s={}){try{const i=t?.target;let r=null,o=null,l=null;i&&i!==window&&i!==document&&(r=this.getElementSelector(i),o=i.innerText||i.textContent||i.value||"",l=i.tagName?i.tagName.toLowerCase():null,o&&o.length>100&&(o=o.substring(0,100)+"..."));const p={sessionId:this.sessionId,visitorId:this.visitorId||this.sessionId,websiteId:h.websiteId,eventType:e,selector:r,elementText:o,elementType:l,pageUrl:window.location.href,pageTitle:document.title,coordinates:t?.clientX?{x:t.clientX,y:t.clientY}:null,timestamp:new Date().toISOString(),...s};Object.keys(this.superProperties).length>0&&(p.properties={...this.superProperties,...p.properties}),fetch(`${h.apiEndpoint}/api/flows/track`,{method:"POST",headers:{"Content-Type":"application/json",Accept:"application/json"},body:JSON.stringify(p),keepalive:!0}).catch(d=>{c.log("\u{1F504} SAJKO V4: Flow tracking sent (fire-and-forget)")})}catch(i){c.log("\u26A0\uFE0F SAJKO V4: Flow tracking error (non-critical):",i.message)}}handleUnload(e){const t=`sajko_exit_${this.sessionId}`,s=C.getItem(t);if(s&&Date.now()-parseInt(s)<1e3){c.log("\u{1F6AB} SAJKO V4: Exit event already sent, skipping duplicate");return}const i=Date.now(),r=Math.round((i-this.sessionStartTime)/1e3);c.log("\u{1F6AA} SAJKO V4: Page unload detected",{queueLength:this.eventQueue.length,sessionDuration:r,sessionId:this.sessionId}),window.scrollY>0&&this.eventQueue.push({type:"scroll",timestamp:i,scrollX:window.scrollX,scrollY:window.scrollY,smoothTransition:!1}),this.eventQueue.push({type:"page_unload",timestamp:i,data:{finalScrollX:window.scrollX,finalScrollY:window.scrollY,pageUrl:window.location.href,sessionDuration:r,userAgent:navigator.userAgent}}),c.log("\u{1F4CB} SAJKO V4: Added page_unload event, final queue length:",this.eventQueue.length),c.log("\u{1F4CB} SAJKO V4: Queue contains:",this.eventQueue.map(o=>o.type)),this.flushEventsSync(),this.sendSessionCompletion(),C.setItem(`sajko_exit_${this.sessionId}`,Date.now().toString())}handlePageHide(e){const t=`sajko_v4_exit_sent_${window.location.href}`;if(C.getItem(t)){c.log("\u{1F6AB} SAJKO V4: Exit event already sent from page_hide, skipping duplicate");return}const s=Date.now(),i=Math.round((s-this.sessionStartTime)/1e3);c.log("\u{1FAE5} SAJKO V4: Page hide detected",{persisted:e.persisted,sessionDuration:i}),this.eventQueue.push({type:"page_hide",timestamp:s,data:{persisted:e.persisted,finalScrollX:window.scrollX,finalScrollY:window.scrollY,pageUrl:window.location.href,sessionDuration:i,userAgent:navigator.userAgent}}),c.log("\u{1F4CB} SAJKO V4: Added page_hide event, queue length:",this.eventQueue.length),this.flushEventsSync(),this.sendSessionCompletion(),C.setItem(t,Date.now().toString())}sendSessionCompletion(){if(!this.sessionId)return;const e={endTime:new Date().toISOString(),duration:Math.round((Date.now()-this.sessionStartTime)/1e3),isCompleted:!0};if(navigator.sendBeacon){const t=new Blob([JSON.stringify(e)],{type:"application/json"});navigator.sendBeacon(`${h.apiEndpoint}/api/session-replay/${this.sessionId}/update`,t)}else{const t=new XMLHttpRequest;t.open("PUT",`${h.apiEndpoint}/api/session-replay/${this.sessionId}/update`,!1),t.setRequestHeader("Content-Type","application/json"),t.send(JSON.stringify(e))}c.log("\u{1F4CB} SAJKO V4: Session completion sent",e),this.sendFlowExitEvent()}sendFlowExitEvent(e="page_unload"){if(!this.sessionId||!this.visitorId||!this.websiteId)return;const t={sessionId:this.sessionId,visitorId:this.visitorId,websiteId:this.websiteId,eventType:"page_exit",exitReason:e,pageUrl:window.location.href,pageTitle:document.title,timestamp:new Date().toISOString()};if(c.log("\u{1F6AA} SAJKO V4: Sending flow exit event",{reason:e}),navigator.sendBeacon){const s=new Blob([JSON.stringify(t)],{type:"application/json"}),i=navigator.sendBeacon(`${h.apiEndpoint}/api/flows/track`,s);c.log("\u{1F6AA} SAJKO V4: Flow exit event sent via beacon:",i)}else{const s=new XMLHttpRequest;s.open("POST",`${h.apiEndpoint}/api/flows/track`,!1),s.setRequestHeader("Content-Type","application/json"),s.send(JSON.stringify(t)),c.log("\u{1F6AA} SAJKO V4: Flow exit event sent via XHR")}}handleVisibilityChange(e){this.addEvent({type:"visibility_change",hidden:document.hidden,timestamp:Date.now()}),document.hidden?(this.flushEvents(),this.visibilityTimer&&clearTimeout(this.visibilityTimer),this.visibilityTimer=setTimeout(()=>{c.log("\u{1FAE5} SAJKO V4: Tab hidden for 2 minutes, sending abandonment"),this.sendFlowExitEvent("tab_hidden_timeout")},12e4)):this.visibilityTimer&&(clearTimeout(this.visibilityTimer),this.visibilityTimer=null,c.log("\u{1F441}\uFE0F SAJKO V4: Tab visible again, cancelling abandonment timer"))}async handlePageNavigation(e,t,s,i={}){c.log("\u{1F5FA}\uFE0F SAJKO V4: Page navigation detected",{type:e,from:t,to:s,pageNumber:this.currentPageNumber});try{const r=new URL(t).hostname,o=new URL(s).hostname;r!==o&&(c.log("\u{1F310} SAJKO V4: External navigation detected, sending exit event"),this.sendFlowExitEvent("external_navigation"))}catch{}await this.captureSnapshot("page_exit"),await this.addEvent({type:"page_navigation",timestamp:Date.now(),navigationType:e,fromUrl:t,toUrl:s,pageNumber:this.currentPageNumber,...i}),this.trackFlowEvent("navigation",{target:window},{fromUrl:t,toUrl:s,navigationType:e}),this.currentPageNumber++,(e==="spa_route_change"||e==="pushstate"||e==="replacestate")&&setTimeout(()=>{this.captureSnapshot("page_entry"),this.trackFlowEvent("page_view",{target:document})},100)}handlePopState(e){const t=this.lastUrl||window.location.href,s=window.location.href;this.lastUrl=s,this.handlePageNavigation("popstate",t,s,{state:e.state})}handleHashChange(e){this.handlePageNavigation("hashchange",e.oldURL,e.newURL)}interceptHistoryAPI(){const e=this,t=history.pushState,s=history.replaceState;history.pushState=function(i,r,o){const l=window.location.href,p=t.apply(history,arguments),d=window.location.href;return l!==d&&e.handlePageNavigation("pushstate",l,d,{state:i}),p},history.replaceState=function(i,r,o){const l=window.location.href,p=s.apply(history,arguments),d=window.location.href;return l!==d&&e.handlePageNavigation("replacestate",l,d,{state:i}),p},this.lastUrl=window.location.href}setupSPANavigationDetection(){const e=this;let t=window.location.pathname,s=window.location.search;const i=new MutationObserver(()=>{const r=window.location.pathname,o=window.location.search;if(r!==t||o!==s){const l=t+s,p=r+o;e.handlePageNavigation("spa_route_change",l,p,{framework:this.detectFramework()}),t=r,s=o}});i.observe(document.body,{childList:!0,subtree:!0,attributes:!1,characterData:!1}),this.spaObserver=i}detectFramework(){return window.React||document.querySelector("[data-reactroot], [data-reactid], #__next")?window.__NEXT_DATA__||document.querySelector("#__next")?"nextjs":"react":window.Vue||document.querySelector("#app[data-v-]")?"vue":window.ng||document.querySelector("[ng-version]")?"angular":"unknown"}async addEvent(e){!this.isRecording||!this.keepSessionAlive(e,this.addEvent)||(this.wasmBridge&&this.wasmBridge.isReady&&(e=await this.processEventWithWasm(e)),this.eventQueue.push(e),this.lastActivityTime=Date.now(),this.eventQueue.length>=h.performance.eventQueueSize&&this.flushEvents())}async processEventWithWasm(e){try{const t=this.wasmBridge.maskPrivateData(e),s=typeof t=="string"?JSON.parse(t):t;return this.wasmBridge.optimizeEvents([s])[0]||e}catch(t){return c.warn("WASM processing failed, using original:",t),e}}async flushEvents(){if(this.eventQueue.length===0)return;const e=[...this.eventQueue];this.eventQueue=[];try{await this.ensureSession();let t=e;if(this.wasmBridge&&this.wasmBridge.isReady){const s=await this.wasmBridge.processBatch(e);if(s.data){await this.sendCompressedBatch(s.data,e.length),w("flush_succeeded",{eventCount:e.length});return}}await this.sendBatch(e),w("flush_succeeded",{eventCount:e.length})}catch(t){c.error("\u274C SAJKO V4: Failed to flush events:",t),this.eventQueue.unshift(...e.slice(-10)),w("flush_failed",{eventCount:e.length,error:t})}}async sendBatch(e){const t=await fetch(`${h.apiEndpoint}/api/session-replay/${this.sessionId}/events`,{method:"POST",headers:{"Content-Type":"application/json"},body:JSON.stringify({events:e})});if(t.ok)c.log(`\u{1F4E6} SAJKO V4: Sent ${e.length} events`);else throw new Error(`Failed to send events: ${t.status}`)}async sendCompressedBatch(e,t){const s=await fetch(`${h.apiEndpoint}/api/session-replay/${this.sessionId}/events`,{method:"POST",headers:{"Content-Type":"application/octet-stream","X-Compression":"true","X-Event-Count":t.toString()},body:e});if(s.ok)c.log(`\u{1F4E6} SAJKO V4: Sent ${t} events (compressed)`);else throw new Error(`Failed to send compressed events: ${s.status}`)}flushEventsSync(){if(this.eventQueue.length===0){c.log("\u{1F4E6} SAJKO V4: No events to flush during unload");return}const e=[...this.eventQueue];this.eventQueue=[],c.log(`\u{1F4E6} SAJKO V4: Sync flushing ${e.length} events before unload:`,e.map(t=>t.type));try{const t=JSON.stringify({events:e}),s=`${h.apiEndpoint}/api/session-replay/${this.sessionId}/events`;c.log("\u{1F517} SAJKO V4: Sending to URL:",s),c.log("\u{1F4C4} SAJKO V4: Event types in payload:",e.reduce((r,o)=>(r[o.type]=(r[o.type]||0)+1,r),{})),c.log("\u{1F504} SAJKO V4: Using sync XHR for reliable exit event delivery");const i=new XMLHttpRequest;i.open("POST",s,!1),i.setRequestHeader("Content-Type","application/json"),i.send(t),c.log(`\u2705 SAJKO V4: Sent ${e.length} events via sync XHR, status:`,i.status),i.status!==200&&i.status!==201&&c.error("\u274C SAJKO V4: Server returned error:",i.status,i.responseText)}catch(t){c.error("\u274C SAJKO V4: Sync flush failed:",t);try{const s=new XMLHttpRequest;s.open("POST",`${h.apiEndpoint}/api/session-replay/${this.sessionId}/events`,!1),s.setRequestHeader("Content-Type","application/json"),s.send(JSON.stringify({events:e})),c.log("\u2705 SAJKO V4: Retry succeeded")}catch(s){c.error("\u274C SAJKO V4: Retry also failed:",s)}}}startBatchTimer(){this.batchTimer||(this.batchTimer=setInterval(()=>{this.eventQueue.length>0&&this.flushEvents()},h.performance.batchIntervalMs))}startDOMObservation(){this.mutationObserver=new MutationObserver(e=>{!this.isRecording||this.paused||this.processDOMMutations(e)}),this.mutationObserver.observe(document.body,{childList:!0,subtree:!0,attributes:!0,characterData:!0})}processDOMMutations(e){const t={type:"dom_mutation",timestamp:Date.now(),mutations:[]};for(const s of e)t.mutations.push({type:s.type,target:this.getElementSelector(s.target)});t.mutations.length>0&&this.addEvent(t)}cleanWordPressElements(e){const s=new DOMParser().parseFromString(e,"text/html"),i=s.querySelector("#wpadminbar");i&&i.remove(),s.querySelectorAll('[id*="wp-admin"], [class*="wp-admin"], .admin-bar-bump, #wp-toolbar').forEach(p=>p.remove()),s.querySelectorAll('script[src*="wp-emoji"]').forEach(p=>p.remove());const l=s.body;return l&&(l.classList.remove("admin-bar","wp-admin","wp-core-ui"),(l.style.marginTop==="32px"||l.style.marginTop==="46px")&&(l.style.marginTop="")),s.documentElement.outerHTML}async captureSnapshot(e="full"){if(this.paused)return;const t=this.captureInlineStyles();let s=document.documentElement.outerHTML;s=this.cleanWordPressElements(s);const i=await this.captureCSSStyles(),r=await this.extractPageAssets(),o=this.captureComputedStyles(),l={type:"dom_snapshot",snapshotType:e,htmlContent:s,inlineStyles:t,cssChanges:i,pageAssets:r,computedStyles:o,url:window.location.href,pageNumber:this.currentPageNumber,viewport:{width:window.innerWidth,height:window.innerHeight},timestamp:Date.now(),pageTitle:document.title,documentHeight:document.documentElement.scrollHeight,documentWidth:document.documentElement.scrollWidth,nodeCount:document.getElementsByTagName("*").length};c.log("\u{1F4F8} SAJKO V4: Capturing snapshot, HTML size:",s.length,"CSS size:",i.totalSize,"Assets:",r.length,"Inline styles:",t.length),this.addEvent(l)}captureInlineStyles(){const e=[];return document.querySelectorAll("[style]").forEach((s,i)=>{const r=this.getElementSelector(s),o=s.getAttribute("style");if(o){const l=window.getComputedStyle(s),p={};for(let d=0;d<l.length;d++){const u=l[d];u.startsWith("--")&&(p[u]=l.getPropertyValue(u))}e.push({selector:r,index:i,style:o,cssVariables:p,id:s.id||null,className:s.className||null})}}),e}async extractPageAssets(){const e=[],t=new Set;this.mediaTracker||this.initializeMediaTracking();try{return document.querySelectorAll("img").forEach(s=>{if(s.src&&!t.has(s.src)){t.add(s.src),s.complete&&s.naturalWidth>0&&this.trackMediaUrl(s.src);const i=window.getComputedStyle(s),r=s.naturalWidth||0,o=s.offsetWidth||0,l=r>600||o>600||i.position==="absolute"||i.position==="fixed"||i.objectFit==="cover"||i.width==="100%"||i.width==="100vw"||i.height==="100vh"||s.closest('.hero, .banner, .background, [class*="hero"], [class*="banner"], [class*="background"], section')!==null;e.push({type:"image",url:s.src,selector:this.getElementSelector(s),attributes:{alt:s.alt||"",width:s.naturalWidth||s.width,height:s.naturalHeight||s.height,isBackgroundLike:l,objectFit:i.objectFit,position:i.position}})}}),document.querySelectorAll("*").forEach(s=>{try{const i=window.getComputedStyle(s),r=i.backgroundImage;if(r&&r!=="none"){const o=r.matchAll(/url\(['"]?([^'"]+)['"]?\)/g);for(const l of o){const p=l[1];t.has(p)||(t.add(p),e.push({type:"background",url:p,selector:this.getElementSelector(s),cssProperty:"background-image",attributes:{backgroundSize:i.backgroundSize,backgroundPosition:i.backgroundPosition,backgroundRepeat:i.backgroundRepeat,backgroundAttachment:i.backgroundAttachment,width:s.offsetWidth,height:s.offsetHeight}}))}}}catch{}}),document.querySelectorAll("svg image, picture source").forEach(s=>{try{const i=s.href?.baseVal||s.srcset;i&&!t.has(i)&&(t.add(i),e.push({type:s.tagName.toLowerCase(),url:i,selector:this.getElementSelector(s)}))}catch{}}),document.querySelectorAll("video[poster]").forEach(s=>{s.poster&&!t.has(s.poster)&&(t.add(s.poster),e.push({type:"video-poster",url:s.poster,selector:this.getElementSelector(s)}))}),e.map(s=>{try{const i=new URL(s.url,window.location.href).href,r=this.findRealUrl(i);return{...s,url:r||i}}catch{return s}})}catch(s){return c.warn("\u26A0\uFE0F SAJKO V4: Error extracting assets:",s),[]}}captureComputedStyles(){const e={rootVariables:{},elementVariables:[],layoutElements:[],criticalStyles:{}};try{const t=getComputedStyle(document.documentElement);Array.from(t).filter(p=>p.startsWith("--")).forEach(p=>{e.rootVariables[p]=t.getPropertyValue(p)});const i=document.querySelectorAll("*");let r=0;const o=500;for(let p of i){if(r>=o)break;const d=window.getComputedStyle(p),u={};let m=!1;for(let a=0;a<d.length;a++){const S=d[a];if(S.startsWith("--")){const b=d.getPropertyValue(S);b&&b!==e.rootVariables[S]&&(u[S]=b,m=!0)}}m&&(e.elementVariables.push({selector:this.getElementSelector(p),variables:u,id:p.id||null,className:p.className||null}),r++)}[".container",".grid",".flex",".hero",".banner",".hero-section",".banner-section",'[class*="hero"]','[class*="banner"]',".jumbotron",".masthead",".showcase",'[class*="wp-block"]','[class*="wp-container"]','[class*="wp-elements"]',".wp-block-columns",".wp-block-column",".wp-block-group",".wp-block-cover",".wp-block-media-text",".wp-block-image",".elementor-section",".elementor-container",".elementor-row",".elementor-column",".elementor-widget",".elementor-element",'[class*="elementor-"]',".et_pb_section",".et_pb_row",".et_pb_column",".et_pb_module",".et_pb_text",".et_pb_image",'[class*="et_pb_"]',".vc_row",".vc_column",".wpb_wrapper",".vc_column_container",'[class*="vc_"]',".fl-row",".fl-col",".fl-module",".fl-row-content",'[class*="fl-"]',".site-header",".site-content",".site-footer",".entry-content",".entry-header",".entry-footer",".widget-area",".widget",".sidebar",'[class*="grid-cols"]','[class*="flex-"]',"header","nav","main","section","aside","article",'[class*="col-"], [class*="row-"]',".testimonials",".testimonial",'[class*="columns"]','[class*="layout"]',"h1","h2","h3","h4","h5","h6","p","span","a","li","dt","dd","blockquote","figcaption","label",'[class*="text-"]','[class*="heading"]','[class*="title"]','[class*="subtitle"]','[class*="font-"]','[class*="leading-"]',"header h1","header h2","header p","nav a","nav span","footer p","footer span"].forEach(p=>{try{document.querySelectorAll(p).forEach((u,m)=>{if(m>200)return;const a=window.getComputedStyle(u),S=u.tagName==="IMG";let b=!1;if(S){const de=u.naturalWidth||0,ue=u.naturalHeight||0,he=u.offsetWidth||0,pe=u.offsetHeight||0,me=u.parentElement;b=de>600||he>600||a.position==="absolute"||a.position==="fixed"||a.objectFit==="cover"||a.objectFit==="contain"||u.closest('.hero, .banner, .background, .bg-image, [class*="hero"], [class*="banner"], [class*="background"], section, header')!==null||a.width==="100%"||a.width==="100vw"||a.height==="100vh"||a.height==="100%"}const k=S&&!b,y={selector:p,index:m,display:a.display,position:a.position,gridTemplateColumns:a.gridTemplateColumns,gridTemplateRows:a.gridTemplateRows,gridGap:a.gridGap,gap:a.gap,flexDirection:a.flexDirection,flexWrap:a.flexWrap,justifyContent:a.justifyContent,alignItems:a.alignItems,width:k?void 0:a.width,minWidth:k?void 0:a.minWidth,maxWidth:k?void 0:a.maxWidth,height:k?void 0:a.height,minHeight:k?void 0:a.minHeight,maxHeight:k?void 0:a.maxHeight,padding:a.padding,margin:a.margin,boxSizing:a.boxSizing,overflow:a.overflow,float:a.float,clear:a.clear,columns:a.columns,columnCount:a.columnCount,columnGap:a.columnGap,top:a.top,left:a.left,right:a.right,bottom:a.bottom,fontSize:a.fontSize,lineHeight:a.lineHeight,textAlign:a.textAlign,textDecoration:a.textDecoration,textTransform:a.textTransform,fontWeight:a.fontWeight,fontStyle:a.fontStyle,fontFamily:a.fontFamily,letterSpacing:a.letterSpacing,wordSpacing:a.wordSpacing,verticalAlign:a.verticalAlign,textIndent:a.textIndent,paddingTop:a.paddingTop,paddingRight:a.paddingRight,paddingBottom:a.paddingBottom,paddingLeft:a.paddingLeft,marginTop:a.marginTop,marginRight:a.marginRight,marginBottom:a.marginBottom,marginLeft:a.marginLeft,flexGrow:a.flexGrow,flexShrink:a.flexShrink,flexBasis:a.flexBasis,gridColumn:a.gridColumn,gridRow:a.gridRow,color:a.color,backgroundColor:a.backgroundColor,backgroundImage:a.backgroundImage,backgroundSize:a.backgroundSize,backgroundPosition:a.backgroundPosition,backgroundRepeat:a.backgroundRepeat,backgroundAttachment:a.backgroundAttachment,backgroundClip:a.backgroundClip,backgroundOrigin:a.backgroundOrigin},ce=["H1","H2","H3","H4","H5","H6","P","SPAN","A","LABEL","LI"].includes(u.tagName),le=y.textAlign!=="start"||y.fontWeight!=="400"||y.letterSpacing!=="normal";(y.display!=="inline"||y.position!=="static"||ce||le)&&(u.id?y.id=u.id:u.className&&(y.className=u.className),e.layoutElements.push(y))})}catch{}}),e.criticalStyles.viewportWidth=window.innerWidth,e.criticalStyles.viewportHeight=window.innerHeight,e.criticalStyles.devicePixelRatio=window.devicePixelRatio}catch(t){c.error("\u274C SAJKO V4: Error capturing computed styles:",t)}return e}async captureCSSStyles(){const e={stylesheets:[],inlineStyles:[],externalLinks:[],totalSize:0};try{const t=Array.from(document.styleSheets).filter(o=>o.href?!o.href.includes("wp-admin")&&!o.href.includes("wp-includes/css/admin")&&!o.href.includes("admin-bar"):!0);for(let o=0;o<t.length;o++){const l=t[o];try{if(l.href&&l.href.startsWith(window.location.origin)){const p=await fetch(l.href);if(p.ok){const d=await p.text();e.stylesheets.push({href:l.href,cssText:d.substring(0,5e5),index:o})}}else if(l.cssRules){let p="";for(let d=0;d<l.cssRules.length;d++)p+=l.cssRules[d].cssText+`
+`;e.stylesheets.push({href:l.href||"inline",cssText:p.substring(0,5e5),index:o})}else l.href&&(e.externalLinks.push({href:l.href,index:o,media:l.media?.mediaText||"all",type:"external"}),c.log("\u{1F4CE} SAJKO V4: External stylesheet to proxy:",l.href))}catch{l.href&&(e.externalLinks.push({href:l.href,index:o,media:l.media?.mediaText||"all",type:"cross-origin"}),c.log("\u{1F4CE} SAJKO V4: Cross-origin stylesheet to proxy:",l.href))}}document.querySelectorAll("style").forEach((o,l)=>{o.textContent&&e.inlineStyles.push({index:l,cssText:o.textContent})});const i=document.querySelectorAll('link[rel="stylesheet"]'),r=[];i.forEach(o=>{const l=o.getAttribute("href");if(l&&!e.externalLinks.some(p=>p.href===l)){const p=fetch(l).then(d=>{if(d.ok)return d.text();throw new Error("Failed to fetch")}).then(d=>{c.log("\u2705 SAJKO V4: Fetched external stylesheet:",l),e.stylesheets.push({href:l,cssText:d.substring(0,1e6),index:e.stylesheets.length,type:"fetched-external",media:o.getAttribute("media")||"all"})}).catch(d=>{c.log("\u{1F4CE} SAJKO V4: Could not fetch stylesheet, storing as external link:",l),e.externalLinks.push({href:l,media:o.getAttribute("media")||"all",type:"link-tag",crossOrigin:o.getAttribute("crossorigin"),integrity:o.getAttribute("integrity")})});r.push(p)}}),await Promise.allSettled(r),e.totalSize=e.stylesheets.reduce((o,l)=>o+(l.cssText?.length||0),0)+e.inlineStyles.reduce((o,l)=>o+(l.cssText?.length||0),0)}catch(t){c.error("\u274C SAJKO V4: Error capturing CSS:",t)}return e}getElementSelector(e){if(!e)return"";if(e.id)return`#${e.id}`;if(e.className){const t=e.className.trim().split(/\s+/).slice(0,2);return`${e.tagName.toLowerCase()}.${t.join(".")}`}return e.tagName?.toLowerCase()||""}shouldMaskInput(e){const t=e.type?.toLowerCase(),s=e.name?.toLowerCase()||"";return t==="password"||s.includes("password")||s.includes("credit")||s.includes("card")}detectDevice(){const e=navigator.userAgent;let t="Unknown",s="Unknown";e.indexOf("Firefox")>-1?(t="Firefox",s=e.match(/Firefox\/(\d+\.\d+)/)?.[1]||"Unknown"):e.indexOf("Chrome")>-1?(t="Chrome",s=e.match(/Chrome\/(\d+\.\d+)/)?.[1]||"Unknown"):e.indexOf("Safari")>-1?(t="Safari",s=e.match(/Version\/(\d+\.\d+)/)?.[1]||"Unknown"):e.indexOf("Edge")>-1&&(t="Edge",s=e.match(/Edge\/(\d+\.\d+)/)?.[1]||"Unknown");let i="Unknown",r="Unknown";e.indexOf("Windows NT 10.0")>-1?(i="Windows",r="10"):e.indexOf("Windows NT 6.3")>-1?(i="Windows",r="8.1"):e.indexOf("Mac OS X")>-1?(i="macOS",r=e.match(/Mac OS X (\d+[._]\d+)/)?.[1]?.replace("_",".")||"Unknown"):e.indexOf("Linux")>-1?i="Linux":e.indexOf("Android")>-1?(i="Android",r=e.match(/Android (\d+\.\d+)/)?.[1]||"Unknown"):e.indexOf("iOS")>-1&&(i="iOS",r=e.match(/OS (\d+_\d+)/)?.[1]?.replace("_",".")||"Unknown");const o=/mobile|tablet|android|ipad|iphone/i.test(e)?"mobile":"desktop";return{userAgent:e,deviceType:o,browserName:t,browserVersion:s,osName:i,osVersion:r,screenResolution:`${screen.width}x${screen.height}`,viewportSize:`${window.innerWidth}x${window.innerHeight}`,screenWidth:screen.width,screenHeight:screen.height,viewportWidth:window.innerWidth,viewportHeight:window.innerHeight}}getOrCreateSessionId(){const e=Date.now(),t=te(),s=f.session.getItem("sajko_session_v4");if(s)try{const r=JSON.parse(s),o=h.session.rotateOnUtmChange&&t&&t!==r.utm;if(!H(r,e)&&!o)return this.session={...r,lastActivity:e},this.saveSession(),r.id}catch{}const i=`sajko_v4_${e}_${Math.random().toString(36).substring(2,15)}`;return this.session={id:i,created:e,lastActivity:e,utm:t},this.saveSession(),i}saveSession(){f.session.setItem("sajko_session_v4",JSON.stringify(this.session)),this.sessionSavedAt=Date.now()}keepSessionAlive(e,t){if(!this.rotatingSession){const s=Date.now(),i=H(this.session,s);if(!i)return this.session.lastActivity=s,s-this.sessionSavedAt>5e3&&this.saveSession(),!0;this.startNewSession(i)}return this.rotatingSession.then(()=>t.call(this,e)),!1}startNewSession(e){return this.rotatingSession?this.rotatingSession:(this.rotatingSession=(async()=>{const t=this.isRecording,s=this.sessionId;await this.flushEvents(),t&&this.stop(),f.session.removeItem("sajko_session_v4"),this.sessionId=this.getOrCreateSessionId(),this.sessionStartTime=Date.now(),this.currentPageNumber=1,c.log("\u{1F504} SAJKO V4: New session",{sessionId:this.sessionId,reason:e}),w("session_rotated",{sessionId:this.sessionId,previousSessionId:s,reason:e}),t&&await this.initialize()})().finally(()=>{this.rotatingSession=null}),this.rotatingSession)}pause(e){this.paused||(this.paused={reason:e||null,since:Date.now()},this.mutationObserver&&this.mutationObserver.disconnect(),this.recordEvent({type:"replay_paused",reason:this.paused.reason,timestamp:this.paused.since}),c.log("\u23F8\uFE0F SAJKO V4: Replay paused",this.paused),w("recording_paused",{sessionId:this.sessionId,reason:this.paused.reason}))}resume(){if(!this.paused)return;const e=this.paused.reason,t=Date.now()-this.paused.since;this.paused=null,this.recordEvent({type:"replay_resumed",reason:e,pausedMs:t,timestamp:Date.now()}),this.isRecording&&this.recordsReplay()&&(this.startDOMObservation(),this.captureSnapshot()),c.log("\u25B6\uFE0F SAJKO V4: Replay resumed",{reason:e,pausedMs:t}),w("recording_resumed",{sessionId:this.sessionId,reason:e,pausedMs:t})}recordsReplay(){return(!this.sampling||this.sampling.replaySampled)&&!this.paused}getOrCreateVisitorId(){if(v)return null;let e=f.visitor.getItem("sajko_visitor_id");return e||(e=`visitor_${Date.now()}_${Math.random().toString(36).substring(2,15)}`,f.visitor.setItem("sajko_visitor_id",e)),e}stop(){this.isRecording&&w("recording_stopped",{sessionId:this.sessionId}),this.isRecording=!1,this.flushEvents(),this.mutationObserver&&this.mutationObserver.disconnect(),this.eventCleanup.forEach(e=>e()),this.spaObserver&&(this.spaObserver.disconnect(),this.spaObserver=null),c.log("\u{1F6D1} SAJKO V4: Recording stopped")}readSuperProperties(){const e={};return h.scrubbing||[[f.visitor,h.superPropertiesKey],[f.session,h.superPropertiesKey+":session"]].forEach(([t,s])=>{try{Object.assign(e,JSON.parse(t.getItem(s)||"{}"))}catch{}}),e}setSuperProperties(e){this.superProperties={...e}}trackEvent(e,t,s){this.sendEvent({type:"custom_event",timestamp:s||Date.now(),data:{name:e,properties:t||{},pageUrl:window.location.href}})}identify(e,t){v||this.sendEvent({type:"identify",timestamp:Date.now(),data:{userId:e,traits:t||{}}})}alias(e,t){v||this.sendEvent({type:"alias",timestamp:Date.now(),data:{userId:e,previousId:t||this.visitorId}})}group(e,t){v||this.sendEvent({type:"group",timestamp:Date.now(),data:{groupId:e,traits:t||{}}})}captureException(e){this.sendEvent({type:"error",timestamp:Date.now(),data:{...e,sessionId:e.sessionId||this.sessionId}})}reportWebVital(e){this.sendEvent({type:"web_vital",timestamp:Date.now(),data:e})}async reset(){const e=this.isRecording,t=this.sessionId;return await this.flushEvents(),e&&this.stop(),f.visitor.removeItem("sajko_visitor_id"),f.session.removeItem("sajko_session_v4"),this.sessionId=this.getOrCreateSessionId(),this.visitorId=this.getOrCreateVisitorId(),this.sampling=T(h.sampling,this.visitorId||this.sessionId,!1),this.sessionStartTime=Date.now(),this.currentPageNumber=1,c.log("\u{1F504} SAJKO V4: Identity reset",{sessionId:this.sessionId,visitorId:this.visitorId}),w("session_rotated",{sessionId:this.sessionId,previousSessionId:t,reason:"reset"}),e?this.initialize():!1}async setConsent(e){const t=h.hasUserConsent;return h.hasUserConsent=!E&&!!(e&&e.replay),h.analyticsConsent=E!=="block"&&L(e,e&&e.replay),h.hasUserConsent&&!t&&!this.isRecording?(c.log("\u2705 SAJKO V4: Replay consent granted, starting recording"),this.initialize()):(!h.hasUserConsent&&this.isRecording&&(c.log("\u{1F6D1} SAJKO V4: Replay consent revoked, stopping recording"),this.stop()),this.isRecording||(h.analyticsConsent?this.startEventDelivery():this.eventQueue=[]),h.hasUserConsent)}async setSampling(e){const t=this.sampling;if(this.sampling=e,e.sessionSampled&&!this.isRecording)return h.hasUserConsent?(c.log("\u2705 SAJKO V4: Session now sampled, starting recording"),this.initialize()):(this.startEventDelivery(),!1);if(!e.sessionSampled&&this.isRecording)return c.log("\u{1F6D1} SAJKO V4: Session no longer sampled, stopping recording"),this.stop(),this.startEventDelivery(),!1;const s=!t||t.replaySampled;return this.isRecording&&e.replaySampled&&!s&&!this.paused?(this.startDOMObservation(),this.captureSnapshot()):this.isRecording&&!e.replaySampled&&s&&this.mutationObserver&&this.mutationObserver.disconnect(),this.isRecording}getMetrics(){const e={sessionId:this.sessionId,isRecording:this.isRecording,queueSize:this.eventQueue.length,hasWasm:this.wasmBridge?.isReady||!1};return this.sampling&&(e.sampling=this.sampling),this.crossDomainLink&&(e.crossDomain={...this.crossDomainLink}),this.paused&&(e.paused={...this.paused}),this.wasmBridge&&this.wasmBridge.isReady&&Object.assign(e,this.wasmBridge.getMetrics()),e}initializeMediaTracking(){const e=this,t=Object.getOwnPropertyDescriptor(HTMLImageElement.prototype,"src");if(t&&!this.mediaTracker&&Object.defineProperty(HTMLImageElement.prototype,"src",{get:t.get,set:function(s){t.set.call(this,s),this.addEventListener("load",function(){this.src&&this.naturalWidth>0&&e.trackMediaUrl(this.src)},{once:!0})}}),!this.mediaTracker){const s=window.fetch;window.fetch=function(...i){return s.apply(this,i).then(r=>{if(r.ok&&r.url){const o=r.headers.get("content-type");o&&o.startsWith("image/")&&e.trackMediaUrl(r.url)}return r})}}if(!this.mediaTracker){const s=XMLHttpRequest.prototype.open;XMLHttpRequest.prototype.open=function(r,o,...l){return this._trackUrl=o,s.apply(this,[r,o,...l])};const i=XMLHttpRequest.prototype.send;XMLHttpRequest.prototype.send=function(...r){return this.addEventListener("load",function(){if(this.status>=200&&this.status<300){const o=this.getResponseHeader("content-type");if(o&&o.startsWith("image/")&&this._trackUrl){const l=new URL(this._trackUrl,window.location.href).href;e.trackMediaUrl(l)}}}),i.apply(this,r)}}this.mediaTracker=!0,c.log("\u{1F4F7} SAJKO V4: Media tracking initialized")}trackMediaUrl(e){if(!e.includes("/_next/static/media/")||this.trackedMediaUrls.has(e))return;const t=e.split("/").pop();if(t){const s=t.match(/^(.+?)\.([a-f0-9]{8,})\.(\w+)$/);if(s){const i=`${s[1]}.*.${s[3]}`;this.trackedMediaUrls.set(i,e)}this.trackedMediaUrls.set(t,e),c.log(`\u{1F4F7} SAJKO V4: Tracked media URL: ${e}`),h.apiEndpoint&&fetch(`${h.apiEndpoint}/api/track-media`,{method:"POST",headers:{"Content-Type":"application/json"},body:JSON.stringify({url:e}),mode:"cors"}).then(i=>{i.ok&&c.log(`\u{1F4F7} SAJKO V4: URL tracked on server: ${e}`)}).catch(i=>{c.warn("\u{1F4F7} SAJKO V4: Failed to track URL on server:",i)})}}findRealUrl(e){if(this.trackedMediaUrls.has(e))return this.trackedMediaUrls.get(e);const t=e.split("/").pop();if(t){if(this.trackedMediaUrls.has(t))return this.trackedMediaUrls.get(t);for(const[s,i]of this.trackedMediaUrls.entries())if(s.includes("*")){const r=s.replace(/[.*+?^${}()|[\]\\]/g,"\\$&").replace(/\\\*/g,".*");if(new RegExp(`^${r}$`).test(t))return c.log(`\u{1F4F7} SAJKO V4: Found real URL for ${t} -> ${i}`),i}}return e}}async function q(){try{c.log("\u{1F680} SAJKO V4: Starting initialization..."),c.log("\u{1F4CA} SAJKO V4: Config:",h),await X();const n=new ae;window.__sajkoRecorderV4Instance=n,await n.initialize(),window.SajkoReplay={start:()=>n.initialize(),stop:()=>n.stop(),flush:()=>n.flushEvents(),get isRecording(){return n.isRecording},get isPaused(){return!!n.paused},get sessionId(){return n.sessionId},get visitorId(){return n.visitorId},getMetrics:()=>n.getMetrics(),setConsent:e=>n.setConsent(e),setSampling:e=>n.setSampling(e),setSuperProperties:e=>n.setSuperProperties(e),trackEvent:(e,t,s)=>n.trackEvent(e,t,s),identify:(e,t)=>n.identify(e,t),alias:(e,t)=>n.alias(e,t),group:(e,t)=>n.group(e,t),captureException:e=>n.captureException(e),reportWebVital:e=>n.reportWebVital(e),reset:()=>n.reset(),startNewSession:()=>n.startNewSession("manual"),pause:e=>n.pause(e),resume:()=>n.resume(),on:(e,t)=>oe(e,t),version:"4.1.9",useWasm:!0},c.log("\u{1F680} SAJKO Session Replay V4 (Go-powered) loaded successfully")}catch(n){c.error("\u274C SAJKO V4: Failed to initialize:",n),c.error("Stack trace:",n.stack),c.error("\u274C SAJKO V4: Recording disabled due to initialization failure")}}document.readyState==="loading"?document.addEventListener("DOMContentLoaded",q):setTimeout(q,100)})();
@@ -17,6 +17,14 @@ interface Event {
   properties?: any;
   sessionId?: string;
   userId?: string;
+  /** Structured error from captureException() (error events) */
+  data?: {
+    name?: string;
+    message?: string;
+    stack?: string | null;
+    component?: string | null;
+    mechanism?: string;
+  };
 }
 
 export async function debug(options: DebugOptions) {
@@ -112,7 +120,7 @@ export async function debug(options: DebugOptions) {
 function handleEvent(event: Event, verbose: boolean) {
   const time = new Date().toLocaleTimeString();
   const type = event.type || 'unknown';
-  const name = event.name || '-';
+  const name = event.name || (type === 'error' && event.data ? describeError(event.data) : '-');
   
   // Format event for display
   let output = `[${chalk.gray(time)}] `;
@@ -149,6 +157,21 @@ function handleEvent(event: Event, verbose: boolean) {
   if (verbose && event.properties) {
     console.log(chalk.gray('  Properties:'), event.properties);
   }
+  
+  if (verbose && type === 'error' && event.data?.stack) {
+    console.log(chalk.gray(event.data.stack.split('\n').map(line => '  ' + line).join('\n')));
+  }
+}
+
+function describeError(error: NonNullable<Event['data']>): string {
+  let description = `${error.name || 'Error'}: ${error.message || ''}`;
+  if (error.component) {
+    description += ` in <${error.component}>`;
+  }
+  if (error.mechanism && error.mechanism !== 'manual') {
+    description += ` (${error.mechanism})`;
+  }
+  return description;
 }
 
 async function loadConfig() {
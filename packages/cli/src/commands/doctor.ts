@@ -3,6 +3,8 @@ import ora from 'ora';
 import fs from 'fs-extra';
 import path from 'path';
 import { execSync } from 'child_process';
+import { validateConfig } from '@sajko/tracker';
+import { CONFIG_FILES, readConfigFile } from '../utils/config-reader';
 
 interface DoctorOptions {
   fix?: boolean;
@@ -120,14 +122,8 @@ export async function doctor(options: DoctorOptions) {
 }
 
 async function checkConfiguration(issues: Issue[]) {
-  const configFiles = [
-    'sajko.config.ts',
-    'sajko.config.js',
-    '.sajkorc.json'
-  ];
-
   const found = [];
-  for (const file of configFiles) {
+  for (const file of CONFIG_FILES) {
     if (await fs.pathExists(file)) {
       found.push(file);
     }
@@ -152,25 +148,40 @@ async function checkConfiguration(issues: Issue[]) {
       message: `Multiple config files found: ${found.join(', ')}`
     });
   } else {
-    // Check config content
-    try {
-      const content = await fs.readFile(found[0], 'utf-8');
-      
-      if (!content.includes('websiteId')) {
-        issues.push({
-          type: 'error',
-          message: 'Configuration missing websiteId'
-        });
-      }
-      
-      if (content.includes('YOUR_WEBSITE_ID')) {
-        issues.push({
-          type: 'error',
-          message: 'Configuration contains placeholder website ID'
-        });
-      }
-    } catch {
-      // Ignore read errors
+    // Check config content with the same validator init() uses
+    const file = found[0];
+    const { config, dynamicPaths, error } = await readConfigFile(file);
+
+    if (!config) {
+      issues.push({
+        type: 'warning',
+        message: `Could not read ${file}${error ? ` (${error})` : ''} - set strict: true to validate it at runtime`
+      });
+      return;
+    }
+
+    // Values computed at runtime (env vars, imports) can't be checked here
+    const isDynamic = (issuePath: string) => {
+      const parent = issuePath.includes('.') ? issuePath.slice(0, issuePath.lastIndexOf('.')) : '';
+      return dynamicPaths.some(dynamic =>
+        dynamic === issuePath || dynamic === parent || issuePath.startsWith(`${dynamic}.`)
+      );
+    };
+
+    for (const issue of validateConfig(config).issues) {
+      if (isDynamic(issue.path)) continue;
+
+      issues.push({
+        type: issue.severity,
+        message: `${file}: ${issue.path || 'config'} - ${issue.message}${issue.suggestion ? ` (${issue.suggestion})` : ''}`
+      });
+    }
+
+    if (config.websiteId === 'YOUR_WEBSITE_ID') {
+      issues.push({
+        type: 'error',
+        message: 'Configuration contains placeholder website ID'
+      });
     }
   }
 }
@@ -198,7 +209,8 @@ async function checkDependencies(issues: Issue[]) {
     '@sajko/tracker',
     '@sajko/react',
     '@sajko/nextjs',
-    '@sajko/vue'
+    '@sajko/vue',
+    '@sajko/node'
   ];
 
   const installed = sajkoPackages.filter(pkg => deps[pkg]);
@@ -303,12 +303,11 @@ async function createConfig(answers: InitAnswers) {
     apiEndpoint: answers.apiEndpoint || undefined,
     debug: process.env.NODE_ENV === 'development',
     privacy: {
-      maskEmails: true,
-      maskPhones: true
+      enablePIIMasking: true
     },
     performance: {
-      throttleMs: 50,
-      maxEventsPerBatch: 50
+      mouseSampleRate: 50,
+      eventQueueSize: 50
     }
   };
 
@@ -0,0 +1,153 @@
+import * as parser from '@babel/parser';
+import * as t from '@babel/types';
+import fs from 'fs-extra';
+
+export const CONFIG_FILES = [
+  'sajko.config.ts',
+  'sajko.config.js',
+  '.sajkorc.json'
+];
+
+export interface ConfigFileResult {
+  /** Config object as written in the file, or null if it could not be read */
+  config: Record<string, unknown> | null;
+  /** Keys whose value is computed at runtime (env vars, imports) and cannot be checked */
+  dynamicPaths: string[];
+  /** Why the file could not be read */
+  error?: string;
+}
+
+/**
+ * Read a SAJKO config file without executing it
+ *
+ * JSON is parsed as is. For JS/TS the exported object literal is read from
+ * the AST (export default, module.exports or a `const config = {...}`
+ * exported later); values computed at runtime are reported in dynamicPaths.
+ */
+export async function readConfigFile(file: string): Promise<ConfigFileResult> {
+  try {
+    if (file.endsWith('.json')) {
+      return { config: await fs.readJson(file), dynamicPaths: [] };
+    }
+
+    const code = await fs.readFile(file, 'utf-8');
+    const ast = parser.parse(code, {
+      sourceType: 'unambiguous',
+      plugins: ['typescript']
+    });
+
+    const expression = findExportedConfig(ast.program);
+    if (!expression || !t.isObjectExpression(expression)) {
+      return { config: null, dynamicPaths: [], error: 'No exported config object found' };
+    }
+
+    const dynamicPaths: string[] = [];
+    const config = toValue(expression, '', dynamicPaths) as Record<string, unknown>;
+    return { config, dynamicPaths };
+  } catch (error) {
+    return {
+      config: null,
+      dynamicPaths: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+function findExportedConfig(program: t.Program): t.Expression | null {
+  const declarations = new Map<string, t.Expression>();
+
+  for (const statement of program.body) {
+    if (t.isVariableDeclaration(statement)) {
+      for (const declarator of statement.declarations) {
+        if (t.isIdentifier(declarator.id) && declarator.init) {
+          declarations.set(declarator.id.name, declarator.init);
+        }
+      }
+    }
+  }
+
+  const resolve = (node: t.Node | null | undefined): t.Expression | null => {
+    if (!node) return null;
+    if (t.isIdentifier(node)) return resolve(declarations.get(node.name));
+    if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)) return resolve(node.expression);
+    // defineConfig({...}) style helpers
+    if (t.isCallExpression(node) && node.arguments.length > 0) return resolve(node.arguments[0]);
+    return t.isExpression(node) ? node : null;
+  };
+
+  for (const statement of program.body) {
+    if (t.isExportDefaultDeclaration(statement)) {
+      return resolve(statement.declaration);
+    }
+
+    if (
+      t.isExpressionStatement(statement) &&
+      t.isAssignmentExpression(statement.expression) &&
+      t.isMemberExpression(statement.expression.left) &&
+      t.isIdentifier(statement.expression.left.object, { name: 'module' }) &&
+      t.isIdentifier(statement.expression.left.property, { name: 'exports' })
+    ) {
+      return resolve(statement.expression.right);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Turn a literal AST node into a plain value, recording anything computed
+ */
+function toValue(node: t.Node, path: string, dynamicPaths: string[]): unknown {
+  if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)) {
+    return toValue(node.expression, path, dynamicPaths);
+  }
+  if (t.isStringLiteral(node) || t.isNumericLiteral(node) || t.isBooleanLiteral(node)) {
+    return node.value;
+  }
+  if (t.isNullLiteral(node)) {
+    return null;
+  }
+  if (t.isRegExpLiteral(node)) {
+    return new RegExp(node.pattern, node.flags);
+  }
+  if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+    return node.quasis.map(quasi => quasi.value.cooked).join('');
+  }
+  if (t.isUnaryExpression(node, { operator: '-' }) && t.isNumericLiteral(node.argument)) {
+    return -node.argument.value;
+  }
+  if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) {
+    return () => undefined;
+  }
+  if (t.isArrayExpression(node)) {
+    return node.elements.map((element, index) =>
+      element ? toValue(element, `${path}[${index}]`, dynamicPaths) : undefined
+    );
+  }
+  if (t.isObjectExpression(node)) {
+    const result: Record<string, unknown> = {};
+    for (const property of node.properties) {
+      if (t.isSpreadElement(property)) {
+        // Spread keys are unknown - skip checks for this whole object
+        dynamicPaths.push(path);
+        continue;
+      }
+
+      const key = t.isIdentifier(property.key)
+        ? property.key.name
+        : t.isStringLiteral(property.key)
+          ? property.key.value
+          : null;
+      if (key === null) continue;
+
+      const childPath = path ? `${path}.${key}` : key;
+      result[key] = t.isObjectMethod(property)
+        ? () => undefined
+        : toValue(property.value, childPath, dynamicPaths);
+    }
+    return result;
+  }
+
+  dynamicPaths.push(path);
+  return undefined;
+}
@@ -0,0 +1,144 @@
+import { ErrorCaptureConfig, ErrorContext, CapturedError, ErrorMechanism } from './types';
+import { logger, ScopedLogger } from './logger';
+
+const DEFAULT_MAX_PER_PAGE = 50;
+
+/**
+ * ErrorCapture - Turns thrown values into structured error events and
+ * optionally listens for uncaught errors and unhandled rejections
+ *
+ * The same Error object is only captured once, so an error reported by a
+ * framework hook and then rethrown to window is not sent twice.
+ */
+export class ErrorCapture {
+  private config: ErrorCaptureConfig = {};
+  private sent: number = 0;
+  private seen = new WeakSet<object>();
+  private listeners: Array<() => void> = [];
+
+  constructor(private readonly log: ScopedLogger = logger.scope('core')) {}
+
+  /**
+   * Apply error settings from the init() config
+   */
+  configure(config: ErrorCaptureConfig = {}): void {
+    this.config = config;
+    this.sent = 0;
+  }
+
+  /**
+   * Build the event for an error
+   *
+   * @returns The event, or null when the error is ignored, was already
+   * captured or the per-page limit is reached
+   */
+  prepare(error: unknown, context: ErrorContext = {}): CapturedError | null {
+    const { component, mechanism = 'manual', ...extra } = context;
+
+    if (typeof error === 'object' && error !== null) {
+      if (this.seen.has(error)) return null;
+    }
+
+    const { name, message, stack } = describeError(error);
+    if (this.isIgnored(message)) return null;
+
+    const max = this.config.maxPerPage ?? DEFAULT_MAX_PER_PAGE;
+    if (this.sent >= max) {
+      this.log.debug(`Error limit reached (${max}), dropped error`, { message });
+      return null;
+    }
+
+    this.sent++;
+    if (typeof error === 'object' && error !== null) {
+      this.seen.add(error);
+    }
+
+    return {
+      name,
+      message,
+      stack,
+      component: component || null,
+      mechanism,
+      handled: !isUncaught(mechanism),
+      url: typeof window !== 'undefined' ? window.location.href : null,
+      sessionId: null,
+      context: extra
+    };
+  }
+
+  /**
+   * Listen for uncaught errors and unhandled promise rejections
+   */
+  install(capture: (error: unknown, context: ErrorContext) => void): void {
+    if (this.listeners.length > 0 || typeof window === 'undefined') return;
+
+    const onError = (event: ErrorEvent) => {
+      this.safely(() => capture(event.error ?? event.message, {
+        mechanism: 'global',
+        filename: event.filename,
+        lineno: event.lineno,
+        colno: event.colno
+      }));
+    };
+
+    const onRejection = (event: PromiseRejectionEvent) => {
+      this.safely(() => capture(event.reason, { mechanism: 'unhandledrejection' }));
+    };
+
+    window.addEventListener('error', onError);
+    window.addEventListener('unhandledrejection', onRejection);
+    this.listeners = [
+      () => window.removeEventListener('error', onError),
+      () => window.removeEventListener('unhandledrejection', onRejection)
+    ];
+  }
+
+  /**
+   * Remove the global listeners
+   */
+  uninstall(): void {
+    this.listeners.forEach(remove => remove());
+    this.listeners = [];
+  }
+
+  private isIgnored(message: string): boolean {
+    return (this.config.ignore || []).some(pattern =>
+      typeof pattern === 'string' ? message.includes(pattern) : pattern.test(message)
+    );
+  }
+
+  private safely(fn: () => void): void {
+    try {
+      fn();
+    } catch (error) {
+      // Throwing here would raise another error event
+      this.log.warn('Failed to capture error', { error });
+    }
+  }
+}
+
+function isUncaught(mechanism: ErrorMechanism): boolean {
+  return mechanism === 'global' || mechanism === 'unhandledrejection';
+}
+
+/**
+ * Name, message and stack of any thrown value
+ */
+function describeError(error: unknown): { name: string; message: string; stack: string | null } {
+  if (typeof error === 'object' && error !== null && typeof (error as Error).message === 'string') {
+    const { name, message, stack } = error as Error;
+    return { name: name || 'Error', message, stack: stack || null };
+  }
+
+  if (typeof error === 'string') {
+    return { name: 'Error', message: error, stack: null };
+  }
+
+  let message: string;
+  try {
+    message = JSON.stringify(error) ?? String(error);
+  } catch {
+    message = String(error);
+  }
+  return { name: 'Error', message, stack: null };
+}
@@ -0,0 +1,187 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SajkoClient } from './client';
+import { logger } from './logger';
+import { LogEntry, SajkoConfig } from './types';
+
+const HOST_KEY = 'sajko_super_properties';
+const WIDGET_KEY = 'sajko_super_properties:widget-site';
+
+const WIDGET_CONFIG: SajkoConfig = {
+  websiteId: 'widget-site',
+  apiEndpoint: 'https://widget.example',
+  logLevel: 'silent'
+};
+
+const stored = (key: string) => JSON.parse(localStorage.getItem(key) || 'null');
+
+/**
+ * Stand-in for the page's replay script, adopted by a non-isolated client
+ */
+function installScript(config: SajkoConfig) {
+  const script = {
+    sessionId: 'session-1',
+    isRecording: true,
+    trackEvent: vi.fn(),
+    stop: vi.fn(),
+    setSuperProperties: vi.fn()
+  };
+  window.sajkoConfig = config;
+  window.SajkoReplay = script as any;
+  return script;
+}
+
+describe('SajkoClient', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let clients: SajkoClient[];
+
+  const createClient = (isolated: boolean) => {
+    const client = new SajkoClient({ isolated });
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    clients = [];
+    fetchMock = vi.fn(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    clients.forEach(client => client.unload());
+    delete window.SajkoReplay;
+    delete window.sajkoConfig;
+    vi.unstubAllGlobals();
+  });
+
+  describe('super properties', () => {
+    it('keeps an isolated client apart from the host page on the same page', async () => {
+      // Left by the host page on an earlier visit
+      localStorage.setItem(HOST_KEY, JSON.stringify({ plan: 'pro' }));
+      installScript({ websiteId: 'host-site' });
+
+      const host = createClient(false);
+      host.track('page_viewed');
+      expect(host.getSuperProperties()).toEqual({ plan: 'pro' });
+
+      const widget = createClient(true);
+      widget.register({ placement: 'sidebar' });
+      await widget.init(WIDGET_CONFIG);
+
+      expect(widget.getSuperProperties()).toEqual({ placement: 'sidebar' });
+      expect(stored(WIDGET_KEY)).toEqual({ placement: 'sidebar' });
+      expect(stored(HOST_KEY)).toEqual({ plan: 'pro' });
+
+      host.register({ theme: 'dark' });
+      expect(stored(HOST_KEY)).toEqual({ plan: 'pro', theme: 'dark' });
+      expect(widget.getSuperProperties()).toEqual({ placement: 'sidebar' });
+
+      widget.track('widget_opened');
+      await widget.flush();
+
+      const batch = fetchMock.mock.calls.find(([url]) => String(url).endsWith('/events'));
+      const [event] = JSON.parse(batch![1].body).events;
+      expect(event.data.properties).toEqual({ placement: 'sidebar' });
+    });
+
+    it('restores an isolated client\'s own persisted properties', async () => {
+      localStorage.setItem(HOST_KEY, JSON.stringify({ plan: 'pro' }));
+      localStorage.setItem(WIDGET_KEY, JSON.stringify({ placement: 'footer' }));
+
+      const widget = createClient(true);
+      await widget.init(WIDGET_CONFIG);
+
+      expect(widget.getSuperProperties()).toEqual({ placement: 'footer' });
+    });
+
+    it('are scrubbed before the replay script gets them', () => {
+      const script = installScript({ websiteId: 'host-site', privacy: { scrub: {} } });
+
+      const host = createClient(false);
+      host.register({ contact: 'jane@example.com', plan: 'pro' }, 'page');
+      host.track('page_viewed');
+
+      expect(script.setSuperProperties).toHaveBeenLastCalledWith({ contact: '[REDACTED:email]', plan: 'pro' });
+    });
+  });
+
+  describe('storage option', () => {
+    it('keeps consent and super properties off the device with type memory', async () => {
+      const widget = createClient(true);
+      widget.setConsent({ analytics: true, replay: false });
+      widget.register({ placement: 'sidebar' });
+      await widget.init({ ...WIDGET_CONFIG, storage: { type: 'memory' } });
+
+      widget.register({ step: 2 }, 'session');
+      widget.setConsent({ marketing: true });
+
+      expect(widget.getSuperProperties()).toEqual({ placement: 'sidebar', step: 2 });
+      expect(widget.getConsent()).toEqual(expect.objectContaining({ analytics: true, marketing: true }));
+      expect(localStorage.length).toBe(0);
+      expect(sessionStorage.length).toBe(0);
+    });
+
+    it('persists consent and super properties through a custom adapter', async () => {
+      const values = new Map<string, string>();
+      const adapter = {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => values.set(key, value),
+        removeItem: (key: string) => values.delete(key)
+      };
+
+      const widget = createClient(true);
+      // Written once init() tells where to
+      widget.setConsent({ analytics: true, replay: true, marketing: false });
+      await widget.init({ ...WIDGET_CONFIG, storage: { adapter } });
+
+      widget.register({ plan: 'pro' });
+      widget.register({ step: 2 }, 'session');
+
+      expect(JSON.parse(values.get(WIDGET_KEY)!)).toEqual({ plan: 'pro' });
+      expect(JSON.parse(values.get(`${WIDGET_KEY}:session`)!)).toEqual({ step: 2 });
+      expect(JSON.parse(values.get('sajko_consent:widget-site')!)).toEqual(
+        expect.objectContaining({ analytics: true, replay: true, marketing: false })
+      );
+      expect(localStorage.length).toBe(0);
+    });
+  });
+
+  describe('pause()', () => {
+    it('starts the replay script paused when called before init()', async () => {
+      const host = createClient(false);
+      host.pause('payment');
+      // The script never loads in jsdom - only the config it would read matters
+      host.init({ websiteId: 'host-site', logLevel: 'silent' }).catch(() => {});
+
+      await vi.waitFor(() => expect(window.sajkoConfig?.startPaused).toBe('payment'));
+
+      host.resume();
+      expect(window.sajkoConfig?.startPaused).toBe(false);
+    });
+  });
+
+  describe('logging', () => {
+    it('logs an isolated client through its own logger', async () => {
+      const pageLevel = logger.getLevel();
+      const entries: LogEntry[] = [];
+
+      const widget = createClient(true);
+      await widget.init({
+        ...WIDGET_CONFIG,
+        logLevel: 'debug',
+        logger: entry => entries.push(entry),
+        beforeSend: () => {
+          throw new Error('broken hook');
+        }
+      });
+      widget.track('widget_opened');
+
+      expect(logger.getLevel()).toBe(pageLevel);
+      expect(entries).toContainEqual(
+        expect.objectContaining({ level: 'warn', message: expect.stringContaining('middleware threw') })
+      );
+    });
+  });
+});
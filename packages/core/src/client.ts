@@ -0,0 +1,1041 @@
+import { SajkoLoader } from './loader';
+import { CommandQueue, QueuedCommand } from './queue';
+import { MiddlewarePipeline } from './middleware';
+import { ConsentManager } from './consent';
+import { Sampler } from './sampling';
+import { SuperProperties } from './properties';
+import { ErrorCapture } from './capture';
+import { WebVitals } from './vitals';
+import { Scrubber } from './scrubber';
+import { StandaloneReplay } from './standalone';
+import { NoopReplay } from './noop';
+import { isSupported, resolvePrivacySignals } from './environment';
+import { EventEmitter } from './emitter';
+import { SajkoError } from './errors';
+import { createIdentityStorage } from './storage';
+import { validateConfig, formatIssues } from './validate';
+import { logger, SajkoLogger, ScopedLogger } from './logger';
+import {
+  SajkoConfig,
+  SajkoReplay,
+  GroupTraits,
+  PersistenceScope,
+  SajkoMetrics,
+  UserTraits,
+  ErrorContext,
+  CapturedError,
+  WebVitalMetric,
+  ExternalWebVital,
+  SajkoPayload,
+  PrivacySignalDecision,
+  LoaderOptions,
+  ConsentState,
+  SajkoEvents,
+  SajkoEventName,
+  SajkoEventHandler
+} from './types';
+
+// Lifecycle events raised by the replay instance itself
+const REPLAY_EVENTS: SajkoEventName[] = [
+  'recording_started',
+  'recording_stopped',
+  'recording_paused',
+  'recording_resumed',
+  'flush_succeeded',
+  'flush_failed',
+  'session_rotated'
+];
+
+export interface SajkoClientOptions {
+  /**
+   * Keep this client off the page-global replay script: events go to the
+   * client's own endpoint with its own session instead of window.SajkoReplay
+   */
+  isolated?: boolean;
+}
+
+/**
+ * SajkoClient - One tracking client with its own queue, middleware,
+ * consent and replay instance
+ */
+export class SajkoClient {
+  private instance: SajkoReplay | null = null;
+  private loader: SajkoLoader | null = null;
+  private initPromise: Promise<SajkoReplay> | null = null;
+  private readonly isolated: boolean;
+
+  // The page-wide logger, or an own one for isolated clients
+  private readonly logger: SajkoLogger;
+  private readonly log: ScopedLogger;
+
+  // Calls made before init() resolves
+  private readonly queue: CommandQueue;
+
+  // filter / enrich / beforeSend hooks from init() config
+  private readonly middleware: MiddlewarePipeline;
+
+  // Per-category consent, shared with the loader
+  private readonly consent: ConsentManager;
+
+  // Sampling decision for the current visitor
+  private readonly sampler = new Sampler();
+
+  // Properties merged into every event
+  private readonly superProperties: SuperProperties;
+
+  // captureException() and the optional global error listeners
+  private readonly errorCapture: ErrorCapture;
+
+  // Core Web Vitals per page view
+  private readonly webVitals: WebVitals;
+
+  // PII scrubbing of properties, super properties, traits and error context
+  private readonly scrubber = new Scrubber();
+
+  // Outcome of respectPrivacySignals for this browser
+  private privacySignals: PrivacySignalDecision | null = null;
+
+  // pause()/resume() before an instance exists, handed to the script as
+  // startPaused so its first snapshot already respects it
+  private pendingPause: boolean | string = false;
+
+  // Lifecycle events for on()/off(), shared with the loader
+  private readonly events: EventEmitter<SajkoEvents>;
+
+  // Unsubscribers for events forwarded from the current instance
+  private instanceListeners: Array<() => void> = [];
+
+  constructor(options: SajkoClientOptions = {}) {
+    this.isolated = !!options.isolated;
+    // init() configures the logger, so an isolated client's logLevel must
+    // not change what the host page logs
+    this.logger = this.isolated ? new SajkoLogger() : logger;
+    this.log = this.logger.scope('core');
+
+    this.queue = new CommandQueue({}, this.log);
+    this.middleware = new MiddlewarePipeline({}, this.log);
+    this.consent = new ConsentManager(this.log);
+    this.superProperties = new SuperProperties(this.log);
+    this.errorCapture = new ErrorCapture(this.log);
+    this.webVitals = new WebVitals(metric => this.sendWebVital(metric), this.log);
+    this.events = new EventEmitter<SajkoEvents>(this.log);
+
+    // Push consent changes to the running recorder
+    this.consent.subscribe((consent, previous) => {
+      if (this.instance) {
+        applyConsent(this.instance, consent, this.log);
+      } else if (this.consent.isLoadDenied()) {
+        // Nothing will load until consent is granted again - settle pending
+        // flush() calls instead of leaving them hanging
+        this.queue.clear(new SajkoError('CONSENT_DENIED', 'SAJKO: Tracking consent was denied'));
+      }
+      this.events.emit('consent_changed', { consent, previous });
+    });
+
+    // The script merges these into the events it sends itself, so they
+    // are scrubbed here like track() properties
+    this.superProperties.subscribe((properties) => {
+      this.instance?.setSuperProperties?.(this.scrubber.scrubObject(properties));
+    });
+  }
+
+  /**
+   * Initialize tracking
+   */
+  init(config: SajkoConfig, options?: LoaderOptions): Promise<SajkoReplay> {
+    // Return existing instance if already initialized
+    if (this.instance && (this.isolated || this.loader?.isScriptLoaded())) {
+      this.log.debug('Already initialized, returning existing instance');
+      return Promise.resolve(this.instance);
+    }
+
+    if (this.initPromise) {
+      return this.initPromise;
+    }
+
+    this.initPromise = this.initialize(config, options).catch((error) => {
+      this.initPromise = null;
+      // Nothing will run the queued calls - settle them instead of leaving
+      // flush() and friends hanging
+      this.queue.clear(SajkoError.from(error));
+      throw error;
+    });
+    return this.initPromise;
+  }
+
+  /**
+   * Resolves with the replay instance once init() has completed
+   */
+  ready(): Promise<SajkoReplay> {
+    if (this.instance) {
+      return Promise.resolve(this.instance);
+    }
+    if (!this.initPromise) {
+      return Promise.reject(new SajkoError('NOT_INITIALIZED', 'SAJKO: Not initialized. Call init() first.'));
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * Track a custom event
+   */
+  track(event: string, properties?: Record<string, any>): void {
+    if (this.consent.isDenied('analytics') || !this.sampler.allowsEvents()) return;
+
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      this.queue.enqueue({ method: 'track', args: [event, properties], timestamp: Date.now() });
+      return;
+    }
+
+    this.sendTrack(instance, event, properties, Date.now());
+  }
+
+  /**
+   * Identify a user
+   */
+  identify(userId: string, traits?: UserTraits): void {
+    if (this.consent.isDenied('analytics') || this.isAnonymous()) return;
+
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      this.queue.enqueue({ method: 'identify', args: [userId, traits], timestamp: Date.now() });
+      return;
+    }
+
+    this.applyIdentified(instance);
+    if (!this.sampler.allowsEvents()) return;
+    this.sendIdentify(instance, userId, traits, Date.now());
+  }
+
+  /**
+   * Link a previous ID (the visitor ID by default) to a known user
+   */
+  alias(userId: string, previousId?: string): void {
+    if (this.consent.isDenied('analytics') || this.isAnonymous() || !this.sampler.allowsEvents()) return;
+
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      this.queue.enqueue({ method: 'alias', args: [userId, previousId], timestamp: Date.now() });
+      return;
+    }
+
+    this.sendAlias(instance, userId, previousId, Date.now());
+  }
+
+  /**
+   * Associate the user with a group such as a company account
+   */
+  group(groupId: string, traits?: GroupTraits): void {
+    if (this.consent.isDenied('analytics') || this.isAnonymous() || !this.sampler.allowsEvents()) return;
+
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      this.queue.enqueue({ method: 'group', args: [groupId, traits], timestamp: Date.now() });
+      return;
+    }
+
+    this.sendGroup(instance, groupId, traits, Date.now());
+  }
+
+  /**
+   * Send an error to the replay timeline
+   */
+  captureException(error: unknown, context?: ErrorContext): void {
+    if (this.consent.isDenied('analytics') || !this.sampler.allowsEvents()) return;
+
+    // Read the error now so the queued event keeps the page it happened on
+    const captured = this.errorCapture.prepare(error, context);
+    if (!captured) return;
+
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      this.queue.enqueue({ method: 'captureException', args: [captured], timestamp: Date.now() });
+      return;
+    }
+
+    this.sendError(instance, captured, Date.now());
+  }
+
+  /**
+   * Send a Web Vitals metric measured elsewhere, e.g. by Next.js
+   */
+  reportWebVitals(metric: ExternalWebVital): void {
+    this.webVitals.record(metric);
+  }
+
+  /**
+   * Forget the current user: start a new visitor and session so the next
+   * user on this device is not linked to the previous one
+   */
+  async reset(): Promise<void> {
+    this.superProperties.clearPersisted();
+
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      return new Promise((resolve, reject) => {
+        this.queue.enqueue({ method: 'reset', args: [], timestamp: Date.now(), resolve, reject });
+      });
+    }
+
+    await this.resetInstance(instance);
+  }
+
+  /**
+   * End the current session and start a new one for the same visitor
+   */
+  async startNewSession(): Promise<void> {
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      return new Promise((resolve, reject) => {
+        this.queue.enqueue({ method: 'startNewSession', args: [], timestamp: Date.now(), resolve, reject });
+      });
+    }
+
+    await this.startInstanceSession(instance);
+  }
+
+  /**
+   * Pause replay capture - DOM changes, input and network calls are not
+   * recorded until resume(), while the session stays open and events are
+   * still sent
+   */
+  pause(reason?: string): void {
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      this.queue.enqueue({ method: 'pause', args: [reason], timestamp: Date.now() });
+      this.pendingPause = reason || true;
+      this.loader?.updateConfig({ startPaused: this.pendingPause });
+      return;
+    }
+
+    this.pauseInstance(instance, reason);
+  }
+
+  /**
+   * Continue replay capture after pause()
+   */
+  resume(): void {
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      this.queue.enqueue({ method: 'resume', args: [], timestamp: Date.now() });
+      this.pendingPause = false;
+      this.loader?.updateConfig({ startPaused: false });
+      return;
+    }
+
+    this.resumeInstance(instance);
+  }
+
+  /**
+   * Subscribe to session changes: startNewSession(), reset() and the
+   * limits from the session option
+   */
+  onSessionChange(handler: SajkoEventHandler<'session_rotated'>): () => void {
+    return this.events.on('session_rotated', handler);
+  }
+
+  /**
+   * Add properties to every event from now on
+   */
+  register(properties: Record<string, any>, scope?: PersistenceScope): void {
+    this.superProperties.register(properties, scope);
+  }
+
+  /**
+   * Add properties to every event unless they are already set
+   */
+  registerOnce(properties: Record<string, any>, scope?: PersistenceScope): void {
+    this.superProperties.registerOnce(properties, scope);
+  }
+
+  /**
+   * Stop adding a property to events
+   */
+  unregister(key: string): void {
+    this.superProperties.unregister(key);
+  }
+
+  /**
+   * Get the properties added to every event
+   */
+  getSuperProperties(): Record<string, any> {
+    return this.superProperties.get();
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): SajkoMetrics | null {
+    if (!this.instance) {
+      this.log.warn('Not initialized. Call init() first.', undefined, 'NOT_INITIALIZED');
+      return null;
+    }
+
+    const metrics: SajkoMetrics = { ...this.instance.getMetrics() };
+    const sampling = this.sampler.decision;
+    const webVitals = this.webVitals.snapshot();
+    if (sampling) metrics.sampling = sampling;
+    if (this.privacySignals) metrics.privacySignals = this.privacySignals;
+    if (webVitals) metrics.webVitals = webVitals;
+    return metrics;
+  }
+
+  /**
+   * Flush events to server immediately
+   */
+  async flush(): Promise<void> {
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      // Nothing to flush and nothing that would run a queued flush
+      if (!this.initPromise) {
+        this.log.warn('Not initialized. Call init() first.', undefined, 'NOT_INITIALIZED');
+        return;
+      }
+
+      // Resolves once the queued flush has run after init()
+      return new Promise((resolve, reject) => {
+        this.queue.enqueue({ method: 'flush', args: [], timestamp: Date.now(), resolve, reject });
+      });
+    }
+
+    await instance.flush();
+  }
+
+  /**
+   * Stop recording
+   */
+  stop(): void {
+    if (!this.instance) {
+      this.log.warn('Not initialized. Call init() first.', undefined, 'NOT_INITIALIZED');
+      return;
+    }
+
+    this.instance.stop();
+  }
+
+  /**
+   * Get current session ID
+   */
+  getSessionId(): string | null {
+    return this.instance?.sessionId || null;
+  }
+
+  /**
+   * Get current visitor ID
+   */
+  getVisitorId(): string | null {
+    return this.instance?.visitorId || null;
+  }
+
+  /**
+   * Check if recording is active
+   */
+  isRecording(): boolean {
+    return this.instance ? this.instance.isRecording : false;
+  }
+
+  /**
+   * Check if replay capture is paused
+   */
+  isPaused(): boolean {
+    return this.instance?.isPaused || false;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<SajkoConfig>): void {
+    // The legacy flag grants or revokes every category
+    if (config.hasUserConsent !== undefined) {
+      this.setConsent({
+        analytics: config.hasUserConsent,
+        replay: config.hasUserConsent,
+        marketing: config.hasUserConsent
+      });
+    }
+
+    if (this.instance instanceof StandaloneReplay) {
+      this.instance.updateConfig(config);
+      return;
+    }
+
+    // Nothing to reconfigure without a DOM
+    if (this.instance instanceof NoopReplay) {
+      return;
+    }
+
+    if (!this.loader) {
+      this.log.warn('Not initialized. Call init() first.', undefined, 'NOT_INITIALIZED');
+      return;
+    }
+
+    this.loader.updateConfig(config);
+  }
+
+  /**
+   * Update the user's consent
+   */
+  setConsent(consent: Partial<ConsentState>): ConsentState {
+    return this.consent.set(consent);
+  }
+
+  /**
+   * Get the user's current consent
+   */
+  getConsent(): ConsentState | null {
+    return this.consent.get();
+  }
+
+  /**
+   * Subscribe to consent changes
+   */
+  onConsentChange(
+    handler: (consent: ConsentState, previous: ConsentState | null) => void
+  ): () => void {
+    return this.consent.subscribe(handler);
+  }
+
+  /**
+   * Subscribe to a lifecycle event
+   */
+  on<K extends SajkoEventName>(event: K, handler: SajkoEventHandler<K>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe from a lifecycle event
+   */
+  off<K extends SajkoEventName>(event: K, handler?: SajkoEventHandler<K>): void {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Unload and clean up
+   */
+  unload(): void {
+    // Send the page view's last metrics while the instance is still there
+    this.webVitals.stop();
+    this.webVitals.configure();
+
+    if (this.loader) {
+      this.loader.unload();
+    } else if (this.instance) {
+      this.instance.stop();
+    }
+
+    this.errorCapture.uninstall();
+    this.errorCapture.configure();
+    this.queue.clear();
+    this.consent.restrict([]);
+    this.privacySignals = null;
+    this.pendingPause = false;
+    this.middleware.configure({});
+    this.scrubber.configure();
+    this.sampler.configure();
+    this.setInstance(null);
+    this.loader = null;
+    this.initPromise = null;
+  }
+
+  /**
+   * Get the current SajkoReplay instance
+   */
+  getInstance(): SajkoReplay | null {
+    return this.instance;
+  }
+
+  private async initialize(config: SajkoConfig, options?: LoaderOptions): Promise<SajkoReplay> {
+    this.logger.configure(config);
+
+    // Report every config problem; strict mode throws on any of them
+    const { issues } = validateConfig(config, { strict: config.strict });
+    if (issues.length > 0) {
+      this.log.warn(`Configuration issues\n${formatIssues(issues)}`, { issues }, 'INVALID_CONFIG');
+    }
+
+    // Validate required config
+    if (!config.websiteId) {
+      throw new SajkoError('INVALID_CONFIG', 'SAJKO: websiteId is required in configuration');
+    }
+
+    // Server rendering or no DOM: hand back a no-op so isomorphic code
+    // can keep calling the API
+    if (!isSupported()) {
+      this.log.debug('No browser environment, tracking disabled');
+      const noop = new NoopReplay();
+      this.setInstance(noop);
+      return noop;
+    }
+
+    this.queue.configure(config.queue);
+    this.middleware.configure(config);
+    this.scrubber.configure(config.privacy?.scrub);
+    this.consent.configure(config, this.isolated ? config.websiteId : undefined);
+    this.applyPrivacySignals(config.respectPrivacySignals);
+
+    if (this.privacySignals?.enforced === 'block') {
+      this.log.info('Privacy signal set, tracking disabled', { signals: this.privacySignals.signals });
+      const noop = new NoopReplay();
+      await this.queue.replay(command => this.executeCommand(noop, command));
+      this.setInstance(noop);
+      return noop;
+    }
+
+    this.sampler.configure(config.sampling);
+    this.superProperties.configure(
+      config.superProperties,
+      createIdentityStorage(config.storage),
+      this.isolated ? config.websiteId : undefined
+    );
+    this.errorCapture.configure(config.errors);
+
+    // Listen before loading so errors thrown meanwhile are queued
+    if (config.errors?.captureGlobal) {
+      this.errorCapture.install((error, context) => this.captureException(error, context));
+    }
+
+    this.webVitals.configure(config.webVitals);
+    this.webVitals.start();
+
+    let instance: SajkoReplay;
+    if (this.isolated) {
+      await this.consent.waitForLoad();
+      instance = new StandaloneReplay(config, this.log);
+      await instance.start();
+    } else {
+      // Create loader and load script
+      const scriptConfig = this.pendingPause ? { ...config, startPaused: this.pendingPause } : config;
+      this.loader = SajkoLoader.getInstance(scriptConfig, options, this.consent, this.events);
+      instance = await this.loader.load();
+    }
+
+    this.evaluateSampling(instance);
+
+    // Replay calls made while the script was loading before exposing the
+    // instance, so they keep their order relative to later calls
+    await this.queue.replay(command => this.executeCommand(instance, command));
+    this.setInstance(instance);
+
+    this.log.info('Initialized successfully', {
+      sessionId: instance.sessionId,
+      version: instance.version,
+      useWasm: instance.useWasm
+    });
+    this.emitReady(instance);
+
+    return instance;
+  }
+
+  /**
+   * Switch to a new instance, forwarding its lifecycle events
+   */
+  private setInstance(instance: SajkoReplay | null): void {
+    this.instanceListeners.forEach(unsubscribe => unsubscribe());
+    this.instanceListeners = [];
+    this.instance = instance;
+
+    instance?.setSuperProperties?.(this.scrubber.scrubObject(this.superProperties.get()));
+
+    if (instance?.on) {
+      for (const event of REPLAY_EVENTS) {
+        this.instanceListeners.push(
+          instance.on(event, (payload: any) => this.events.emit(event, payload))
+        );
+      }
+    }
+  }
+
+  private emitReady(instance: SajkoReplay): void {
+    this.events.emit('ready', {
+      sessionId: instance.sessionId,
+      visitorId: instance.visitorId || null,
+      version: instance.version,
+      isRecording: instance.isRecording
+    });
+  }
+
+  /**
+   * Resolve the instance to send to, adopting a replay script loaded by a
+   * plain script tag (e.g. SajkoScript in Next.js) when init() was never called
+   */
+  private getReadyInstance(): SajkoReplay | null {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    // Without a DOM nothing will ever load - discard instead of queueing
+    if (!isSupported()) {
+      const noop = new NoopReplay();
+      this.setInstance(noop);
+      return noop;
+    }
+
+    if (!this.isolated && !this.initPromise && window.SajkoReplay) {
+      const instance = window.SajkoReplay;
+      // Before setInstance(), which hands over the scrubbed super properties
+      this.scrubber.configure(window.sajkoConfig?.privacy?.scrub);
+      this.superProperties.configure(
+        window.sajkoConfig?.superProperties,
+        createIdentityStorage(window.sajkoConfig?.storage)
+      );
+      this.consent.useStorage(window.sajkoConfig?.storage);
+      this.setInstance(instance);
+      this.sampler.configure(window.sajkoConfig?.sampling);
+      this.applyPrivacySignals(window.sajkoConfig?.respectPrivacySignals);
+      const consent = this.consent.get();
+      if (consent?.privacySignal) {
+        applyConsent(instance, consent, this.log);
+      }
+      this.evaluateSampling(instance);
+      this.queue.replay(command => this.executeCommand(instance, command));
+      this.emitReady(instance);
+      return instance;
+    }
+
+    return null;
+  }
+
+  /**
+   * Turn consent categories off when the browser sends a privacy signal
+   * that respectPrivacySignals honors
+   */
+  private applyPrivacySignals(option: SajkoConfig['respectPrivacySignals']): void {
+    this.privacySignals = option ? resolvePrivacySignals(option) : null;
+
+    const { enforced = null, signals = [] } = this.privacySignals || {};
+    if (enforced === 'block') {
+      this.consent.restrict(['analytics', 'replay', 'marketing'], signals[0]);
+    } else if (enforced === 'anonymous') {
+      this.log.info('Privacy signal set, tracking anonymously without replay', { signals });
+      this.consent.restrict(['replay', 'marketing'], signals[0]);
+    } else {
+      this.consent.restrict([]);
+    }
+  }
+
+  /**
+   * Whether a privacy signal limits tracking to anonymous events
+   */
+  private isAnonymous(): boolean {
+    return this.privacySignals?.enforced === 'anonymous';
+  }
+
+  /**
+   * Decide sampling for the instance's visitor on the current page
+   */
+  private evaluateSampling(instance: SajkoReplay): void {
+    this.sampler.evaluate(instance.visitorId, window.location.href);
+  }
+
+  /**
+   * Rules for identified visitors may change the sampling decision
+   */
+  private applyIdentified(instance: SajkoReplay): void {
+    const decision = this.sampler.identify();
+    if (!decision) return;
+
+    if (instance.setSampling) {
+      Promise.resolve(instance.setSampling(decision)).catch((error) => {
+        this.log.warn('Failed to apply sampling decision', { error });
+      });
+    }
+  }
+
+  /**
+   * Rotate the instance's visitor and session, then decide sampling for
+   * the new visitor
+   */
+  private async resetInstance(instance: SajkoReplay): Promise<void> {
+    if (!instance.reset) {
+      this.log.warn('reset method not available');
+      return;
+    }
+
+    await instance.reset();
+    if (!isSupported()) return;
+
+    const previous = this.sampler.decision;
+    this.sampler.reset();
+    this.evaluateSampling(instance);
+
+    const decision = this.sampler.decision;
+    if (decision && instance.setSampling && (
+      previous?.sessionSampled !== decision.sessionSampled ||
+      previous?.replaySampled !== decision.replaySampled
+    )) {
+      await instance.setSampling(decision);
+    }
+  }
+
+  /**
+   * Start a new session on the instance, keeping the visitor
+   */
+  private async startInstanceSession(instance: SajkoReplay): Promise<void> {
+    if (!instance.startNewSession) {
+      this.log.warn('startNewSession method not available');
+      return;
+    }
+
+    await instance.startNewSession();
+  }
+
+  /**
+   * Pause replay capture on the instance
+   */
+  private pauseInstance(instance: SajkoReplay, reason?: string): void {
+    if (!instance.pause) {
+      this.log.warn('pause method not available');
+      return;
+    }
+
+    instance.pause(reason);
+  }
+
+  /**
+   * Resume replay capture on the instance
+   */
+  private resumeInstance(instance: SajkoReplay): void {
+    if (!instance.resume) {
+      this.log.warn('resume method not available');
+      return;
+    }
+
+    instance.resume();
+  }
+
+  /**
+   * Run a queued command against a ready instance
+   */
+  private async executeCommand(instance: SajkoReplay, command: QueuedCommand): Promise<void> {
+    // Consent may have been refused while the call was queued
+    const lifecycle = ['flush', 'reset', 'startNewSession', 'pause', 'resume'].includes(command.method);
+    if (!lifecycle && this.consent.isDenied('analytics')) return;
+    // Anonymous mode may have started while identity calls were queued
+    if (this.isAnonymous() && ['identify', 'alias', 'group'].includes(command.method)) return;
+
+    switch (command.method) {
+      case 'track':
+        if (!this.sampler.allowsEvents()) return;
+        this.sendTrack(instance, command.args[0], command.args[1], command.timestamp);
+        break;
+      case 'identify':
+        this.applyIdentified(instance);
+        if (!this.sampler.allowsEvents()) return;
+        this.sendIdentify(instance, command.args[0], command.args[1], command.timestamp);
+        break;
+      case 'alias':
+        if (!this.sampler.allowsEvents()) return;
+        this.sendAlias(instance, command.args[0], command.args[1], command.timestamp);
+        break;
+      case 'group':
+        if (!this.sampler.allowsEvents()) return;
+        this.sendGroup(instance, command.args[0], command.args[1], command.timestamp);
+        break;
+      case 'captureException':
+        if (!this.sampler.allowsEvents()) return;
+        this.sendError(instance, command.args[0], command.timestamp);
+        break;
+      case 'webVital':
+        if (!this.sampler.allowsEvents()) return;
+        this.sendWebVitalTo(instance, command.args[0], command.timestamp);
+        break;
+      case 'reset':
+        await this.resetInstance(instance);
+        break;
+      case 'startNewSession':
+        await this.startInstanceSession(instance);
+        break;
+      case 'pause':
+        this.pauseInstance(instance, command.args[0]);
+        break;
+      case 'resume':
+        this.resumeInstance(instance);
+        break;
+      case 'flush':
+        await instance.flush();
+        break;
+    }
+  }
+
+  /**
+   * Run a payload through the middleware pipeline, then scrub what is left
+   */
+  private runPipeline(payload: SajkoPayload): SajkoPayload | null {
+    const result = this.middleware.run(payload);
+    return result && this.scrubber.scrubPayload(result);
+  }
+
+  /**
+   * Send an event through the middleware pipeline to SajkoReplay
+   */
+  private sendTrack(
+    instance: SajkoReplay,
+    event: string,
+    properties: Record<string, any> | undefined,
+    timestamp: number
+  ): void {
+    if (!instance.trackEvent) {
+      this.log.warn('trackEvent method not available');
+      return;
+    }
+
+    const payload = this.runPipeline({
+      type: 'track',
+      event,
+      properties: { ...this.superProperties.get(), ...properties },
+      timestamp
+    });
+    if (!payload || payload.type !== 'track') return;
+
+    instance.trackEvent(payload.event, payload.properties, payload.timestamp);
+  }
+
+  /**
+   * Send user traits through the middleware pipeline to SajkoReplay
+   */
+  private sendIdentify(
+    instance: SajkoReplay,
+    userId: string,
+    traits: UserTraits | undefined,
+    timestamp: number
+  ): void {
+    if (!instance.identify) {
+      this.log.warn('identify method not available');
+      return;
+    }
+
+    const payload = this.runPipeline({ type: 'identify', userId, traits: traits || {}, timestamp });
+    if (!payload || payload.type !== 'identify') return;
+
+    instance.identify(payload.userId, payload.traits);
+  }
+
+  /**
+   * Send an alias call through the middleware pipeline to SajkoReplay
+   */
+  private sendAlias(
+    instance: SajkoReplay,
+    userId: string,
+    previousId: string | undefined,
+    timestamp: number
+  ): void {
+    if (!instance.alias) {
+      this.log.warn('alias method not available');
+      return;
+    }
+
+    const payload = this.runPipeline({
+      type: 'alias',
+      userId,
+      previousId: previousId || instance.visitorId || null,
+      timestamp
+    });
+    if (!payload || payload.type !== 'alias') return;
+
+    instance.alias(payload.userId, payload.previousId);
+  }
+
+  /**
+   * Send group traits through the middleware pipeline to SajkoReplay
+   */
+  private sendGroup(
+    instance: SajkoReplay,
+    groupId: string,
+    traits: GroupTraits | undefined,
+    timestamp: number
+  ): void {
+    if (!instance.group) {
+      this.log.warn('group method not available');
+      return;
+    }
+
+    const payload = this.runPipeline({ type: 'group', groupId, traits: traits || {}, timestamp });
+    if (!payload || payload.type !== 'group') return;
+
+    instance.group(payload.groupId, payload.traits);
+  }
+
+  /**
+   * Send a Web Vitals metric, queueing it until the instance is ready
+   */
+  private sendWebVital(metric: WebVitalMetric): void {
+    if (this.consent.isDenied('analytics') || !this.sampler.allowsEvents()) return;
+
+    const instance = this.getReadyInstance();
+
+    if (!instance) {
+      this.queue.enqueue({ method: 'webVital', args: [metric], timestamp: Date.now() });
+      return;
+    }
+
+    this.sendWebVitalTo(instance, metric, Date.now());
+  }
+
+  /**
+   * Send a Web Vitals metric through the middleware pipeline to SajkoReplay
+   */
+  private sendWebVitalTo(instance: SajkoReplay, metric: WebVitalMetric, timestamp: number): void {
+    if (!instance.reportWebVital) {
+      this.log.warn('reportWebVital method not available');
+      return;
+    }
+
+    const payload = this.runPipeline({ type: 'web_vital', metric, timestamp });
+    if (!payload || payload.type !== 'web_vital') return;
+
+    instance.reportWebVital(payload.metric);
+  }
+
+  /**
+   * Send a captured error through the middleware pipeline to SajkoReplay
+   */
+  private sendError(instance: SajkoReplay, error: CapturedError, timestamp: number): void {
+    if (!instance.captureException) {
+      this.log.warn('captureException method not available');
+      return;
+    }
+
+    const payload = this.runPipeline({
+      type: 'error',
+      error: { ...error, sessionId: instance.sessionId || null },
+      timestamp
+    });
+    if (!payload || payload.type !== 'error') return;
+
+    instance.captureException(payload.error);
+  }
+}
+
+/**
+ * Start or stop recording to match the replay consent
+ */
+function applyConsent(instance: SajkoReplay, consent: ConsentState, log: ScopedLogger): void {
+  if (instance.setConsent) {
+    instance.setConsent(consent);
+    return;
+  }
+
+  // Older scripts read consent from the global config when starting
+  if (typeof window !== 'undefined' && window.sajkoConfig) {
+    window.sajkoConfig.hasUserConsent = consent.replay;
+  }
+
+  if (consent.replay && !instance.isRecording) {
+    instance.start().catch((error) => {
+      log.warn('Failed to start recording after consent', { error });
+    });
+  } else if (!consent.replay && instance.isRecording) {
+    instance.stop();
+  }
+}
@@ -0,0 +1,229 @@
+import { SajkoConfig, ConsentState, ConsentCategory, PrivacySignal, StorageConfig, StorageAdapter } from './types';
+import { logger, ScopedLogger } from './logger';
+import { createIdentityStorage } from './storage';
+
+const DEFAULT_STORAGE_KEY = 'sajko_consent';
+
+/**
+ * ConsentManager - Tracks which tracking categories the user agreed to,
+ * persists the choice and notifies listeners when it changes
+ */
+export class ConsentManager {
+  private state: ConsentState | null = null;
+  private listeners = new Set<(state: ConsentState, previous: ConsentState | null) => void>();
+  private waiters: Array<() => void> = [];
+  private storageKey: string = DEFAULT_STORAGE_KEY;
+  // Null until the storage option is known - a choice made before that is
+  // written once it is
+  private storage: StorageAdapter | null = null;
+  private persist: boolean = true;
+  private gated: boolean = false;
+  // Categories a browser privacy signal turned off, whatever the user chose
+  private restricted: ConsentCategory[] = [];
+  private signal: PrivacySignal | null = null;
+
+  constructor(private readonly log: ScopedLogger = logger.scope('core')) {}
+
+  /**
+   * Apply consent settings from the init() config
+   *
+   * Resolution order: choice made via setConsent() > persisted choice >
+   * consent.defaults > legacy hasUserConsent flag
+   *
+   * @param namespace - Suffix for the default storage key, so an isolated
+   * client's choice is kept apart from the host page's
+   */
+  configure(config: SajkoConfig, namespace?: string): void {
+    this.storageKey = config.consent?.storageKey
+      || (namespace ? `${DEFAULT_STORAGE_KEY}:${namespace}` : DEFAULT_STORAGE_KEY);
+    this.persist = config.consent?.persist !== false;
+    this.gated = !!config.consent;
+    this.useStorage(config.storage);
+
+    if (this.state) return;
+
+    const initial = this.readStored()
+      || (config.consent?.defaults ? normalize(config.consent.defaults) : null)
+      || (config.hasUserConsent !== undefined ? allCategories(config.hasUserConsent) : null);
+
+    if (initial) {
+      this.state = initial;
+      this.releaseWaiters();
+    }
+  }
+
+  /**
+   * Persist the choice with the visitor backend of the storage option
+   *
+   * configure() calls this; replay scripts adopted without init() pass the
+   * script's storage option.
+   */
+  useStorage(config: StorageConfig = {}): void {
+    this.storage = createIdentityStorage(config).visitor;
+    if (this.state) {
+      this.write(this.state);
+    }
+  }
+
+  /**
+   * Update consent for one or more categories
+   *
+   * @returns The resulting consent state
+   */
+  set(consent: Partial<ConsentState>): ConsentState {
+    const previous = this.get();
+    this.state = normalize({ ...(this.state || {}), ...consent });
+    this.write(this.state);
+
+    // The stored choice is the user's; listeners see what is in effect
+    const next = this.get()!;
+    if (!previous || !isSame(previous, next)) {
+      this.notify(next, previous);
+    }
+
+    this.releaseWaiters();
+    return next;
+  }
+
+  /**
+   * Turn categories off because of a browser privacy signal, whatever the
+   * user chose - an empty list lifts the restriction
+   */
+  restrict(categories: ConsentCategory[], signal: PrivacySignal | null = null): void {
+    const previous = this.get();
+    this.restricted = categories;
+    this.signal = categories.length > 0 ? signal : null;
+
+    const next = this.get();
+    if (next && (!previous || !isSame(previous, next))) {
+      this.notify(next, previous);
+    }
+  }
+
+  /**
+   * Current consent state, or null if the user has not decided yet and no
+   * privacy signal applies
+   */
+  get(): ConsentState | null {
+    if (this.restricted.length === 0) {
+      return this.state ? { ...this.state } : null;
+    }
+
+    // Undecided categories count as granted unless consent gates loading
+    const state: ConsentState = this.state ? { ...this.state } : allCategories(!this.gated);
+    this.restricted.forEach(category => {
+      state[category] = false;
+    });
+    if (this.signal) {
+      state.privacySignal = this.signal;
+    }
+    return state;
+  }
+
+  /**
+   * Whether a category is granted
+   */
+  isGranted(category: ConsentCategory): boolean {
+    return !this.restricted.includes(category) && !!this.state?.[category];
+  }
+
+  /**
+   * Whether a category was explicitly refused (undecided is not denied)
+   */
+  isDenied(category: ConsentCategory): boolean {
+    return this.restricted.includes(category) || (!!this.state && !this.state[category]);
+  }
+
+  /**
+   * Subscribe to consent changes
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (state: ConsentState, previous: ConsentState | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolves once the replay script may be loaded - immediately unless
+   * consent management is configured and neither analytics nor replay
+   * has been granted
+   */
+  waitForLoad(): Promise<void> {
+    if (!this.gated || this.canLoad()) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.waiters.push(resolve);
+    });
+  }
+
+  /**
+   * Whether the user refused every category that lets the script load
+   */
+  isLoadDenied(): boolean {
+    return this.gated && this.isDenied('analytics') && this.isDenied('replay');
+  }
+
+  private notify(state: ConsentState, previous: ConsentState | null): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(state, previous);
+      } catch (error) {
+        this.log.warn('Consent listener threw', { error });
+      }
+    });
+  }
+
+  private canLoad(): boolean {
+    return this.isGranted('analytics') || this.isGranted('replay');
+  }
+
+  private releaseWaiters(): void {
+    if (!this.canLoad()) return;
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private readStored(): ConsentState | null {
+    if (!this.persist || !this.storage) return null;
+
+    try {
+      const stored = this.storage.getItem(this.storageKey);
+      return stored ? normalize(JSON.parse(stored)) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private write(state: ConsentState): void {
+    if (!this.persist || !this.storage) return;
+
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify({ ...state, updatedAt: Date.now() }));
+    } catch {
+      // Storage can be unavailable (private mode, quota) - keep the in-memory choice
+    }
+  }
+}
+
+function normalize(consent: Partial<ConsentState>): ConsentState {
+  return {
+    analytics: !!consent.analytics,
+    replay: !!consent.replay,
+    marketing: !!consent.marketing
+  };
+}
+
+function allCategories(granted: boolean): ConsentState {
+  return { analytics: granted, replay: granted, marketing: granted };
+}
+
+function isSame(a: ConsentState, b: ConsentState): boolean {
+  return a.analytics === b.analytics && a.replay === b.replay && a.marketing === b.marketing;
+}
@@ -0,0 +1,58 @@
+import { logger, ScopedLogger } from './logger';
+
+/**
+ * EventEmitter - Minimal typed emitter behind on()/off()
+ *
+ * Listener errors are caught so a broken handler never breaks tracking.
+ */
+export class EventEmitter<M extends object> {
+  private listeners = new Map<keyof M, Set<(payload: any) => void>>();
+
+  constructor(private readonly log: ScopedLogger = logger.scope('core')) {}
+
+  /**
+   * Subscribe to an event
+   *
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof M>(event: K, handler: (payload: M[K]) => void): () => void {
+    let handlers = this.listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(event, handlers);
+    }
+    handlers.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Remove one handler, or every handler for the event when none is given
+   */
+  off<K extends keyof M>(event: K, handler?: (payload: M[K]) => void): void {
+    if (!handler) {
+      this.listeners.delete(event);
+      return;
+    }
+    this.listeners.get(event)?.delete(handler);
+  }
+
+  /**
+   * Call every handler for the event
+   */
+  emit<K extends keyof M>(event: K, payload: M[K]): void {
+    this.listeners.get(event)?.forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        this.log.warn(`Listener for "${String(event)}" threw`, { error });
+      }
+    });
+  }
+
+  /**
+   * Remove all handlers
+   */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,67 @@
+import { SajkoConfig, PrivacySignal, PrivacySignalDecision } from './types';
+
+/**
+ * Check whether the SAJKO replay script can run in this environment
+ * 
+ * False during server rendering, in workers and in test runners without a
+ * DOM. There the core falls back to a no-op instance instead of touching
+ * `window`, so calling it first is optional.
+ * 
+ * @returns Whether a browser DOM is available
+ * 
+ * @example
+ * ```typescript
+ * if (isSupported()) {
+ *   await init({ websiteId: 'your-website-id' });
+ * }
+ * ```
+ */
+export function isSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof document !== 'undefined' &&
+    typeof document.createElement === 'function'
+  );
+}
+
+/**
+ * Read the privacy signals the browser sends
+ * 
+ * Global Privacy Control (`navigator.globalPrivacyControl`) is a legal
+ * opt-out of sale and sharing in California and Colorado; Do Not Track is
+ * its older, voluntary predecessor.
+ * 
+ * @returns 'gpc' and/or 'dnt', empty without a browser or signals
+ * 
+ * @example
+ * ```typescript
+ * if (getPrivacySignals().includes('gpc')) {
+ *   hideMarketingPixels();
+ * }
+ * ```
+ */
+export function getPrivacySignals(): PrivacySignal[] {
+  if (typeof navigator === 'undefined') {
+    return [];
+  }
+
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean; msDoNotTrack?: string };
+  const win = typeof window !== 'undefined' ? window as Window & { doNotTrack?: string } : undefined;
+  const dnt = nav.doNotTrack ?? win?.doNotTrack ?? nav.msDoNotTrack;
+
+  const signals: PrivacySignal[] = [];
+  if (nav.globalPrivacyControl === true) signals.push('gpc');
+  if (dnt === '1' || dnt === 'yes') signals.push('dnt');
+  return signals;
+}
+
+/**
+ * Apply a respectPrivacySignals setting to the signals of this browser
+ */
+export function resolvePrivacySignals(
+  option: SajkoConfig['respectPrivacySignals']
+): PrivacySignalDecision {
+  const signals = getPrivacySignals();
+  const mode = option === true ? 'block' : option || null;
+  return { signals, enforced: signals.length > 0 ? mode : null };
+}
@@ -0,0 +1,50 @@
+import { SajkoErrorCode } from './types';
+
+/**
+ * SajkoError - Error thrown or emitted by the tracker
+ *
+ * `code` is stable across releases and safe to branch on; `message` is for
+ * humans and may change.
+ */
+export class SajkoError extends Error {
+  /** Stable error code */
+  readonly code: SajkoErrorCode;
+  /** Underlying error or event, if any */
+  readonly cause?: unknown;
+  /** Load attempt the error belongs to, for script loading errors */
+  readonly attempt?: number;
+
+  constructor(
+    code: SajkoErrorCode,
+    message: string,
+    options: { cause?: unknown; attempt?: number } = {}
+  ) {
+    super(message);
+    this.name = 'SajkoError';
+    this.code = code;
+    this.cause = options.cause;
+    this.attempt = options.attempt;
+
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, SajkoError.prototype);
+  }
+
+  /**
+   * Wrap any thrown value, keeping SajkoErrors as they are
+   */
+  static from(error: unknown, code: SajkoErrorCode = 'UNKNOWN'): SajkoError {
+    if (error instanceof SajkoError) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return new SajkoError(code, `SAJKO: ${message}`, { cause: error });
+  }
+}
+
+/**
+ * Check whether a value is a SajkoError, optionally with a given code
+ */
+export function isSajkoError(error: unknown, code?: SajkoErrorCode): error is SajkoError {
+  return error instanceof SajkoError && (!code || error.code === code);
+}
@@ -5,26 +5,61 @@
  */
 
 import { SajkoLoader } from './loader';
+import { SajkoClient, SajkoClientOptions } from './client';
+import { isSupported, getPrivacySignals, resolvePrivacySignals } from './environment';
+import { SajkoError, isSajkoError } from './errors';
+import { validateConfig, formatIssues } from './validate';
 import { 
   SajkoConfig, 
   SajkoReplay, 
   SajkoMetrics,
-  TrackingEvent, 
   UserTraits, 
-  LoaderOptions 
+  GroupTraits,
+  PersistenceScope,
+  ErrorContext,
+  ExternalWebVital,
+  LoaderOptions,
+  DefaultEventMap,
+  Tracker,
+  TrackFunction,
+  ConsentState,
+  SajkoEventName,
+  SajkoEventHandler
 } from './types';
+import { logger, SajkoLogger, ScopedLogger } from './logger';
+
+const log = logger.scope('core');
 
 // Re-export types
 export * from './types';
-export { SajkoLoader };
+export {
+  SajkoLoader,
+  SajkoClient,
+  SajkoError,
+  isSupported,
+  getPrivacySignals,
+  resolvePrivacySignals,
+  isSajkoError,
+  validateConfig,
+  formatIssues
+};
+export type { SajkoClientOptions };
+// Shared with the framework packages so they log through the same settings
+export { logger, SajkoLogger, ScopedLogger };
 
-// Global instance reference
-let sajkoInstance: SajkoReplay | null = null;
-let loaderInstance: SajkoLoader | null = null;
+// Client behind the top-level functions
+const defaultClient = new SajkoClient();
 
 /**
  * Initialize SAJKO tracking
  * 
+ * Safe to call during server rendering: without a DOM it resolves with a
+ * no-op instance and every other function becomes a no-op. Use
+ * `isSupported()` to check explicitly.
+ * 
+ * Rejects with a `SajkoError`; branch on `error.code` (e.g. `SCRIPT_BLOCKED`
+ * for ad blockers, `SCRIPT_TIMEOUT`, `INVALID_CONFIG`).
+ * 
  * @param config - Configuration object
  * @param options - Loader options
  * @returns Promise resolving to SajkoReplay instance
@@ -37,38 +72,33 @@ let loaderInstance: SajkoLoader | null = null;
  *   hasUserConsent: true
  * });
  * ```
+ * 
+ * @example
+ * ```typescript
+ * // Middleware runs for every track()/identify(), including React and Vue
+ * await init({
+ *   websiteId: 'your-website-id',
+ *   filter: (payload) => !(payload.type === 'identify' && payload.userId.startsWith('test-')),
+ *   enrich: () => ({ build: process.env.BUILD_ID }),
+ *   beforeSend: (payload) => {
+ *     if (payload.type === 'track') delete payload.properties.internalId;
+ *     return payload;
+ *   }
+ * });
+ * ```
  */
 export async function init(
   config: SajkoConfig, 
   options?: LoaderOptions
 ): Promise<SajkoReplay> {
-  // Return existing instance if already initialized
-  if (sajkoInstance && loaderInstance?.isScriptLoaded()) {
-    console.log('SAJKO: Already initialized, returning existing instance');
-    return sajkoInstance;
-  }
-  
-  // Validate required config
-  if (!config.websiteId) {
-    throw new Error('SAJKO: websiteId is required in configuration');
-  }
-  
-  // Create loader and load script
-  loaderInstance = SajkoLoader.getInstance(config, options);
-  sajkoInstance = await loaderInstance.load();
-  
-  console.log('SAJKO: Initialized successfully', {
-    sessionId: sajkoInstance.sessionId,
-    version: sajkoInstance.version,
-    useWasm: sajkoInstance.useWasm
-  });
-  
-  return sajkoInstance;
+  return defaultClient.init(config, options);
 }
 
 /**
  * Track a custom event
  * 
+ * Calls made before init() resolves are queued and sent once the script loads.
+ * 
  * @param event - Event name
  * @param properties - Event properties
  * 
@@ -81,16 +111,7 @@ export async function init(
  * ```
  */
 export function track(event: string, properties?: Record<string, any>): void {
-  if (!sajkoInstance) {
-    console.warn('SAJKO: Not initialized. Call init() first.');
-    return;
-  }
-  
-  if (sajkoInstance.trackEvent) {
-    sajkoInstance.trackEvent(event, properties);
-  } else {
-    console.warn('SAJKO: trackEvent method not available');
-  }
+  defaultClient.track(event, properties);
 }
 
 /**
@@ -109,16 +130,277 @@ export function track(event: string, properties?: Record<string, any>): void {
  * ```
  */
 export function identify(userId: string, traits?: UserTraits): void {
-  if (!sajkoInstance) {
-    console.warn('SAJKO: Not initialized. Call init() first.');
-    return;
-  }
+  defaultClient.identify(userId, traits);
+}
+
+/**
+ * Link a previous ID to a known user, e.g. right after signup so the
+ * anonymous visitor's history is merged into the new account
+ * 
+ * @param userId - Known user identifier
+ * @param previousId - ID to merge (defaults to the current visitor ID)
+ * 
+ * @example
+ * ```typescript
+ * alias('user-123');
+ * identify('user-123', { email: 'user@example.com' });
+ * ```
+ */
+export function alias(userId: string, previousId?: string): void {
+  defaultClient.alias(userId, previousId);
+}
+
+/**
+ * Associate the current user with a group such as a company account
+ * 
+ * @param groupId - Group identifier
+ * @param traits - Group traits/properties
+ * 
+ * @example
+ * ```typescript
+ * group('acme-inc', { name: 'Acme Inc.', plan: 'enterprise' });
+ * ```
+ */
+export function group(groupId: string, traits?: GroupTraits): void {
+  defaultClient.group(groupId, traits);
+}
+
+/**
+ * Send an error to the replay timeline
+ * 
+ * The event carries the message, stack, component and session ID so it
+ * can be found in the recording. Set `errors.captureGlobal` in init() to
+ * capture uncaught errors and unhandled rejections as well.
+ * 
+ * @param error - Error or any thrown value
+ * @param context - Component and extra information
+ * 
+ * @example
+ * ```typescript
+ * try {
+ *   await submitOrder(cart);
+ * } catch (error) {
+ *   captureException(error, { component: 'Checkout', cartSize: cart.length });
+ * }
+ * ```
+ */
+export function captureException(error: unknown, context?: ErrorContext): void {
+  defaultClient.captureException(error, context);
+}
+
+/**
+ * Send a Web Vitals metric measured elsewhere
+ * 
+ * Accepts Next.js `reportWebVitals` output and web-vitals library metrics.
+ * The first one stops the tracker's own measurement (`webVitals` in init())
+ * so nothing is measured twice, and metrics it already sent for the page
+ * are not sent again. Names other than LCP, CLS, INP, FCP and TTFB are
+ * ignored.
+ * 
+ * @param metric - Metric with at least `name` and `value`
+ * 
+ * @example
+ * ```typescript
+ * import { onLCP } from 'web-vitals';
+ * 
+ * onLCP(reportWebVitals);
+ * ```
+ */
+export function reportWebVitals(metric: ExternalWebVital): void {
+  defaultClient.reportWebVitals(metric);
+}
+
+/**
+ * Forget the current user, e.g. on logout
+ * 
+ * Rotates the visitor ID and starts a new session so the next user on a
+ * shared device is not linked to the previous one. Super properties kept
+ * for the session or visitor are cleared; page-scoped ones stay.
+ * 
+ * @returns Promise that resolves once the new session has started
+ * 
+ * @example
+ * ```typescript
+ * async function logout() {
+ *   await reset();
+ *   router.push('/login');
+ * }
+ * ```
+ */
+export function reset(): Promise<void> {
+  return defaultClient.reset();
+}
+
+/**
+ * End the current session and start a new one for the same visitor
+ * 
+ * What was recorded so far is sent under the old session. Unlike
+ * `reset()`, the visitor ID and super properties are kept - e.g. for a
+ * kiosk between customers who are the same anonymous device.
+ * 
+ * @returns Promise that resolves once the new session has started
+ * 
+ * @example
+ * ```typescript
+ * checkoutDone.addEventListener('click', async () => {
+ *   await startNewSession();
+ * });
+ * ```
+ */
+export function startNewSession(): Promise<void> {
+  return defaultClient.startNewSession();
+}
+
+/**
+ * Pause replay capture on a sensitive screen
+ * 
+ * DOM changes, input and network calls are not recorded until `resume()`.
+ * The session stays open, tracked events are still sent and the replay
+ * shows a gap marker with the reason. Called before init() resolves, the
+ * replay script starts paused, so its first snapshot is skipped too.
+ * 
+ * @param reason - Shown on the gap marker, e.g. 'payment'
+ * 
+ * @example
+ * ```typescript
+ * pause('payment');
+ * await submitPayment();
+ * resume();
+ * ```
+ */
+export function pause(reason?: string): void {
+  defaultClient.pause(reason);
+}
+
+/**
+ * Continue replay capture after `pause()`
+ * 
+ * A fresh snapshot is taken, so the replay picks up from the current page.
+ */
+export function resume(): void {
+  defaultClient.resume();
+}
+
+/**
+ * Add properties to every event, including automatic page views
+ * 
+ * Properties passed to track() win over registered ones. They are kept for
+ * the configured `superProperties.persistence` scope unless one is given.
+ * 
+ * @param properties - Properties to add
+ * @param scope - 'page', 'session' or 'visitor'
+ * 
+ * @example
+ * ```typescript
+ * register({ appVersion: '2.4.0', tenant: 'acme' });
+ * register({ experiment: 'checkout-b' }, 'session');
+ * ```
+ */
+export function register(properties: Record<string, any>, scope?: PersistenceScope): void {
+  defaultClient.register(properties, scope);
+}
+
+/**
+ * Add properties to every event unless they are already registered,
+ * e.g. to keep the first value seen for a visitor
+ * 
+ * @param properties - Properties to add
+ * @param scope - 'page', 'session' or 'visitor'
+ * 
+ * @example
+ * ```typescript
+ * registerOnce({ firstLandingPage: location.pathname });
+ * ```
+ */
+export function registerOnce(properties: Record<string, any>, scope?: PersistenceScope): void {
+  defaultClient.registerOnce(properties, scope);
+}
+
+/**
+ * Stop adding a registered property to events
+ * 
+ * @param key - Property name
+ */
+export function unregister(key: string): void {
+  defaultClient.unregister(key);
+}
+
+/**
+ * Get the properties currently added to every event
+ * 
+ * @returns Registered properties
+ */
+export function getSuperProperties(): Record<string, any> {
+  return defaultClient.getSuperProperties();
+}
+
+/**
+ * Create a tracker checked against an event catalog
+ * 
+ * The returned functions share the instance set up by init() (or the given
+ * client); the event map only exists at compile time.
+ * 
+ * @param client - Client to send through (defaults to the one behind init())
+ * @returns Tracker with typed track()
+ * 
+ * @example
+ * ```typescript
+ * interface MyEvents {
+ *   signup: { plan: 'free' | 'pro' };
+ *   logout: undefined;
+ * }
+ * 
+ * const tracker = createTracker<MyEvents>();
+ * tracker.track('signup', { plan: 'pro' });
+ * tracker.track('logout');
+ * ```
+ */
+export function createTracker<E extends object = DefaultEventMap>(
+  client: SajkoClient = defaultClient
+): Tracker<E> {
+  return {
+    track: ((event: string, properties?: Record<string, any>) => {
+      client.track(event, properties);
+    }) as TrackFunction<E>,
+    identify: (userId: string, traits?: UserTraits) => client.identify(userId, traits),
+    flush: () => client.flush()
+  };
+}
+
+/**
+ * Create an isolated client reporting to its own website
+ * 
+ * The client has its own queue, consent, session, visitor ID and endpoint and
+ * never touches the page-global replay script, so it can run inside a page
+ * that already uses SAJKO. Its consent choice is stored under
+ * `sajko_consent:<websiteId>` and its super properties under
+ * `sajko_super_properties:<websiteId>`, so `setConsent()` and `register()`
+ * on the client leave the host page's state alone. Its `logLevel` and
+ * `logger` apply to this client only. It sends custom events and identify calls only -
+ * DOM replay stays with the page's own recorder. Calls made before the
+ * client is ready are queued.
+ * 
+ * @param config - Configuration for this client
+ * @returns The client; `await client.ready()` to wait for initialization
+ * 
+ * @example
+ * ```typescript
+ * const widget = createClient({
+ *   websiteId: 'widget-website-id',
+ *   apiEndpoint: 'https://analytics.partner.example'
+ * });
+ * 
+ * widget.track('widget_opened', { placement: 'sidebar' });
+ * ```
+ */
+export function createClient(config: SajkoConfig): SajkoClient {
+  const client = new SajkoClient({ isolated: true });
+  
+  client.init(config).catch((error) => {
+    log.error('Client initialization failed', { error });
+  });
   
-  if (sajkoInstance.identify) {
-    sajkoInstance.identify(userId, traits);
-  } else {
-    console.warn('SAJKO: identify method not available');
-  }
+  return client;
 }
 
 /**
@@ -133,17 +415,16 @@ export function identify(userId: string, traits?: UserTraits): void {
  * ```
  */
 export function getMetrics(): SajkoMetrics | null {
-  if (!sajkoInstance) {
-    console.warn('SAJKO: Not initialized. Call init() first.');
-    return null;
-  }
-  
-  return sajkoInstance.getMetrics();
+  return defaultClient.getMetrics();
 }
 
 /**
  * Flush events to server immediately
  * 
+ * Before init() resolves the flush is queued: the promise settles once it
+ * has run, and rejects with the SajkoError if init() fails or the queue
+ * drops it. Without init() it resolves right away with a warning.
+ * 
  * @example
  * ```typescript
  * await flush();
@@ -151,12 +432,7 @@ export function getMetrics(): SajkoMetrics | null {
  * ```
  */
 export async function flush(): Promise<void> {
-  if (!sajkoInstance) {
-    console.warn('SAJKO: Not initialized. Call init() first.');
-    return;
-  }
-  
-  await sajkoInstance.flush();
+  return defaultClient.flush();
 }
 
 /**
@@ -169,12 +445,7 @@ export async function flush(): Promise<void> {
  * ```
  */
 export function stop(): void {
-  if (!sajkoInstance) {
-    console.warn('SAJKO: Not initialized. Call init() first.');
-    return;
-  }
-  
-  sajkoInstance.stop();
+  defaultClient.stop();
 }
 
 /**
@@ -189,17 +460,16 @@ export function stop(): void {
  * ```
  */
 export function getSessionId(): string | null {
-  if (!sajkoInstance) {
-    return null;
-  }
-  
-  return sajkoInstance.sessionId;
+  return defaultClient.getSessionId();
 }
 
 /**
  * Get current visitor ID
  * 
- * @returns Current visitor ID or null
+ * Kept where the `storage` option says - with `type: 'cookie'` and a
+ * `domain`, every subdomain returns the same ID.
+ * 
+ * @returns Current visitor ID, or null before init()
  * 
  * @example
  * ```typescript
@@ -208,11 +478,7 @@ export function getSessionId(): string | null {
  * ```
  */
 export function getVisitorId(): string | null {
-  if (!sajkoInstance) {
-    return null;
-  }
-  
-  return sajkoInstance.visitorId || null;
+  return defaultClient.getVisitorId();
 }
 
 /**
@@ -228,11 +494,16 @@ export function getVisitorId(): string | null {
  * ```
  */
 export function isRecording(): boolean {
-  if (!sajkoInstance) {
-    return false;
-  }
-  
-  return sajkoInstance.isRecording;
+  return defaultClient.isRecording();
+}
+
+/**
+ * Check if replay capture is paused
+ * 
+ * @returns Whether `pause()` is in effect
+ */
+export function isPaused(): boolean {
+  return defaultClient.isPaused();
 }
 
 /**
@@ -249,12 +520,120 @@ export function isRecording(): boolean {
  * ```
  */
 export function updateConfig(config: Partial<SajkoConfig>): void {
-  if (!loaderInstance) {
-    console.warn('SAJKO: Not initialized. Call init() first.');
-    return;
-  }
-  
-  loaderInstance.updateConfig(config);
+  defaultClient.updateConfig(config);
+}
+
+/**
+ * Update the user's consent
+ * 
+ * Categories not passed keep their current value. Granting replay starts
+ * recording, revoking it stops recording; revoking analytics drops custom
+ * events and identify calls. The choice is persisted unless
+ * `consent.persist` is false.
+ * 
+ * @param consent - Categories to update
+ * @returns The resulting consent state
+ * 
+ * @example
+ * ```typescript
+ * // Cookie banner: analytics only, no session replay
+ * setConsent({ analytics: true, replay: false, marketing: false });
+ * ```
+ */
+export function setConsent(consent: Partial<ConsentState>): ConsentState {
+  return defaultClient.setConsent(consent);
+}
+
+/**
+ * Get the user's current consent
+ * 
+ * @returns Consent state, or null if the user has not decided yet
+ */
+export function getConsent(): ConsentState | null {
+  return defaultClient.getConsent();
+}
+
+/**
+ * Subscribe to session changes
+ * 
+ * Called after `startNewSession()`, `reset()` and when the `session`
+ * limits (inactivity, maximum duration) start a new session.
+ * 
+ * @param handler - Called with the new and previous session IDs and the reason
+ * @returns Unsubscribe function
+ * 
+ * @example
+ * ```typescript
+ * const unsubscribe = onSessionChange(({ sessionId, reason }) => {
+ *   console.log('New session', sessionId, 'after', reason);
+ * });
+ * ```
+ */
+export function onSessionChange(handler: SajkoEventHandler<'session_rotated'>): () => void {
+  return defaultClient.onSessionChange(handler);
+}
+
+/**
+ * Subscribe to consent changes
+ * 
+ * @param handler - Called with the new and previous consent state
+ * @returns Unsubscribe function
+ * 
+ * @example
+ * ```typescript
+ * const unsubscribe = onConsentChange((consent) => {
+ *   console.log('Replay allowed:', consent.replay);
+ * });
+ * ```
+ */
+export function onConsentChange(
+  handler: (consent: ConsentState, previous: ConsentState | null) => void
+): () => void {
+  return defaultClient.onConsentChange(handler);
+}
+
+/**
+ * Subscribe to a tracker lifecycle event
+ * 
+ * Events: `script_loaded`, `script_load_failed`, `ready`,
+ * `recording_started`, `recording_stopped`, `recording_paused`,
+ * `recording_resumed`, `flush_succeeded`, `flush_failed`,
+ * `session_rotated`, `consent_changed`. Handlers added
+ * before init() stay registered across init()/unload().
+ * 
+ * @param event - Event name
+ * @param handler - Called with the event payload
+ * @returns Unsubscribe function
+ * 
+ * @example
+ * ```typescript
+ * on('flush_failed', ({ eventCount, error }) => {
+ *   console.warn(`Could not send ${eventCount} events`, error);
+ * });
+ * 
+ * const unsubscribe = on('recording_started', ({ sessionId }) => {
+ *   console.log('Recording', sessionId);
+ * });
+ * ```
+ */
+export function on<K extends SajkoEventName>(
+  event: K,
+  handler: SajkoEventHandler<K>
+): () => void {
+  return defaultClient.on(event, handler);
+}
+
+/**
+ * Unsubscribe from a tracker lifecycle event
+ * 
+ * @param event - Event name
+ * @param handler - Handler to remove; omit to remove every handler for the event
+ */
+export function off<K extends SajkoEventName>(
+  event: K,
+  handler?: SajkoEventHandler<K>
+): void {
+  defaultClient.off(event, handler);
 }
 
 /**
@@ -267,12 +646,7 @@ export function updateConfig(config: Partial<SajkoConfig>): void {
  * ```
  */
 export function unload(): void {
-  if (loaderInstance) {
-    loaderInstance.unload();
-  }
-  
-  sajkoInstance = null;
-  loaderInstance = null;
+  defaultClient.unload();
 }
 
 /**
@@ -281,21 +655,45 @@ export function unload(): void {
  * @returns Current SajkoReplay instance or null
  */
 export function getInstance(): SajkoReplay | null {
-  return sajkoInstance;
+  return defaultClient.getInstance();
 }
 
 // Default export with all functions
 export default {
   init,
+  isSupported,
+  isSajkoError,
+  validateConfig,
   track,
   identify,
+  alias,
+  group,
+  captureException,
+  reportWebVitals,
+  reset,
+  startNewSession,
+  pause,
+  resume,
+  register,
+  registerOnce,
+  unregister,
+  getSuperProperties,
+  createTracker,
+  createClient,
   getMetrics,
   flush,
   stop,
   getSessionId,
   getVisitorId,
   isRecording,
+  isPaused,
   updateConfig,
+  setConsent,
+  getConsent,
+  onConsentChange,
+  onSessionChange,
+  on,
+  off,
   unload,
   getInstance
 };
\ No newline at end of file
@@ -1,4 +1,12 @@
-import { SajkoConfig, SajkoReplay, LoaderOptions } from './types';
+import { SajkoConfig, SajkoReplay, LoaderOptions, SajkoEvents } from './types';
+import { ConsentManager } from './consent';
+import { EventEmitter } from './emitter';
+import { SajkoError } from './errors';
+import { NoopReplay } from './noop';
+import { isSupported } from './environment';
+import { logger } from './logger';
+
+const log = logger.scope('core');
 
 /**
  * SajkoLoader - Handles dynamic loading of the SAJKO replay script
@@ -9,9 +17,18 @@ export class SajkoLoader {
   private config: SajkoConfig;
   private options: LoaderOptions;
   private isLoaded: boolean = false;
+  private consent: ConsentManager | null;
+  private events: EventEmitter<SajkoEvents> | null;
   
-  constructor(config: SajkoConfig, options: LoaderOptions = {}) {
+  constructor(
+    config: SajkoConfig,
+    options: LoaderOptions = {},
+    consent?: ConsentManager,
+    events?: EventEmitter<SajkoEvents>
+  ) {
     this.config = config;
+    this.consent = consent || null;
+    this.events = events || null;
     this.options = {
       cdnUrl: options.cdnUrl || this.getDefaultCdnUrl(),
       version: options.version || 'v4',
@@ -25,9 +42,14 @@ export class SajkoLoader {
   /**
    * Get singleton instance
    */
-  static getInstance(config: SajkoConfig, options?: LoaderOptions): SajkoLoader {
+  static getInstance(
+    config: SajkoConfig,
+    options?: LoaderOptions,
+    consent?: ConsentManager,
+    events?: EventEmitter<SajkoEvents>
+  ): SajkoLoader {
     if (!SajkoLoader.instance) {
-      SajkoLoader.instance = new SajkoLoader(config, options);
+      SajkoLoader.instance = new SajkoLoader(config, options, consent, events);
     }
     return SajkoLoader.instance;
   }
@@ -36,19 +58,28 @@ export class SajkoLoader {
    * Load the SAJKO script and initialize tracking
    */
   async load(): Promise<SajkoReplay> {
+    // No DOM to inject into (server rendering, tests without jsdom)
+    if (!isSupported()) {
+      return new NoopReplay();
+    }
+    
     // If already loading, wait for existing promise
     if (this.scriptPromise) {
       await this.scriptPromise;
       return this.waitForReplay();
     }
     
-    // If already loaded, return existing instance
-    if (this.isLoaded && window.SajkoReplay) {
+    // Already loaded, or a replay script is on the page already (plain
+    // script tag, SajkoScript, a test fake) - never inject a second one
+    if (window.SajkoReplay) {
+      this.isLoaded = true;
       return window.SajkoReplay;
     }
     
-    // Start loading process
-    this.scriptPromise = this.loadWithRetry();
+    // Start loading process, deferred until the required consent is granted
+    this.scriptPromise = this.consent
+      ? this.consent.waitForLoad().then(() => this.loadWithRetry())
+      : this.loadWithRetry();
     await this.scriptPromise;
     
     return this.waitForReplay();
@@ -59,24 +90,31 @@ export class SajkoLoader {
    */
   private async loadWithRetry(attempt: number = 1): Promise<void> {
     try {
-      await this.loadScript();
+      await this.loadScript(attempt);
       this.isLoaded = true;
+      this.events?.emit('script_loaded', { url: this.getScriptUrl(), attempt });
     } catch (error) {
+      const loadError = SajkoError.from(error, 'SCRIPT_LOAD_FAILED');
+      this.events?.emit('script_load_failed', { url: this.getScriptUrl(), attempt, error: loadError });
       if (attempt < this.options.retryAttempts!) {
-        console.warn(`SAJKO: Load attempt ${attempt} failed, retrying...`);
+        log.warn(`Load attempt ${attempt} failed, retrying...`, { attempt, error: loadError }, loadError.code);
         await this.delay(this.options.retryDelay!);
         return this.loadWithRetry(attempt + 1);
       }
-      throw new Error(`Failed to load SAJKO script after ${attempt} attempts: ${error}`);
+      throw new SajkoError(
+        loadError.code,
+        `SAJKO: Failed to load script after ${attempt} attempts: ${loadError.message}`,
+        { cause: loadError, attempt }
+      );
     }
   }
   
   /**
    * Load the script into the DOM
    */
-  private async loadScript(): Promise<void> {
+  private async loadScript(attempt: number): Promise<void> {
     // Set global config first
-    window.sajkoConfig = this.config;
+    window.sajkoConfig = this.getScriptConfig();
     
     // Determine script URL
     const scriptUrl = this.getScriptUrl();
@@ -98,29 +136,53 @@ export class SajkoLoader {
       if (this.config.apiEndpoint) {
         script.dataset.apiEndpoint = this.config.apiEndpoint;
       }
-      if (this.config.hasUserConsent !== undefined) {
-        script.dataset.userConsent = String(this.config.hasUserConsent);
+      const { hasUserConsent } = this.getScriptConfig();
+      if (hasUserConsent !== undefined) {
+        script.dataset.userConsent = String(hasUserConsent);
       }
       if (this.config.debug !== undefined) {
         script.dataset.debug = String(this.config.debug);
       }
       
+      // CSP and Subresource Integrity
+      if (this.options.nonce) {
+        script.nonce = this.options.nonce;
+      }
+      if (this.options.integrity) {
+        script.integrity = this.options.integrity;
+      }
+      // SRI on a cross-origin script needs a CORS request
+      const crossOrigin = this.options.crossOrigin || (this.options.integrity ? 'anonymous' : undefined);
+      if (crossOrigin) {
+        script.crossOrigin = crossOrigin;
+      }
+      if (this.options.referrerPolicy) {
+        script.referrerPolicy = this.options.referrerPolicy;
+      }
+      
       // Set up timeout
       const timeoutId = setTimeout(() => {
-        reject(new Error(`Script load timeout after ${this.options.timeout}ms`));
+        // Remove the tag so the next attempt injects a fresh one
+        script.remove();
+        reject(new SajkoError(
+          'SCRIPT_TIMEOUT',
+          `SAJKO: Script load timeout after ${this.options.timeout}ms`,
+          { attempt }
+        ));
       }, this.options.timeout!);
       
       // Handle load success
       script.onload = () => {
         clearTimeout(timeoutId);
-        console.log('SAJKO: Script loaded successfully');
+        log.debug('Script loaded successfully', { url: scriptUrl });
         resolve();
       };
       
       // Handle load error
-      script.onerror = (error) => {
+      script.onerror = (event) => {
         clearTimeout(timeoutId);
-        reject(error);
+        script.remove();
+        this.describeLoadError(scriptUrl, event, attempt).then(reject);
       };
       
       // Append to document
@@ -128,6 +190,36 @@ export class SajkoLoader {
     });
   }
   
+  /**
+   * Tell a blocked script from a failing one
+   * 
+   * The error event carries no reason. Ad blockers and privacy extensions
+   * also fail a plain request to the same URL, while a server error or a
+   * bad integrity hash still gets a response.
+   */
+  private async describeLoadError(url: string, event: unknown, attempt: number): Promise<SajkoError> {
+    try {
+      await fetch(url, { method: 'HEAD', mode: 'no-cors', cache: 'no-store' });
+    } catch {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        return new SajkoError('SCRIPT_LOAD_FAILED', 'SAJKO: Script failed to load while offline', {
+          cause: event,
+          attempt
+        });
+      }
+      return new SajkoError('SCRIPT_BLOCKED', `SAJKO: Script request to ${url} was blocked`, {
+        cause: event,
+        attempt
+      });
+    }
+    
+    const hint = this.options.integrity ? ' (check the integrity hash)' : '';
+    return new SajkoError('SCRIPT_LOAD_FAILED', `SAJKO: Script failed to load from ${url}${hint}`, {
+      cause: event,
+      attempt
+    });
+  }
+  
   /**
    * Wait for SajkoReplay to be available on window
    */
@@ -141,7 +233,10 @@ export class SajkoLoader {
       await this.delay(100);
     }
     
-    throw new Error('SajkoReplay not available after script load');
+    throw new SajkoError(
+      'REPLAY_NOT_READY',
+      `SAJKO: SajkoReplay not available ${maxWait}ms after script load`
+    );
   }
   
   /**
@@ -169,6 +264,25 @@ export class SajkoLoader {
     return `${baseUrl}/sajko-replay-v4.js`;
   }
   
+  /**
+   * Config handed to the replay script - recording consent follows the
+   * replay category once the user has made a choice, and the whole choice
+   * goes along so events are sent with analytics consent alone
+   */
+  private getScriptConfig(): SajkoConfig {
+    // Resolved level, so the script is as quiet as the core in production
+    const config = { ...this.config, logLevel: logger.getLevel() };
+    const consent = this.consent?.get();
+    if (!consent) {
+      return config;
+    }
+    return {
+      ...config,
+      hasUserConsent: consent.replay,
+      consent: { ...config.consent, defaults: consent }
+    };
+  }
+  
   /**
    * Utility delay function
    */
@@ -181,8 +295,8 @@ export class SajkoLoader {
    */
   updateConfig(config: Partial<SajkoConfig>): void {
     this.config = { ...this.config, ...config };
-    if (window.sajkoConfig) {
-      window.sajkoConfig = this.config;
+    if (isSupported() && window.sajkoConfig) {
+      window.sajkoConfig = this.getScriptConfig();
     }
   }
   
@@ -190,13 +304,18 @@ export class SajkoLoader {
    * Check if script is loaded
    */
   isScriptLoaded(): boolean {
-    return this.isLoaded && !!window.SajkoReplay;
+    return this.isLoaded && isSupported() && !!window.SajkoReplay;
   }
   
   /**
    * Unload the script and clean up
    */
   unload(): void {
+    if (!isSupported()) {
+      SajkoLoader.instance = null;
+      return;
+    }
+    
     // Stop recording if active
     if (window.SajkoReplay?.isRecording) {
       window.SajkoReplay.stop();
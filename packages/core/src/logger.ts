@@ -0,0 +1,130 @@
+import { LogLevel, LogEntry, LogSource, Logger } from './types';
+
+// Replaced by bundlers; throws where no bundler or Node defined it
+declare const process: { env: { NODE_ENV?: string } };
+
+const LEVELS: Record<LogLevel, number> = {
+  silent: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4
+};
+
+const PREFIXES: Record<LogSource, string> = {
+  core: 'SAJKO',
+  react: 'SAJKO React',
+  vue: 'SAJKO Vue',
+  nextjs: 'SAJKO Next.js',
+  node: 'SAJKO Node',
+  replay: 'SAJKO V4'
+};
+
+export interface LoggerOptions {
+  /** Most verbose level to log */
+  logLevel?: LogLevel;
+  /** Custom sink instead of the console */
+  logger?: Logger;
+  /** Shorthand for logLevel 'debug' */
+  debug?: boolean;
+}
+
+/**
+ * SajkoLogger - Level-filtered logging with a pluggable sink
+ *
+ * Writes `SAJKO: message` lines to the console unless a custom logger is
+ * configured, which then receives structured entries instead.
+ */
+export class SajkoLogger {
+  private level: LogLevel = defaultLevel(false);
+  private sink: Logger | null = null;
+
+  /**
+   * Apply logging settings; an explicit logLevel wins over `debug`
+   */
+  configure(options: LoggerOptions = {}): void {
+    this.level = options.logLevel || defaultLevel(!!options.debug);
+    this.sink = options.logger || null;
+  }
+
+  /**
+   * Level currently in effect
+   */
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  /**
+   * Logger that tags every entry with the given package
+   */
+  scope(source: LogSource): ScopedLogger {
+    return new ScopedLogger(this, source);
+  }
+
+  /**
+   * Write an entry if its level is enabled
+   */
+  write(entry: Omit<LogEntry, 'timestamp'>): void {
+    if (LEVELS[entry.level] > LEVELS[this.level]) return;
+
+    const full: LogEntry = { ...entry, timestamp: Date.now() };
+
+    if (this.sink) {
+      try {
+        this.sink(full);
+      } catch {
+        // A broken logger must not break tracking
+      }
+      return;
+    }
+
+    const method = entry.level === 'debug' ? 'log' : entry.level;
+    const prefix = entry.code ? `${PREFIXES[entry.source]} [${entry.code}]` : PREFIXES[entry.source];
+    const args: unknown[] = [`${prefix}: ${entry.message}`];
+    if (entry.context) {
+      args.push(entry.context);
+    }
+    console[method](...args);
+  }
+}
+
+/**
+ * Logger bound to one package
+ */
+export class ScopedLogger {
+  constructor(private readonly parent: SajkoLogger, private readonly source: LogSource) {}
+
+  error(message: string, context?: Record<string, unknown>, code?: string): void {
+    this.parent.write({ level: 'error', message, context, code, source: this.source });
+  }
+
+  warn(message: string, context?: Record<string, unknown>, code?: string): void {
+    this.parent.write({ level: 'warn', message, context, code, source: this.source });
+  }
+
+  info(message: string, context?: Record<string, unknown>, code?: string): void {
+    this.parent.write({ level: 'info', message, context, code, source: this.source });
+  }
+
+  debug(message: string, context?: Record<string, unknown>, code?: string): void {
+    this.parent.write({ level: 'debug', message, context, code, source: this.source });
+  }
+}
+
+/**
+ * Page-wide logger configured by init() and shared by the framework packages
+ */
+export const logger = new SajkoLogger();
+
+function defaultLevel(debug: boolean): LogLevel {
+  if (debug) return 'debug';
+  return isProduction() ? 'silent' : 'warn';
+}
+
+function isProduction(): boolean {
+  try {
+    return process.env.NODE_ENV === 'production';
+  } catch {
+    return false;
+  }
+}
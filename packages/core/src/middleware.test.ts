@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { MiddlewarePipeline } from './middleware';
+import { SajkoLogger } from './logger';
+import { LogEntry, SajkoPayload } from './types';
+
+const event = (properties: Record<string, any> = {}): SajkoPayload => ({
+  type: 'track',
+  event: 'checkout_started',
+  properties,
+  timestamp: 1700000000000
+});
+
+describe('MiddlewarePipeline', () => {
+  it('runs filter, then enrich, then beforeSend, each in registration order', () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline({
+      filter: [
+        () => { calls.push('filter 1'); return true; },
+        () => { calls.push('filter 2'); return true; }
+      ],
+      enrich: [
+        () => { calls.push('enrich 1'); return { build: '1.2.3' }; },
+        () => { calls.push('enrich 2'); return { build: '1.2.4', region: 'eu' }; }
+      ],
+      beforeSend: [
+        (payload) => {
+          calls.push('beforeSend 1');
+          return payload.type === 'track'
+            ? { ...payload, properties: { ...payload.properties, step: 1 } }
+            : payload;
+        },
+        (payload) => {
+          calls.push('beforeSend 2');
+          // Sees what the previous beforeSend returned
+          return payload.type === 'track' && payload.properties.step === 1
+            ? { ...payload, event: 'checkout_step' }
+            : payload;
+        }
+      ]
+    });
+
+    const result = pipeline.run(event({ plan: 'pro' }));
+
+    expect(calls).toEqual(['filter 1', 'filter 2', 'enrich 1', 'enrich 2', 'beforeSend 1', 'beforeSend 2']);
+    expect(result).toEqual({
+      ...event(),
+      event: 'checkout_step',
+      // Enrichers only fill in keys that are not set yet
+      properties: { build: '1.2.3', region: 'eu', plan: 'pro', step: 1 }
+    });
+  });
+
+  it('keeps the caller\'s payload unchanged', () => {
+    const payload = event({ plan: 'pro' });
+    const pipeline = new MiddlewarePipeline({
+      enrich: () => ({ build: '1.2.3' }),
+      beforeSend: (current) => {
+        if (current.type === 'track') current.properties.plan = 'changed';
+        return current;
+      }
+    });
+
+    pipeline.run(payload);
+
+    expect(payload).toEqual(event({ plan: 'pro' }));
+  });
+
+  it('drops the payload when a filter returns false, skipping later hooks', () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline({
+      filter: [
+        (payload) => payload.type !== 'track' || payload.properties.email !== 'qa@example.com',
+        () => { calls.push('filter 2'); return true; }
+      ],
+      enrich: () => { calls.push('enrich'); }
+    });
+
+    expect(pipeline.run(event({ email: 'qa@example.com' }))).toBeNull();
+    expect(calls).toEqual([]);
+    expect(pipeline.run(event({ email: 'jane@example.com' }))).not.toBeNull();
+  });
+
+  it('drops the payload when beforeSend returns null or false', () => {
+    expect(new MiddlewarePipeline({ beforeSend: () => null }).run(event())).toBeNull();
+    expect(new MiddlewarePipeline({ beforeSend: () => false }).run(event())).toBeNull();
+  });
+
+  it('keeps the payload when beforeSend returns nothing', () => {
+    const pipeline = new MiddlewarePipeline({ beforeSend: () => undefined });
+
+    expect(pipeline.run(event({ plan: 'pro' }))).toEqual(event({ plan: 'pro' }));
+  });
+
+  it('skips a hook that throws, logs a warning and sends the event', () => {
+    const entries: LogEntry[] = [];
+    const log = new SajkoLogger();
+    log.configure({ logLevel: 'warn', logger: entry => entries.push(entry) });
+
+    const pipeline = new MiddlewarePipeline({
+      filter: () => { throw new Error('broken filter'); },
+      enrich: [
+        () => { throw new Error('broken enrich'); },
+        () => ({ build: '1.2.3' })
+      ],
+      beforeSend: () => { throw new Error('broken beforeSend'); }
+    }, log.scope('core'));
+
+    expect(pipeline.run(event({ plan: 'pro' }))).toEqual(event({ build: '1.2.3', plan: 'pro' }));
+    expect(entries.map(entry => entry.message)).toEqual([
+      expect.stringContaining('filter middleware threw'),
+      expect.stringContaining('enrich middleware threw'),
+      expect.stringContaining('beforeSend middleware threw')
+    ]);
+  });
+
+  it('replaces all hooks on configure()', () => {
+    const pipeline = new MiddlewarePipeline({ filter: () => false });
+    expect(pipeline.run(event())).toBeNull();
+
+    pipeline.configure({});
+    expect(pipeline.run(event())).toEqual(event());
+  });
+});
@@ -0,0 +1,96 @@
+import { SajkoConfig, SajkoPayload, Middleware } from './types';
+import { logger, ScopedLogger } from './logger';
+
+/**
+ * MiddlewarePipeline - Runs events and traits through the filter, enrich
+ * and beforeSend hooks from the init() config before they reach SajkoReplay
+ */
+export class MiddlewarePipeline {
+  private filters: Array<(payload: SajkoPayload) => boolean> = [];
+  private enrichers: Array<(payload: SajkoPayload) => Record<string, any> | void> = [];
+  private beforeSend: Middleware[] = [];
+
+  constructor(config: Partial<SajkoConfig> = {}, private readonly log: ScopedLogger = logger.scope('core')) {
+    this.configure(config);
+  }
+
+  /**
+   * Replace the registered hooks with the ones from config
+   */
+  configure(config: Partial<SajkoConfig>): void {
+    this.filters = toArray(config.filter);
+    this.enrichers = toArray(config.enrich);
+    this.beforeSend = toArray(config.beforeSend);
+  }
+
+  /**
+   * Run a payload through the pipeline
+   *
+   * @returns The payload to send, or null if it was dropped
+   */
+  run(payload: SajkoPayload): SajkoPayload | null {
+    let current: SajkoPayload = clonePayload(payload);
+
+    for (const filter of this.filters) {
+      const keep = this.safely('filter', () => filter(current), true);
+      if (!keep) return null;
+    }
+
+    for (const enrich of this.enrichers) {
+      const extra = this.safely('enrich', () => enrich(current), undefined);
+      if (extra) {
+        current = withExtra(current, extra);
+      }
+    }
+
+    for (const middleware of this.beforeSend) {
+      const result = this.safely('beforeSend', () => middleware(current), current);
+      if (result === null || result === false) return null;
+      if (result) current = result;
+    }
+
+    return current;
+  }
+
+  private safely<T>(stage: string, fn: () => T, fallback: T): T {
+    try {
+      return fn();
+    } catch (error) {
+      // A broken hook should never take tracking (or the host app) down with it
+      this.log.warn(`${stage} middleware threw, skipping it`, { error });
+      return fallback;
+    }
+  }
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function clonePayload(payload: SajkoPayload): SajkoPayload {
+  return withExtra(payload, {});
+}
+
+/**
+ * Copy a payload, merging extra data into its properties, traits or
+ * error context (alias calls and Web Vitals carry none and are copied as is)
+ */
+function withExtra(payload: SajkoPayload, extra: Record<string, any>): SajkoPayload {
+  switch (payload.type) {
+    case 'track':
+      return { ...payload, properties: { ...extra, ...payload.properties } };
+    case 'identify':
+    case 'group':
+      return { ...payload, traits: { ...extra, ...payload.traits } };
+    case 'error':
+      return {
+        ...payload,
+        error: { ...payload.error, context: { ...extra, ...payload.error.context } }
+      };
+    case 'web_vital':
+      return { ...payload, metric: { ...payload.metric } };
+    case 'alias':
+      return { ...payload };
+  }
+}
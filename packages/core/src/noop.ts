@@ -0,0 +1,51 @@
+import { SajkoReplay, SajkoMetrics, ConsentState, CapturedError, WebVitalMetric } from './types';
+
+/**
+ * NoopReplay - SajkoReplay stand-in for environments without a DOM
+ *
+ * Returned by init() during server rendering so isomorphic code can call the
+ * same API everywhere. Every call is accepted and discarded.
+ */
+export class NoopReplay implements SajkoReplay {
+  sessionId: string = '';
+  isRecording: boolean = false;
+  version: string = '4.0.0-noop';
+  useWasm: boolean = false;
+
+  async start(): Promise<void> {}
+
+  stop(): void {}
+
+  async flush(): Promise<void> {}
+
+  trackEvent(_eventName: string, _data?: any, _timestamp?: number): void {}
+
+  identify(_userId: string, _traits?: any): void {}
+
+  alias(_userId: string, _previousId?: string | null): void {}
+
+  group(_groupId: string, _traits?: any): void {}
+
+  captureException(_error: CapturedError): void {}
+
+  reportWebVital(_metric: WebVitalMetric): void {}
+
+  reset(): void {}
+
+  startNewSession(): void {}
+
+  pause(_reason?: string): void {}
+
+  resume(): void {}
+
+  setConsent(_consent: ConsentState): void {}
+
+  getMetrics(): SajkoMetrics {
+    return {
+      sessionId: this.sessionId,
+      isRecording: false,
+      queueSize: 0,
+      hasWasm: false
+    };
+  }
+}
@@ -0,0 +1,188 @@
+import { SuperPropertiesConfig, PersistenceScope, StorageAdapter } from './types';
+import { logger, ScopedLogger } from './logger';
+import { IdentityStorage } from './storage';
+
+const DEFAULT_STORAGE_KEY = 'sajko_super_properties';
+
+interface Entry {
+  value: any;
+  /** Null until init() sets the default scope */
+  scope: PersistenceScope | null;
+}
+
+/**
+ * SuperProperties - Global properties merged into every event
+ *
+ * Each property lives for the page, the session or the visitor, kept in
+ * the storage backend chosen with the storage option (sessionStorage and
+ * localStorage by default). Nothing is read or written before init(), and
+ * properties registered before it without a scope take the configured
+ * default once it runs.
+ */
+export class SuperProperties {
+  private entries = new Map<string, Entry>();
+  private defaultScope: PersistenceScope = 'visitor';
+  private storageKey: string = DEFAULT_STORAGE_KEY;
+  private listeners = new Set<(properties: Record<string, any>) => void>();
+  // Null until configure() - the backend and key come from the init() config
+  private storage: IdentityStorage | null = null;
+
+  constructor(private readonly log: ScopedLogger = logger.scope('core')) {}
+
+  /**
+   * Apply settings from the init() config
+   *
+   * @param config - superProperties option from init()
+   * @param storage - Backends from the storage option
+   * @param namespace - Suffix for the default storage key, so isolated
+   * clients keep their properties apart from the host page's
+   */
+  configure(config: SuperPropertiesConfig = {}, storage: IdentityStorage, namespace?: string): void {
+    const storageKey =
+      config.storageKey || (namespace ? `${DEFAULT_STORAGE_KEY}:${namespace}` : DEFAULT_STORAGE_KEY);
+    if (storage !== this.storage || storageKey !== this.storageKey) {
+      this.storage = storage;
+      this.storageKey = storageKey;
+      this.load();
+    }
+    this.defaultScope = config.persistence || 'visitor';
+    this.write();
+  }
+
+  /**
+   * Set properties, replacing existing values
+   */
+  register(properties: Record<string, any>, scope?: PersistenceScope): void {
+    for (const [key, value] of Object.entries(properties)) {
+      this.entries.set(key, { value, scope: scope || null });
+    }
+    this.changed();
+  }
+
+  /**
+   * Set properties that are not set yet
+   */
+  registerOnce(properties: Record<string, any>, scope?: PersistenceScope): void {
+    for (const [key, value] of Object.entries(properties)) {
+      if (!this.entries.has(key)) {
+        this.entries.set(key, { value, scope: scope || null });
+      }
+    }
+    this.changed();
+  }
+
+  /**
+   * Remove a property from every scope
+   */
+  unregister(key: string): void {
+    if (this.entries.delete(key)) {
+      this.changed();
+    }
+  }
+
+  /**
+   * Drop properties kept for the session or visitor, e.g. when the user logs out
+   */
+  clearPersisted(): void {
+    for (const [key, entry] of this.entries) {
+      if (this.scopeOf(entry) !== 'page') {
+        this.entries.delete(key);
+      }
+    }
+    this.changed();
+  }
+
+  /**
+   * All current properties
+   */
+  get(): Record<string, any> {
+    const properties: Record<string, any> = {};
+    this.entries.forEach((entry, key) => {
+      properties[key] = entry.value;
+    });
+    return properties;
+  }
+
+  /**
+   * Listen for changes
+   */
+  subscribe(listener: (properties: Record<string, any>) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private changed(): void {
+    this.write();
+    const properties = this.get();
+    this.listeners.forEach(listener => {
+      try {
+        listener(properties);
+      } catch (error) {
+        this.log.warn('Super properties listener threw', { error });
+      }
+    });
+  }
+
+  private scopeOf(entry: Entry): PersistenceScope {
+    return entry.scope || this.defaultScope;
+  }
+
+  /**
+   * Read persisted properties, keeping values set on this page
+   */
+  private load(): void {
+    if (!this.storage) return;
+
+    const stored: Array<[string, Entry]> = [];
+    for (const scope of ['visitor', 'session'] as const) {
+      const values = read(this.storage[scope], keyFor(scope, this.storageKey));
+      for (const [key, value] of Object.entries(values)) {
+        stored.push([key, { value, scope }]);
+      }
+    }
+
+    const current = this.entries;
+    this.entries = new Map([...stored, ...current]);
+  }
+
+  private write(): void {
+    if (!this.storage) return;
+
+    const byScope: Record<'visitor' | 'session', Record<string, any>> = { visitor: {}, session: {} };
+    this.entries.forEach((entry, key) => {
+      const scope = this.scopeOf(entry);
+      if (scope !== 'page') {
+        byScope[scope][key] = entry.value;
+      }
+    });
+
+    save(this.storage.visitor, keyFor('visitor', this.storageKey), byScope.visitor);
+    save(this.storage.session, keyFor('session', this.storageKey), byScope.session);
+  }
+}
+
+// Cookies, memory and custom adapters hold both scopes in one namespace
+function keyFor(scope: 'visitor' | 'session', key: string): string {
+  return scope === 'session' ? `${key}:session` : key;
+}
+
+function read(storage: StorageAdapter, key: string): Record<string, any> {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+function save(storage: StorageAdapter, key: string, values: Record<string, any>): void {
+  try {
+    if (Object.keys(values).length === 0) {
+      storage.removeItem(key);
+    } else {
+      storage.setItem(key, JSON.stringify(values));
+    }
+  } catch {
+    // Storage full or unavailable - properties last for this page
+  }
+}
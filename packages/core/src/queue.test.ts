@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CommandQueue, QueuedCommand } from './queue';
+import { SajkoError } from './errors';
+import { SajkoLogger } from './logger';
+
+const quiet = new SajkoLogger();
+quiet.configure({ logLevel: 'silent' });
+const log = quiet.scope('core');
+
+/**
+ * A queued track() call that remembers how its promise settled
+ */
+function command(name: string) {
+  const queued: QueuedCommand & { settled?: 'resolved' | Error } = {
+    method: 'track',
+    args: [name],
+    timestamp: Date.now()
+  };
+  queued.resolve = () => { queued.settled = 'resolved'; };
+  queued.reject = (error) => { queued.settled = error as Error; };
+  return queued;
+}
+
+async function replayed(queue: CommandQueue): Promise<string[]> {
+  const names: string[] = [];
+  await queue.replay(queued => { names.push(queued.args[0]); });
+  return names;
+}
+
+describe('CommandQueue', () => {
+  let queue: CommandQueue;
+
+  beforeEach(() => {
+    queue = new CommandQueue({ maxSize: 2 }, log);
+  });
+
+  it('replays buffered commands in order and resolves them', async () => {
+    const first = command('first');
+    queue.enqueue(first);
+    queue.enqueue(command('second'));
+
+    expect(await replayed(queue)).toEqual(['first', 'second']);
+    expect(first.settled).toBe('resolved');
+    expect(queue.size).toBe(0);
+  });
+
+  it('drops the oldest command when full by default', async () => {
+    const first = command('first');
+    queue.enqueue(first);
+    queue.enqueue(command('second'));
+
+    expect(queue.enqueue(command('third'))).toBe(true);
+
+    expect(queue.droppedCount).toBe(1);
+    expect(first.settled).toBeInstanceOf(SajkoError);
+    expect(await replayed(queue)).toEqual(['second', 'third']);
+  });
+
+  it('drops the incoming command when full with dropPolicy newest', async () => {
+    queue.configure({ dropPolicy: 'newest' });
+    queue.enqueue(command('first'));
+    queue.enqueue(command('second'));
+
+    const third = command('third');
+    expect(queue.enqueue(third)).toBe(false);
+
+    expect(queue.droppedCount).toBe(1);
+    expect(third.settled).toBeInstanceOf(SajkoError);
+    expect(await replayed(queue)).toEqual(['first', 'second']);
+  });
+
+  it('trims buffered commands when maxSize shrinks', async () => {
+    const first = command('first');
+    queue.enqueue(first);
+    queue.enqueue(command('second'));
+
+    queue.configure({ maxSize: 1 });
+
+    expect(first.settled).toBeInstanceOf(SajkoError);
+    expect(await replayed(queue)).toEqual(['second']);
+  });
+
+  it('rejects pending commands with the reason on clear()', () => {
+    const first = command('first');
+    const second = command('second');
+    queue.enqueue(first);
+    queue.enqueue(second);
+
+    const reason = new SajkoError('CONSENT_DENIED', 'SAJKO: Tracking consent was denied');
+    queue.clear(reason);
+
+    expect(first.settled).toBe(reason);
+    expect(second.settled).toBe(reason);
+    expect(queue.size).toBe(0);
+  });
+
+  it('rejects with NOT_INITIALIZED when cleared without a reason', () => {
+    const first = command('first');
+    queue.enqueue(first);
+
+    queue.clear();
+
+    expect(first.settled).toBeInstanceOf(SajkoError);
+    expect((first.settled as SajkoError).code).toBe('NOT_INITIALIZED');
+  });
+});
@@ -0,0 +1,123 @@
+import { QueueConfig } from './types';
+import { logger, ScopedLogger } from './logger';
+import { SajkoError } from './errors';
+
+/**
+ * A call recorded before the replay script was available
+ */
+export interface QueuedCommand {
+  /** Method to invoke once SajkoReplay is ready */
+  method:
+    | 'track'
+    | 'identify'
+    | 'alias'
+    | 'group'
+    | 'captureException'
+    | 'webVital'
+    | 'reset'
+    | 'startNewSession'
+    | 'pause'
+    | 'resume'
+    | 'flush';
+  /** Arguments the method was called with */
+  args: any[];
+  /** When the call was made */
+  timestamp: number;
+  /** Settles the promise handed back to the caller (flush, reset, startNewSession) */
+  resolve?: () => void;
+  reject?: (error: unknown) => void;
+}
+
+/**
+ * CommandQueue - Buffers API calls made before init() resolves
+ * and replays them in order once SajkoReplay is available
+ */
+export class CommandQueue {
+  private commands: QueuedCommand[] = [];
+  private maxSize: number;
+  private dropPolicy: 'oldest' | 'newest';
+  private dropped: number = 0;
+
+  constructor(config: QueueConfig = {}, private readonly log: ScopedLogger = logger.scope('core')) {
+    this.maxSize = config.maxSize ?? 100;
+    this.dropPolicy = config.dropPolicy || 'oldest';
+  }
+
+  /**
+   * Update queue limits, trimming buffered commands if needed
+   */
+  configure(config: QueueConfig = {}): void {
+    this.maxSize = config.maxSize ?? this.maxSize;
+    this.dropPolicy = config.dropPolicy || this.dropPolicy;
+
+    while (this.commands.length > this.maxSize) {
+      this.drop(this.dropPolicy === 'oldest' ? this.commands.shift() : this.commands.pop());
+    }
+  }
+
+  /**
+   * Add a command to the queue
+   *
+   * @returns Whether the command was buffered
+   */
+  enqueue(command: QueuedCommand): boolean {
+    if (this.commands.length >= this.maxSize) {
+      if (this.dropPolicy === 'newest' || this.maxSize <= 0) {
+        this.drop(command);
+        return false;
+      }
+      this.drop(this.commands.shift());
+    }
+
+    this.commands.push(command);
+    return true;
+  }
+
+  /**
+   * Replay all buffered commands in order, including any queued while replaying
+   */
+  async replay(execute: (command: QueuedCommand) => void | Promise<void>): Promise<void> {
+    while (this.commands.length > 0) {
+      const command = this.commands.shift()!;
+
+      try {
+        await execute(command);
+        command.resolve?.();
+      } catch (error) {
+        this.log.warn(`Failed to replay queued ${command.method}`, { error });
+        command.reject?.(error);
+      }
+    }
+  }
+
+  /**
+   * Discard all buffered commands, rejecting pending flushes with the
+   * reason - they never ran
+   */
+  clear(reason: Error = new SajkoError('NOT_INITIALIZED', 'SAJKO: Unloaded before the queued call ran')): void {
+    this.commands.forEach(command => command.reject?.(reason));
+    this.commands = [];
+    this.dropped = 0;
+  }
+
+  /**
+   * Number of buffered commands
+   */
+  get size(): number {
+    return this.commands.length;
+  }
+
+  /**
+   * Number of commands dropped because the queue was full
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  private drop(command: QueuedCommand | undefined): void {
+    if (!command) return;
+    this.dropped++;
+    command.reject?.(new SajkoError('UNKNOWN', `SAJKO: Pre-init queue full (${this.maxSize}), ${command.method} call dropped`));
+    this.log.warn(`Pre-init queue full (${this.maxSize}), dropped ${command.method} call`, { dropped: this.dropped });
+  }
+}
@@ -0,0 +1,360 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SajkoConfig, SajkoReplay } from './types';
+
+// The CDN replay script the loader injects, run as the browser would
+const SCRIPT = readFileSync(resolve(__dirname, '../../../cdn/v4/sajko-replay.js'), 'utf8');
+
+// PerformanceObserver stand-in that lets the test deliver entries by type
+const observers = new Map<string, (list: { getEntries: () => PerformanceEntry[] }) => void>();
+
+class FakePerformanceObserver {
+  constructor(private readonly callback: (list: { getEntries: () => PerformanceEntry[] }) => void) {}
+
+  observe(options: { entryTypes: string[] }): void {
+    options.entryTypes.forEach(type => observers.set(type, this.callback));
+  }
+
+  disconnect(): void {}
+}
+
+function emit(type: string, entry: Record<string, unknown>): void {
+  observers.get(type)?.({ getEntries: () => [entry as unknown as PerformanceEntry] });
+}
+
+// The WASM bridge is not available in tests - events are sent as JSON
+class FakeWASMBridge {
+  isReady = false;
+  async initialize(): Promise<void> {}
+}
+
+describe('sajko-replay.js', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const requests = (path: string) => fetchMock.mock.calls
+    .filter(([url]) => String(url).endsWith(path))
+    .map(([, init]) => JSON.parse(init.body));
+
+  const sentEvents = () => requests('/events').flatMap(body => body.events);
+
+  /**
+   * One of each event that is analytics rather than replay
+   */
+  const sendAnalyticsEvents = (replay: SajkoReplay) => {
+    replay.trackEvent!('plan_selected', { plan: 'pro' });
+    replay.alias!('user-1', 'anon-1');
+    replay.group!('acme');
+    replay.captureException!(new Error('checkout failed'));
+    replay.reportWebVital!({ name: 'LCP', value: 1200, rating: 'good', id: 'v1', url: '/' });
+  };
+
+  /**
+   * Load the script with a config and wait until it exposes its API
+   */
+  async function load(config: Partial<SajkoConfig> = {}): Promise<SajkoReplay> {
+    window.sajkoConfig = {
+      websiteId: 'site-1',
+      apiEndpoint: 'https://api.example',
+      hasUserConsent: true,
+      logLevel: 'silent',
+      ...config
+    };
+    new Function(SCRIPT)();
+    await vi.advanceTimersByTimeAsync(100);
+    return window.SajkoReplay!;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    sessionStorage.clear();
+    observers.clear();
+    fetchMock = vi.fn(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('PerformanceObserver', FakePerformanceObserver);
+    vi.stubGlobal('WASMBridge', FakeWASMBridge);
+    (window as any).Go = function Go() {};
+  });
+
+  afterEach(() => {
+    window.SajkoReplay?.stop();
+    delete (window as any).__sajkoRecorderV4Instance;
+    delete window.SajkoReplay;
+    delete window.sajkoConfig;
+    // Drops the recorder's batch and heartbeat timers with the fakes
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('pause()', () => {
+    it('records no api_call for a fetch made while paused', async () => {
+      const replay = await load();
+
+      replay.pause!('payment');
+      await fetch('https://shop.example/api/pay', { method: 'POST' });
+      // Reported by the browser once the call finished
+      emit('resource', { name: 'https://shop.example/api/pay', initiatorType: 'fetch', duration: 120, transferSize: 300 });
+      replay.resume!();
+
+      await fetch('https://shop.example/api/cart');
+      emit('resource', { name: 'https://shop.example/api/cart', initiatorType: 'fetch', duration: 80, transferSize: 200 });
+      await replay.flush();
+
+      const calls = sentEvents().filter(event => event.type === 'api_call');
+      expect(calls.map(event => event.data.url)).toEqual(['https://shop.example/api/cart']);
+    });
+
+    it('records no api_call for a fetch made while paused with network capture', async () => {
+      const replay = await load({ network: { allowUrls: ['shop.example'] } });
+
+      replay.pause!('payment');
+      await window.fetch('https://shop.example/api/pay', { method: 'POST' });
+      replay.resume!();
+
+      await window.fetch('https://shop.example/api/cart');
+      await replay.flush();
+
+      const calls = sentEvents().filter(event => event.type === 'api_call');
+      expect(calls.map(event => event.data.url)).toEqual(['https://shop.example/api/cart']);
+    });
+  });
+
+  describe('consent', () => {
+    const ANALYTICS_ONLY = { analytics: true, replay: false, marketing: false };
+
+    it('sends events but records nothing with analytics consent only', async () => {
+      const replay = await load({ hasUserConsent: false, consent: { defaults: ANALYTICS_ONLY } });
+      expect(replay.isRecording).toBe(false);
+
+      sendAnalyticsEvents(replay);
+      await replay.flush();
+
+      expect(requests('/session-replay')).toHaveLength(1);
+      expect(requests('/flows/track').map(body => body.eventType)).toEqual(['page_view']);
+      expect(sentEvents().map(event => event.type))
+        .toEqual(['custom_event', 'alias', 'group', 'error', 'web_vital']);
+    });
+
+    it('keeps sending events after replay consent is revoked', async () => {
+      const replay = await load();
+      await replay.setConsent!(ANALYTICS_ONLY);
+      expect(replay.isRecording).toBe(false);
+      // The recording's last batch still goes out on stop()
+      await vi.waitFor(() => expect(sentEvents().map(event => event.type)).toContain('dom_snapshot'));
+      fetchMock.mockClear();
+
+      sendAnalyticsEvents(replay);
+      await replay.flush();
+
+      expect(requests('/session-replay')).toHaveLength(0);
+      expect(sentEvents().map(event => event.type))
+        .toEqual(['custom_event', 'alias', 'group', 'error', 'web_vital']);
+    });
+
+    it('sends nothing without analytics consent', async () => {
+      const replay = await load({ hasUserConsent: false });
+
+      sendAnalyticsEvents(replay);
+      await replay.flush();
+      await replay.setConsent!({ analytics: false, replay: false, marketing: false });
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sampling', () => {
+    const ANALYTICS_EVENTS = ['custom_event', 'alias', 'group', 'error', 'web_vital'];
+
+    it('sends events but records nothing for an unsampled session with alwaysTrackEvents', async () => {
+      const replay = await load({ sampling: { sessionRate: 0, alwaysTrackEvents: true } });
+      expect(replay.isRecording).toBe(false);
+
+      sendAnalyticsEvents(replay);
+      await replay.flush();
+
+      expect(sentEvents().map(event => event.type)).toEqual(ANALYTICS_EVENTS);
+    });
+
+    it('keeps sending events when the session is no longer sampled', async () => {
+      const replay = await load({ sampling: { sessionRate: 1, alwaysTrackEvents: true } });
+      expect(replay.isRecording).toBe(true);
+
+      await replay.setSampling!({ sessionSampled: false, replaySampled: false, sessionRate: 0, replayRate: 1, rule: null });
+      expect(replay.isRecording).toBe(false);
+      // The recording's last batch still goes out on stop()
+      await vi.waitFor(() => expect(sentEvents().map(event => event.type)).toContain('dom_snapshot'));
+      fetchMock.mockClear();
+
+      sendAnalyticsEvents(replay);
+      await replay.flush();
+
+      expect(sentEvents().map(event => event.type)).toEqual(ANALYTICS_EVENTS);
+    });
+
+    it('sends no events for an unsampled session by default', async () => {
+      const replay = await load({ sampling: { sessionRate: 0 } });
+
+      sendAnalyticsEvents(replay);
+      await replay.flush();
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('privacy signals', () => {
+    beforeEach(() => {
+      Object.defineProperty(navigator, 'globalPrivacyControl', { value: true, configurable: true });
+    });
+
+    afterEach(() => {
+      delete (navigator as any).globalPrivacyControl;
+    });
+
+    it('sends events without replay or a visitor ID with \'anonymous\'', async () => {
+      const replay = await load({ respectPrivacySignals: 'anonymous' });
+      expect(replay.isRecording).toBe(false);
+
+      sendAnalyticsEvents(replay);
+      await replay.flush();
+
+      expect(replay.visitorId).toBeNull();
+      expect(localStorage.getItem('sajko_visitor_id')).toBeNull();
+      expect(requests('/session-replay')[0].visitorId).toBeNull();
+      // identify, alias and group are dropped, as in the core
+      expect(sentEvents().map(event => event.type)).toEqual(['custom_event', 'error', 'web_vital']);
+    });
+
+    it('keeps replay off when consent is granted with \'anonymous\'', async () => {
+      const replay = await load({ respectPrivacySignals: 'anonymous' });
+
+      await replay.setConsent!({ analytics: true, replay: true, marketing: true });
+
+      expect(replay.isRecording).toBe(false);
+    });
+
+    it('sends nothing when signals block tracking', async () => {
+      const replay = await load({ respectPrivacySignals: true });
+
+      sendAnalyticsEvents(replay);
+      await replay.flush();
+
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cross-domain links', () => {
+    let keys: CryptoKeyPair;
+    let publicKey: string;
+
+    const base64Url = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+    // Ties the linker to the browser, computed as the script does
+    const browserTag = () => {
+      const input = `${navigator.userAgent}|${navigator.language}`;
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+      }
+      return (hash >>> 0).toString(36);
+    };
+
+    const payload = (overrides: Record<string, unknown> = {}) => ({
+      w: 'site-1',
+      v: 'visitor-linked',
+      s: 'session-linked',
+      f: 'shop.example',
+      t: Date.now(),
+      b: browserTag(),
+      ...overrides
+    });
+
+    /**
+     * Linker as the API issues it, signed with the site's private key
+     */
+    async function sign(data: Record<string, unknown>, key = keys.privateKey): Promise<string> {
+      const signed = `2.${base64Url(new TextEncoder().encode(JSON.stringify(data)))}`;
+      const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, new TextEncoder().encode(signed));
+      return `${signed}.${base64Url(new Uint8Array(signature))}`;
+    }
+
+    /**
+     * Land on the checkout with a linker and wait until the session exists
+     */
+    async function visit(linker: string): Promise<SajkoReplay> {
+      history.replaceState(null, '', `/checkout?_sajko=${encodeURIComponent(linker)}`);
+      const replay = await load({ crossDomain: { domains: ['shop.example'], publicKey } });
+      await vi.waitFor(() => expect(requests('/session-replay')).toHaveLength(1));
+      return replay;
+    }
+
+    beforeEach(async () => {
+      keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+      publicKey = base64Url(new Uint8Array(await crypto.subtle.exportKey('spki', keys.publicKey)));
+    });
+
+    afterEach(() => {
+      history.replaceState(null, '', '/');
+    });
+
+    it('adopts the IDs from a signed link and strips the parameter', async () => {
+      const replay = await visit(await sign(payload()));
+
+      expect(requests('/session-replay')[0]).toMatchObject({ visitorId: 'visitor-linked', sessionId: 'session-linked' });
+      expect(replay.getMetrics().crossDomain).toMatchObject({ linked: true, from: 'shop.example' });
+      expect(location.search).toBe('');
+    });
+
+    it.each([
+      ['a tampered link', async () => {
+        const [version, , signature] = (await sign(payload())).split('.');
+        const forged = base64Url(new TextEncoder().encode(JSON.stringify(payload({ v: 'visitor-attacker', s: 'session-attacker' }))));
+        return `${version}.${forged}.${signature}`;
+      }],
+      ['a link signed with another key', async () => {
+        const other = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+        return sign(payload({ v: 'visitor-attacker', s: 'session-attacker' }), other.privateKey);
+      }],
+      ['an expired link', () => sign(payload({ t: Date.now() - 121000 }))],
+      ['a link for another site', () => sign(payload({ w: 'site-2' }))],
+      ['a link from another browser', () => sign(payload({ b: 'other-browser' }))],
+      ['an unsigned link', async () => `1.${base64Url(new TextEncoder().encode(JSON.stringify(payload())))}.abc`]
+    ])('rejects %s', async (_kind, linker) => {
+      const replay = await visit(await linker());
+
+      const session = requests('/session-replay')[0];
+      expect(session.visitorId).not.toMatch(/linked|attacker/);
+      expect(session.sessionId).not.toMatch(/linked|attacker/);
+      expect(replay.getMetrics().crossDomain).toEqual({ linked: false });
+      expect(location.search).toBe('');
+    });
+
+    it('decorates links to the other domains with a linker from the API', async () => {
+      fetchMock.mockImplementation(async (url: string) => String(url).endsWith('/cross-domain/linker')
+        ? new Response(JSON.stringify({ linker: 'signed-linker' }), { status: 200 })
+        : new Response('{}', { status: 200 }));
+      const replay = await load({ crossDomain: { domains: ['checkout.example'], publicKey } });
+
+      const link = document.createElement('a');
+      link.href = 'https://checkout.example/pay';
+      document.body.appendChild(link);
+      await vi.waitFor(() => {
+        link.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+        expect(link.href).toBe('https://checkout.example/pay?_sajko=signed-linker');
+      });
+      link.remove();
+
+      expect(requests('/cross-domain/linker')[0]).toMatchObject({
+        websiteId: 'site-1',
+        visitorId: replay.visitorId,
+        sessionId: replay.sessionId,
+        browser: browserTag()
+      });
+    });
+  });
+});
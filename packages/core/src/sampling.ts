@@ -0,0 +1,147 @@
+import { SamplingConfig, SamplingDecision, SamplingRule } from './types';
+
+/**
+ * Sampler - Decides whether the current visitor is tracked and recorded
+ *
+ * The decision hashes the visitorId, so a visitor stays in or out of the
+ * sample across page loads and sessions. Rules are matched against the
+ * landing page and whether the visitor has been identified.
+ */
+export class Sampler {
+  private config: SamplingConfig | null = null;
+  private visitorId: string | null = null;
+  private url: string = '';
+  private identified: boolean = false;
+  private current: SamplingDecision | null = null;
+
+  /**
+   * Apply sampling settings from the init() config
+   */
+  configure(config?: SamplingConfig): void {
+    this.config = config || null;
+    this.current = null;
+  }
+
+  /**
+   * Decide for a visitor on the given landing page
+   */
+  evaluate(visitorId: string | undefined, url: string): SamplingDecision | null {
+    this.visitorId = visitorId || null;
+    this.url = url;
+    this.current = this.decide();
+    return this.current;
+  }
+
+  /**
+   * Mark the visitor as identified and decide again
+   *
+   * @returns The new decision when it changed, otherwise null
+   */
+  identify(): SamplingDecision | null {
+    if (this.identified) return null;
+    this.identified = true;
+
+    const previous = this.current;
+    if (!previous) return null;
+
+    this.current = this.decide();
+    return this.current && !isSame(previous, this.current) ? this.current : null;
+  }
+
+  /**
+   * Forget that the visitor was identified, e.g. on logout
+   */
+  reset(): void {
+    this.identified = false;
+  }
+
+  /**
+   * Current decision, or null until evaluate() ran or without sampling config
+   */
+  get decision(): SamplingDecision | null {
+    return this.current;
+  }
+
+  /**
+   * Whether custom events and identify calls should be sent
+   */
+  allowsEvents(): boolean {
+    return !this.current || this.current.sessionSampled || !!this.config?.alwaysTrackEvents;
+  }
+
+  private decide(): SamplingDecision | null {
+    if (!this.config) return null;
+
+    const index = (this.config.rules || []).findIndex(rule => this.matches(rule));
+    const rule = index >= 0 ? this.config.rules![index] : null;
+
+    const sessionRate = clamp(rule?.sessionRate ?? this.config.sessionRate ?? 1);
+    const replayRate = clamp(rule?.replayRate ?? this.config.replayRate ?? 1);
+
+    // Visitors without an ID yet can only be sampled by a rate of 1
+    const sessionSampled = this.visitorId
+      ? bucket(this.visitorId) < sessionRate
+      : sessionRate >= 1;
+    // Separate bucket so replay is not only ever recorded for the lowest session buckets
+    const replaySampled = sessionSampled && (this.visitorId
+      ? bucket(`${this.visitorId}:replay`) < replayRate
+      : replayRate >= 1);
+
+    return {
+      sessionSampled,
+      replaySampled,
+      sessionRate,
+      replayRate,
+      rule: index >= 0 ? index : null
+    };
+  }
+
+  private matches(rule: SamplingRule): boolean {
+    if (rule.identified !== undefined && rule.identified !== this.identified) {
+      return false;
+    }
+    if (rule.url !== undefined && !matchesUrl(rule.url, this.url)) {
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Map an ID to a stable number in [0, 1) - FNV-1a, matching the replay script
+ */
+function bucket(id: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+function matchesUrl(pattern: string | RegExp, url: string): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(url);
+  }
+
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    // Already a path
+  }
+
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(path);
+}
+
+function clamp(rate: number): number {
+  return Math.min(1, Math.max(0, rate));
+}
+
+function isSame(a: SamplingDecision, b: SamplingDecision): boolean {
+  return a.sessionSampled === b.sessionSampled && a.replaySampled === b.replaySampled;
+}
@@ -0,0 +1,286 @@
+import { ScrubConfig, PIIDetector, ScrubAction, SajkoPayload } from './types';
+
+const MAX_DEPTH = 10;
+
+// Keys whose values are secrets whatever they look like
+const DEFAULT_DENY_KEYS: RegExp[] = [
+  /passw(or)?d/i,
+  /secret/i,
+  /token$/i,
+  /api_?key/i,
+  /^authorization$/i,
+  /^(ssn|cvv|cvc)$/i,
+  /card_?number/i
+];
+
+interface Detector {
+  pattern: RegExp;
+  /**
+   * The pattern's first group is the character before the match (a
+   * lookbehind would not parse in older Safari) and its second the match
+   */
+  prefixed?: boolean;
+  /** Rejects matches that only look like PII */
+  verify?: (match: string) => boolean;
+}
+
+const DETECTORS: Record<PIIDetector, Detector> = {
+  email: {
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi
+  },
+  jwt: {
+    pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g
+  },
+  iban: {
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    verify: isValidIban
+  },
+  card: {
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    verify: passesLuhn
+  },
+  phone: {
+    pattern: /(^|[^\w+.-])((?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]\d{2,4}){1,4})(?![\w.-])/g,
+    prefixed: true,
+    verify: isPhoneNumber
+  }
+};
+
+// Cards and IBANs first, so their digits are not taken for phone numbers
+const DETECTOR_ORDER: PIIDetector[] = ['email', 'jwt', 'iban', 'card', 'phone'];
+
+// Phone numbers have no checksum, so any separated run of 9-15 digits
+// (order numbers, SKUs, tracking codes) would match - only on request
+const DEFAULT_DETECTORS: PIIDetector[] = ['email', 'jwt', 'iban', 'card'];
+
+/**
+ * Scrubber - Removes personal data from event properties, traits and
+ * error context before they leave the page
+ *
+ * String values are searched with the built-in detectors and custom
+ * patterns; values under denied keys are replaced whatever they contain.
+ * User and group IDs are identifiers on purpose and left alone.
+ */
+export class Scrubber {
+  private config: ScrubConfig | null = null;
+
+  /**
+   * Apply scrubbing settings from the init() config
+   */
+  configure(config?: ScrubConfig): void {
+    this.config = config || null;
+  }
+
+  /**
+   * Scrub a payload's properties, traits or error context
+   */
+  scrubPayload(payload: SajkoPayload): SajkoPayload {
+    if (!this.config) return payload;
+
+    switch (payload.type) {
+      case 'track':
+        return { ...payload, properties: this.scrubObject(payload.properties) };
+      case 'identify':
+      case 'group':
+        return { ...payload, traits: this.scrubObject(payload.traits) };
+      case 'error': {
+        const message = this.scrubString(payload.error.message);
+        return {
+          ...payload,
+          error: {
+            ...payload.error,
+            message: message === undefined ? '[REDACTED]' : message,
+            context: this.scrubObject(payload.error.context)
+          }
+        };
+      }
+      default:
+        return payload;
+    }
+  }
+
+  /**
+   * Scrub every value of an object, dropping keys when the action is 'drop'
+   */
+  scrubObject<T extends Record<string, any>>(object: T): T {
+    if (!this.config) return object;
+    return this.scrubValue(object, 0, new WeakSet()) as T;
+  }
+
+  private scrubValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return this.scrubString(value);
+    }
+    if (typeof value !== 'object' || value === null || depth > MAX_DEPTH) {
+      return value;
+    }
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value
+        .map(item => this.scrubValue(item, depth + 1, seen))
+        .filter(item => item !== undefined);
+    }
+
+    // Dates, class instances and the like are sent as they are
+    if (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null) {
+      return value;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (this.matchesKey(key, this.config!.allowKeys)) {
+        result[key] = item;
+        continue;
+      }
+
+      const scrubbed = this.isDenied(key)
+        ? this.replace(item)
+        : this.scrubValue(item, depth + 1, seen);
+      if (scrubbed !== undefined) {
+        result[key] = scrubbed;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Scrub PII inside a string
+   *
+   * @returns The scrubbed string, or undefined when the action is 'drop'
+   * and the string contained PII
+   */
+  private scrubString(value: string): string | undefined {
+    let found = false;
+    let result = value;
+
+    for (const name of this.detectors()) {
+      const { pattern, prefixed, verify } = DETECTORS[name];
+      result = result.replace(pattern, (whole: string, ...groups: string[]) => {
+        const [prefix, match] = prefixed ? [groups[0], groups[1]] : ['', whole];
+        if (verify && !verify(match)) return whole;
+        found = true;
+        return prefix + this.replacement(match, name);
+      });
+    }
+
+    for (const custom of this.config!.patterns || []) {
+      const pattern = typeof custom === 'string'
+        ? new RegExp(escapeRegExp(custom), 'g')
+        : new RegExp(custom.source, custom.flags.includes('g') ? custom.flags : custom.flags + 'g');
+      result = result.replace(pattern, (match) => {
+        found = true;
+        return this.replacement(match, 'pattern');
+      });
+    }
+
+    return found && this.action === 'drop' ? undefined : result;
+  }
+
+  /**
+   * Replace a whole value under a denied key
+   */
+  private replace(value: unknown): string | undefined {
+    switch (this.action) {
+      case 'drop':
+        return undefined;
+      case 'hash':
+        return `[hash:${hash(typeof value === 'string' ? value : JSON.stringify(value) ?? String(value))}]`;
+      default:
+        return '[REDACTED]';
+    }
+  }
+
+  private replacement(match: string, kind: string): string {
+    return this.action === 'hash' ? `[hash:${hash(match)}]` : `[REDACTED:${kind}]`;
+  }
+
+  private isDenied(key: string): boolean {
+    return DEFAULT_DENY_KEYS.some(pattern => pattern.test(key))
+      || this.matchesKey(key, this.config!.denyKeys);
+  }
+
+  private matchesKey(key: string, patterns?: Array<string | RegExp>): boolean {
+    if (!patterns) return false;
+    const normalized = normalizeKey(key);
+    return patterns.some(pattern =>
+      typeof pattern === 'string' ? normalizeKey(pattern) === normalized : pattern.test(key)
+    );
+  }
+
+  private detectors(): PIIDetector[] {
+    const enabled = this.config!.detectors;
+    return DETECTOR_ORDER.filter(name => (enabled || DEFAULT_DETECTORS).includes(name));
+  }
+
+  private get action(): ScrubAction {
+    return this.config?.action || 'redact';
+  }
+}
+
+/**
+ * 'user_email', 'userEmail' and 'User-Email' are the same key
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 53-bit string hash (cyrb53) - stable across page loads, so hashed values
+ * can still be counted and joined. Not a cryptographic hash: a short value
+ * such as an email is found again by hashing candidates.
+ */
+function hash(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isValidIban(match: string): boolean {
+  const iban = match.replace(/ /g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  // Move the country code and check digits to the end, letters to numbers, mod 97
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function isPhoneNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '').length;
+  // IPv4 addresses and dates have the right shape but are not phone numbers
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(match) || /^\d{4}-\d{2}-\d{2}$/.test(match)) return false;
+  return digits >= 9 && digits <= 15;
+}
@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StandaloneReplay } from './standalone';
+import { SajkoLogger } from './logger';
+import { SajkoConfig } from './types';
+
+const quiet = new SajkoLogger();
+quiet.configure({ logLevel: 'silent' });
+
+const CONFIG: SajkoConfig = {
+  websiteId: 'widget-site',
+  apiEndpoint: 'https://widget.example'
+};
+
+describe('StandaloneReplay', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let replay: StandaloneReplay;
+
+  const eventBatches = () => fetchMock.mock.calls
+    .filter(([url]) => String(url).endsWith('/events'))
+    .map(([, init]) => JSON.parse(init.body).events.map((event: any) => event.data.name));
+
+  const start = async (config: Partial<SajkoConfig> = {}) => {
+    replay = new StandaloneReplay({ ...CONFIG, ...config }, quiet.scope('core'));
+    await replay.start();
+    return replay;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    fetchMock = vi.fn(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    replay?.stop();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('sends queued events when the page is hidden or left', async () => {
+    await start();
+
+    replay.trackEvent('widget_opened');
+    window.dispatchEvent(new Event('pagehide'));
+    await vi.waitFor(() => expect(eventBatches()).toEqual([['widget_opened']]));
+
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+    replay.trackEvent('widget_closed');
+    document.dispatchEvent(new Event('visibilitychange'));
+    await vi.waitFor(() => expect(eventBatches()).toEqual([['widget_opened'], ['widget_closed']]));
+  });
+
+  it('stops listening for pagehide on stop()', async () => {
+    await start();
+    replay.stop();
+    fetchMock.mockClear();
+
+    window.dispatchEvent(new Event('pagehide'));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('writes session activity once per flush instead of per event', async () => {
+    await start();
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+
+    ['first', 'second', 'third'].forEach(name => replay.trackEvent(name));
+    expect(setItem).not.toHaveBeenCalled();
+
+    await replay.flush();
+
+    const writes = setItem.mock.calls.filter(([key]) => key === 'sajko_client_session:widget-site');
+    expect(writes).toHaveLength(1);
+    expect(JSON.parse(writes[0][1]).id).toBe(replay.sessionId);
+  });
+
+  it('keeps at most maxQueueSize events while the endpoint is down, dropping the oldest', async () => {
+    await start({ performance: { maxQueueSize: 3 } });
+    fetchMock.mockImplementation(async () => new Response('{}', { status: 503 }));
+
+    ['first', 'second', 'third'].forEach(name => replay.trackEvent(name));
+    await expect(replay.flush()).rejects.toThrow();
+    ['fourth', 'fifth'].forEach(name => replay.trackEvent(name));
+    expect(replay.getMetrics().queueSize).toBe(3);
+
+    fetchMock.mockImplementation(async () => new Response('{}', { status: 200 }));
+    fetchMock.mockClear();
+    await replay.flush();
+
+    expect(eventBatches()).toEqual([['third', 'fourth', 'fifth']]);
+  });
+});
@@ -0,0 +1,439 @@
+import {
+  SajkoConfig,
+  SajkoReplay,
+  SajkoMetrics,
+  ConsentState,
+  CapturedError,
+  WebVitalMetric,
+  SajkoEvents,
+  SajkoEventName,
+  SajkoEventHandler,
+  SessionConfig,
+  SessionChangeReason
+} from './types';
+import { EventEmitter } from './emitter';
+import { createIdentityStorage, IdentityStorage } from './storage';
+import { logger, ScopedLogger } from './logger';
+
+const DEFAULT_API_ENDPOINT = 'https://api.sajko.ai';
+const DEFAULT_INACTIVITY_TIMEOUT = 30 * 60 * 1000;
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+
+interface StoredSession {
+  id: string;
+  created: number;
+  lastActivity?: number;
+  utm?: string | null;
+}
+
+/**
+ * StandaloneReplay - Events-only SajkoReplay used by isolated clients
+ *
+ * Sends custom events and identify calls straight to the client's own
+ * endpoint with its own session and visitor IDs, without touching the
+ * page-global replay script. DOM recording is not available here: only one
+ * recorder can run per page.
+ */
+export class StandaloneReplay implements SajkoReplay {
+  sessionId: string;
+  visitorId: string;
+  isRecording: boolean = false;
+  version: string = '4.0.0-standalone';
+  useWasm: boolean = false;
+
+  private config: SajkoConfig;
+  private queue: any[] = [];
+  private batchTimer: ReturnType<typeof setInterval> | null = null;
+  private sessionPromise: Promise<void> | null = null;
+  private events = new EventEmitter<SajkoEvents>();
+  private storage: IdentityStorage;
+  private session!: StoredSession;
+  private rotating: Promise<void> | null = null;
+  private dropped: number = 0;
+  private sessionDirty: boolean = false;
+
+  constructor(config: SajkoConfig, private readonly log: ScopedLogger = logger.scope('core')) {
+    this.config = config;
+    this.storage = createIdentityStorage(config.storage);
+    this.sessionId = this.getOrCreateSessionId();
+    this.visitorId = this.getOrCreateVisitorId();
+  }
+
+  /**
+   * Start capturing events and the batch timer
+   */
+  async start(): Promise<void> {
+    if (this.isRecording) return;
+
+    this.isRecording = true;
+    this.batchTimer = setInterval(() => {
+      this.flush().catch(() => {
+        // Failed batches are re-queued by flush()
+      });
+    }, this.config.performance?.batchIntervalMs || 8000);
+
+    // The page may not come back - send what is queued while it still can
+    window.addEventListener('pagehide', this.flushOnHide);
+    document.addEventListener('visibilitychange', this.flushOnHide);
+
+    this.events.emit('recording_started', { sessionId: this.sessionId });
+  }
+
+  /**
+   * Stop capturing and send what is left
+   */
+  stop(): void {
+    if (this.isRecording) {
+      this.events.emit('recording_stopped', { sessionId: this.sessionId });
+    }
+    this.isRecording = false;
+
+    if (this.batchTimer) {
+      clearInterval(this.batchTimer);
+      this.batchTimer = null;
+    }
+
+    window.removeEventListener('pagehide', this.flushOnHide);
+    document.removeEventListener('visibilitychange', this.flushOnHide);
+
+    this.flush().catch(() => {
+      // Nothing else to do on shutdown
+    });
+  }
+
+  /**
+   * Send queued events to the server
+   */
+  async flush(): Promise<void> {
+    this.saveSession();
+    if (this.queue.length === 0) return;
+
+    const events = this.queue;
+    this.queue = [];
+
+    try {
+      await this.ensureSession();
+
+      const response = await fetch(`${this.apiEndpoint}/api/session-replay/${this.sessionId}/events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ events }),
+        keepalive: true
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to send events: ${response.status}`);
+      }
+
+      this.events.emit('flush_succeeded', { eventCount: events.length });
+    } catch (error) {
+      // Keep the batch for the next attempt
+      this.queue = [...events, ...this.queue];
+      this.trimQueue();
+      this.events.emit('flush_failed', { eventCount: events.length, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a custom event
+   */
+  trackEvent(eventName: string, data?: any, timestamp?: number): void {
+    this.push({
+      type: 'custom_event',
+      timestamp: timestamp ?? Date.now(),
+      data: {
+        name: eventName,
+        properties: data || {},
+        pageUrl: typeof location !== 'undefined' ? location.href : undefined
+      }
+    });
+  }
+
+  /**
+   * Queue an identify call
+   */
+  identify(userId: string, traits?: any): void {
+    this.push({
+      type: 'identify',
+      timestamp: Date.now(),
+      data: { userId, traits: traits || {} }
+    });
+  }
+
+  /**
+   * Queue an alias call linking the previous ID to the user
+   */
+  alias(userId: string, previousId?: string | null): void {
+    this.push({
+      type: 'alias',
+      timestamp: Date.now(),
+      data: { userId, previousId: previousId || this.visitorId }
+    });
+  }
+
+  /**
+   * Queue a group call
+   */
+  group(groupId: string, traits?: any): void {
+    this.push({
+      type: 'group',
+      timestamp: Date.now(),
+      data: { groupId, traits: traits || {} }
+    });
+  }
+
+  /**
+   * Queue a captured error
+   */
+  captureException(error: CapturedError): void {
+    this.push({
+      type: 'error',
+      timestamp: Date.now(),
+      data: error
+    });
+  }
+
+  /**
+   * Queue a Web Vitals measurement
+   */
+  reportWebVital(metric: WebVitalMetric): void {
+    this.push({
+      type: 'web_vital',
+      timestamp: Date.now(),
+      data: metric
+    });
+  }
+
+  /**
+   * Send what belongs to the current user, then start over with new
+   * visitor and session IDs
+   */
+  async reset(): Promise<void> {
+    await this.flush().catch(() => {});
+    // Failed batches are not retried under the new IDs
+    this.queue = [];
+
+    const previousSessionId = this.sessionId;
+    this.storage.visitor.removeItem(`sajko_client_visitor:${this.config.websiteId}`);
+    this.storage.session.removeItem(`sajko_client_session:${this.config.websiteId}`);
+    this.sessionId = this.getOrCreateSessionId();
+    this.visitorId = this.getOrCreateVisitorId();
+    this.sessionPromise = null;
+
+    this.events.emit('session_rotated', { sessionId: this.sessionId, previousSessionId, reason: 'reset' });
+  }
+
+  /**
+   * Send what belongs to the current session, then start a new one for
+   * the same visitor
+   */
+  startNewSession(reason: SessionChangeReason = 'manual'): Promise<void> {
+    if (this.rotating) return this.rotating;
+
+    this.rotating = (async () => {
+      await this.flush().catch(() => {});
+      this.queue = [];
+
+      const previousSessionId = this.sessionId;
+      this.storage.session.removeItem(`sajko_client_session:${this.config.websiteId}`);
+      this.sessionId = this.getOrCreateSessionId();
+      this.sessionPromise = null;
+
+      this.events.emit('session_rotated', { sessionId: this.sessionId, previousSessionId, reason });
+    })().finally(() => {
+      this.rotating = null;
+    });
+    return this.rotating;
+  }
+
+  /**
+   * Consent is enforced by the client; there is no DOM recording to toggle
+   */
+  setConsent(_consent: ConsentState): void {}
+
+  /**
+   * Subscribe to lifecycle events
+   */
+  on<K extends SajkoEventName>(event: K, handler: SajkoEventHandler<K>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): SajkoMetrics {
+    return {
+      sessionId: this.sessionId,
+      isRecording: this.isRecording,
+      queueSize: this.queue.length,
+      hasWasm: false
+    };
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<SajkoConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  private get apiEndpoint(): string {
+    return this.config.apiEndpoint || DEFAULT_API_ENDPOINT;
+  }
+
+  private flushOnHide = (event: Event): void => {
+    if (event.type === 'visibilitychange' && document.visibilityState !== 'hidden') return;
+
+    this.flush().catch(() => {
+      // Failed batches are re-queued by flush()
+    });
+  };
+
+  /**
+   * Drop the oldest events beyond performance.maxQueueSize, so an
+   * unreachable endpoint cannot grow the queue without bound
+   */
+  private trimQueue(): void {
+    const overflow = this.queue.length - (this.config.performance?.maxQueueSize || DEFAULT_MAX_QUEUE_SIZE);
+    if (overflow <= 0) return;
+
+    this.queue.splice(0, overflow);
+    this.dropped += overflow;
+    this.log.warn(`Queue full, dropped ${overflow} oldest events`, { dropped: this.dropped });
+  }
+
+  private push(event: any): void {
+    if (!this.isRecording) return;
+
+    // Events after a long pause belong to a new session
+    const reason = this.rotating ? null : sessionExpiry(this.session, this.config.session, Date.now());
+    if (reason) {
+      this.startNewSession(reason);
+    }
+    if (this.rotating) {
+      this.rotating.then(() => this.push(event));
+      return;
+    }
+
+    this.touchSession();
+    this.queue.push(event);
+    this.trimQueue();
+
+    if (this.queue.length >= (this.config.performance?.eventQueueSize || 50)) {
+      this.flush().catch(() => {
+        // Failed batches are re-queued by flush()
+      });
+    }
+  }
+
+  /**
+   * Create the server-side session once, before the first batch
+   */
+  private ensureSession(): Promise<void> {
+    if (!this.sessionPromise) {
+      this.sessionPromise = fetch(`${this.apiEndpoint}/api/session-replay`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        },
+        // A batch sent on pagehide may be the first
+        keepalive: true,
+        body: JSON.stringify({
+          sessionId: this.sessionId,
+          visitorId: this.visitorId,
+          websiteId: this.config.websiteId,
+          startTime: new Date().toISOString(),
+          initialUrl: typeof location !== 'undefined' ? location.href : undefined
+        })
+      }).then((response) => {
+        if (!response.ok) {
+          throw new Error(`Session creation failed: ${response.status}`);
+        }
+      }).catch((error) => {
+        this.sessionPromise = null;
+        throw error;
+      });
+    }
+    return this.sessionPromise;
+  }
+
+  // Keys are namespaced by website so an isolated client never shares IDs
+  // with the host page's recorder
+
+  private getOrCreateSessionId(): string {
+    const key = `sajko_client_session:${this.config.websiteId}`;
+    const now = Date.now();
+    const utm = currentUtm();
+    const stored = this.storage.session.getItem(key);
+    if (stored) {
+      try {
+        const session: StoredSession = JSON.parse(stored);
+        const campaignChanged = this.config.session?.rotateOnUtmChange && utm && utm !== session.utm;
+        if (!sessionExpiry(session, this.config.session, now) && !campaignChanged) {
+          this.session = session;
+          this.touchSession();
+          this.saveSession();
+          return session.id;
+        }
+      } catch {
+        // Corrupt entry - start a new session
+      }
+    }
+
+    this.session = { id: `sajko_v4_${now}_${Math.random().toString(36).substring(2, 15)}`, created: now, utm };
+    this.touchSession();
+    this.saveSession();
+    return this.session.id;
+  }
+
+  // Activity is only kept in memory per event; flush() writes it through,
+  // so storage is touched once per batch
+  private touchSession(): void {
+    this.session.lastActivity = Date.now();
+    this.sessionDirty = true;
+  }
+
+  private saveSession(): void {
+    if (!this.sessionDirty) return;
+    this.storage.session.setItem(`sajko_client_session:${this.config.websiteId}`, JSON.stringify(this.session));
+    this.sessionDirty = false;
+  }
+
+  private getOrCreateVisitorId(): string {
+    const key = `sajko_client_visitor:${this.config.websiteId}`;
+    let visitorId = this.storage.visitor.getItem(key);
+    if (!visitorId) {
+      visitorId = `visitor_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      this.storage.visitor.setItem(key, visitorId);
+    }
+    return visitorId;
+  }
+}
+
+/**
+ * Why a stored session can no longer be continued, or null - the same
+ * rules as the replay script's
+ */
+function sessionExpiry(
+  session: StoredSession,
+  config: SessionConfig = {},
+  now: number
+): SessionChangeReason | null {
+  const inactivityTimeout = config.inactivityTimeoutMs || DEFAULT_INACTIVITY_TIMEOUT;
+  if (now - (session.lastActivity || session.created) > inactivityTimeout) return 'inactivity';
+  if (config.maxDurationMs && now - session.created > config.maxDurationMs) return 'max_duration';
+  return null;
+}
+
+/**
+ * Campaign of the current URL, or null without UTM parameters
+ */
+function currentUtm(): string | null {
+  if (typeof location === 'undefined') return null;
+  const params = new URLSearchParams(location.search);
+  const values = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content']
+    .map(name => params.get(name) || '');
+  return values.some(Boolean) ? values.join('|') : null;
+}
@@ -0,0 +1,121 @@
+import { StorageConfig, StorageAdapter, CookieOptions } from './types';
+
+const DEFAULT_COOKIE_DAYS = 365;
+
+/**
+ * Backends for the two lifetimes of identity data: the visitor ID kept
+ * across visits and the session ID kept for the current visit
+ */
+export interface IdentityStorage {
+  visitor: StorageAdapter;
+  session: StorageAdapter;
+}
+
+/**
+ * Create the identity storage the storage option asks for - the same
+ * layout as the replay script's, so both read each other's IDs
+ *
+ * - localStorage (default): visitor in localStorage, session in sessionStorage
+ * - cookie: both in first-party cookies, shared across subdomains with `domain`
+ * - memory: both in memory, nothing written to the device
+ * - adapter: both through the given adapter
+ */
+export function createIdentityStorage(config: StorageConfig = {}): IdentityStorage {
+  if (config.adapter) {
+    const adapter = guarded(() => config.adapter!);
+    return { visitor: adapter, session: adapter };
+  }
+
+  switch (config.type) {
+    case 'cookie':
+      return {
+        visitor: cookieStorage(config.cookie, config.cookie?.expiresDays ?? DEFAULT_COOKIE_DAYS),
+        session: cookieStorage(config.cookie)
+      };
+    case 'memory': {
+      const memory = memoryStorage();
+      return { visitor: memory, session: memory };
+    }
+    default:
+      return {
+        visitor: guarded(() => localStorage),
+        session: guarded(() => sessionStorage)
+      };
+  }
+}
+
+/**
+ * Storage that swallows errors - unavailable storage (private mode, quota,
+ * blocked cookies) means IDs live for this page only
+ */
+function guarded(storage: () => StorageAdapter): StorageAdapter {
+  return {
+    getItem(key) {
+      try {
+        return storage().getItem(key);
+      } catch {
+        return null;
+      }
+    },
+    setItem(key, value) {
+      try {
+        storage().setItem(key, value);
+      } catch {
+        // Nothing persisted
+      }
+    },
+    removeItem(key) {
+      try {
+        storage().removeItem(key);
+      } catch {
+        // Nothing persisted
+      }
+    }
+  };
+}
+
+function memoryStorage(): StorageAdapter {
+  const values = new Map<string, string>();
+  return {
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    }
+  };
+}
+
+/**
+ * First-party cookie storage - without expiresDays the cookie ends with
+ * the browser session
+ */
+function cookieStorage(options: CookieOptions = {}, expiresDays?: number): StorageAdapter {
+  const write = (key: string, value: string, maxAge?: number) => {
+    const sameSite = options.sameSite || 'Lax';
+    const secure = options.secure ?? (sameSite === 'None' || location.protocol === 'https:');
+    document.cookie = [
+      `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+      'Path=/',
+      options.domain ? `Domain=${options.domain}` : '',
+      maxAge !== undefined ? `Max-Age=${maxAge}` : '',
+      `SameSite=${sameSite}`,
+      secure ? 'Secure' : ''
+    ].filter(Boolean).join('; ');
+  };
+
+  return guarded(() => ({
+    getItem(key) {
+      const name = `${encodeURIComponent(key)}=`;
+      const cookie = document.cookie.split('; ').find(part => part.startsWith(name));
+      return cookie ? decodeURIComponent(cookie.slice(name.length)) : null;
+    },
+    setItem(key, value) {
+      write(key, value, expiresDays !== undefined ? Math.round(expiresDays * 86400) : undefined);
+    },
+    removeItem(key) {
+      write(key, '', 0);
+    }
+  }));
+}
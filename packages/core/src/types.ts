@@ -3,6 +3,8 @@
  * Matches the API of sajko-replay-v4.js
  */
 
+import type { SajkoError } from './errors';
+
 export interface SajkoConfig {
   /** Unique identifier for the website */
   websiteId: string;
@@ -10,12 +12,39 @@ export interface SajkoConfig {
   /** API endpoint for sending data */
   apiEndpoint?: string;
   
-  /** Whether user has given consent for tracking */
+  /** Whether user has given consent for tracking (all categories) */
   hasUserConsent?: boolean;
   
-  /** Enable debug mode for verbose logging */
+  /**
+   * Granular consent management - when set, the script is not loaded until
+   * analytics or replay consent is granted via setConsent()
+   */
+  consent?: ConsentConfig;
+  
+  /**
+   * Honor Global Privacy Control and Do Not Track - true or 'block' loads
+   * nothing, 'anonymous' sends events without replay or user identity
+   */
+  respectPrivacySignals?: boolean | PrivacySignalMode;
+  
+  /** Enable debug mode for verbose logging (sets logLevel to 'debug') */
   debug?: boolean;
   
+  /**
+   * Most verbose level to log - default: 'debug' with `debug: true`,
+   * 'silent' in production builds, 'warn' otherwise
+   */
+  logLevel?: LogLevel;
+  
+  /** Receive log entries instead of the console */
+  logger?: Logger;
+  
+  /**
+   * Throw an INVALID_CONFIG SajkoError on any config problem, including
+   * unknown and deprecated keys, instead of logging warnings
+   */
+  strict?: boolean;
+  
   /** URL for WASM module (optional) */
   wasmUrl?: string;
   
@@ -33,6 +62,11 @@ export interface SajkoConfig {
     batchIntervalMs?: number;
     /** Maximum events in queue before flush */
     eventQueueSize?: number;
+    /**
+     * Events a createClient() client keeps while its endpoint is
+     * unreachable; the oldest are dropped first (default: 1000)
+     */
+    maxQueueSize?: number;
   };
   
   /** Privacy configuration */
@@ -41,8 +75,55 @@ export interface SajkoConfig {
     enablePIIMasking?: boolean;
     /** CSS selectors for elements to mask */
     maskSelectors?: string[];
+    /** Remove PII from event properties, super properties, traits and error context */
+    scrub?: ScrubConfig;
   };
   
+  /** Where the visitor and session IDs are kept */
+  storage?: StorageConfig;
+  
+  /** When a session ends and a new one starts */
+  session?: SessionConfig;
+  
+  /**
+   * Start with replay capture paused, as if pause() ran before the first
+   * snapshot - a string is the pause reason. Set for you when pause() is
+   * called before init() resolves.
+   */
+  startPaused?: boolean | string;
+  
+  /** Keep the visitor and session when links lead to your other domains */
+  crossDomain?: CrossDomainConfig;
+  
+  /** Record only a share of visitors */
+  sampling?: SamplingConfig;
+  
+  /** Where properties set with register() are kept */
+  superProperties?: SuperPropertiesConfig;
+  
+  /** JavaScript error capture */
+  errors?: ErrorCaptureConfig;
+  
+  /** Collect Core Web Vitals for every page view */
+  webVitals?: WebVitalsConfig;
+  
+  /** Which fetch/XMLHttpRequest calls are recorded, and with what detail */
+  network?: NetworkConfig;
+  
+  /** Pre-init command queue configuration */
+  queue?: QueueConfig;
+  
+  /** Drop events and traits - return false to drop */
+  filter?: ((payload: SajkoPayload) => boolean) | Array<(payload: SajkoPayload) => boolean>;
+  
+  /** Add properties to every event and trait set */
+  enrich?:
+    | ((payload: SajkoPayload) => Record<string, any> | void)
+    | Array<(payload: SajkoPayload) => Record<string, any> | void>;
+  
+  /** Last chance to modify or drop events and traits before they are sent */
+  beforeSend?: Middleware | Middleware[];
+  
   /** Shopify-specific configuration */
   shopify?: {
     shop?: string;
@@ -51,6 +132,549 @@ export interface SajkoConfig {
   };
 }
 
+/**
+ * Log levels from quietest to most verbose
+ */
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
+
+/**
+ * Package that wrote a log entry ('replay' is the CDN recorder script)
+ */
+export type LogSource = 'core' | 'react' | 'vue' | 'nextjs' | 'node' | 'replay';
+
+/**
+ * Structured log entry handed to a custom logger
+ */
+export interface LogEntry {
+  /** Severity */
+  level: Exclude<LogLevel, 'silent'>;
+  /** Human-readable message */
+  message: string;
+  /** Stable code, e.g. a SajkoErrorCode */
+  code?: string;
+  /** Data related to the entry (IDs, the error, counts) */
+  context?: Record<string, unknown>;
+  /** Package that wrote the entry */
+  source: LogSource;
+  /** When the entry was written */
+  timestamp: number;
+}
+
+/**
+ * Custom log sink, e.g. to forward to Sentry or a logging service
+ */
+export type Logger = (entry: LogEntry) => void;
+
+/**
+ * One problem found by validateConfig()
+ */
+export interface ConfigIssue {
+  /** Dotted path of the offending key, e.g. 'performance.batchIntervalMs' */
+  path: string;
+  /** 'error' for values that cannot work, 'warning' for unknown or deprecated keys */
+  severity: 'error' | 'warning';
+  /** What is wrong */
+  message: string;
+  /** How to fix it */
+  suggestion?: string;
+}
+
+export interface ConfigValidationResult {
+  /** False if any issue is an error (or any issue at all in strict mode) */
+  valid: boolean;
+  /** Every problem found */
+  issues: ConfigIssue[];
+}
+
+export interface ValidateConfigOptions {
+  /** Treat warnings as errors and throw an INVALID_CONFIG SajkoError */
+  strict?: boolean;
+}
+
+/**
+ * Tracking categories the user can consent to separately
+ */
+export type ConsentCategory = 'analytics' | 'replay' | 'marketing';
+
+export interface ConsentState {
+  /** Custom events, page views, identify calls, errors and Web Vitals */
+  analytics: boolean;
+  /** DOM and input recording for session replay */
+  replay: boolean;
+  /** Marketing attribution */
+  marketing: boolean;
+  /** Signal that turned categories off, with respectPrivacySignals */
+  privacySignal?: PrivacySignal;
+}
+
+export interface ConsentConfig {
+  /** Consent to assume when the user has not decided yet */
+  defaults?: Partial<ConsentState>;
+  /** Whether to remember the choice in the storage backend (default: true) */
+  persist?: boolean;
+  /**
+   * Storage key for the persisted choice (default: 'sajko_consent',
+   * 'sajko_consent:<websiteId>' for clients from createClient())
+   */
+  storageKey?: string;
+}
+
+/**
+ * Browser privacy signals - Global Privacy Control and Do Not Track
+ */
+export type PrivacySignal = 'gpc' | 'dnt';
+
+/**
+ * What respectPrivacySignals does when a signal is set
+ * - block: the replay script is not loaded and nothing is sent
+ * - anonymous: events and page views are sent, but no replay, marketing
+ *   attribution or identify/alias/group calls
+ */
+export type PrivacySignalMode = 'block' | 'anonymous';
+
+export interface PrivacySignalDecision {
+  /** Signals the browser sends */
+  signals: PrivacySignal[];
+  /** Mode applied because of them, null when tracking is unaffected */
+  enforced: PrivacySignalMode | null;
+}
+
+export interface SamplingConfig {
+  /** Share of visitors whose sessions are tracked, 0-1 (default: 1) */
+  sessionRate?: number;
+  /** Share of tracked sessions that also record DOM replay, 0-1 (default: 1) */
+  replayRate?: number;
+  /** Overrides checked in order - the first matching rule sets the rates */
+  rules?: SamplingRule[];
+  /** Still send events, errors and Web Vitals for sessions that are not sampled - only replay stops */
+  alwaysTrackEvents?: boolean;
+}
+
+export interface SamplingRule {
+  /**
+   * Landing page to match: a string is a path pattern where `*` matches
+   * anything (e.g. '/checkout/*'), a RegExp is tested against the full URL
+   */
+  url?: string | RegExp;
+  /** Match only identified (true) or only anonymous (false) visitors */
+  identified?: boolean;
+  /** Session rate for matching visitors */
+  sessionRate?: number;
+  /** Replay rate for matching visitors */
+  replayRate?: number;
+}
+
+/**
+ * Sampling outcome for the current visitor
+ */
+export interface SamplingDecision {
+  /** Whether the session is tracked */
+  sessionSampled: boolean;
+  /** Whether DOM replay is recorded */
+  replaySampled: boolean;
+  /** Session rate that applied */
+  sessionRate: number;
+  /** Replay rate that applied */
+  replayRate: number;
+  /** Index of the matching rule, or null when the defaults applied */
+  rule: number | null;
+}
+
+/**
+ * Built-in identity storage backends
+ */
+export type StorageType = 'localStorage' | 'cookie' | 'memory';
+
+/**
+ * Synchronous key-value store - `localStorage` itself is one
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface CookieOptions {
+  /** Cookie domain, e.g. '.example.com' to share IDs across subdomains */
+  domain?: string;
+  /** SameSite attribute (default: 'Lax') */
+  sameSite?: 'Lax' | 'Strict' | 'None';
+  /** Secure attribute (default: on HTTPS pages and with SameSite=None) */
+  secure?: boolean;
+  /** Visitor cookie lifetime in days (default: 365); the session cookie ends with the browser session */
+  expiresDays?: number;
+}
+
+export interface StorageConfig {
+  /**
+   * 'localStorage' (default) keeps the visitor ID in localStorage and the
+   * session ID in sessionStorage, 'cookie' both in first-party cookies,
+   * 'memory' both in memory only - a new visitor on every page load. The
+   * consent choice and super properties use the same backend.
+   */
+  type?: StorageType;
+  /** Cookie attributes, with type 'cookie' */
+  cookie?: CookieOptions;
+  /** Custom backend for both IDs, used instead of type */
+  adapter?: StorageAdapter;
+}
+
+export interface SessionConfig {
+  /** New session after this long without activity, in ms (default: 30 minutes) */
+  inactivityTimeoutMs?: number;
+  /** New session once the current one is this old, in ms (default: no limit) */
+  maxDurationMs?: number;
+  /** New session when a page is opened with different utm_* parameters (default: false) */
+  rotateOnUtmChange?: boolean;
+}
+
+/**
+ * Why a session was replaced
+ * - manual: startNewSession()
+ * - inactivity / max_duration: limits from the session option
+ * - reset: reset() started a new visitor too
+ */
+export type SessionChangeReason = 'manual' | 'inactivity' | 'max_duration' | 'reset';
+
+/**
+ * A pause in replay capture - the timeline shows a gap from `since` until
+ * resume()
+ */
+export interface RecordingPause {
+  /** Reason given to pause(), e.g. 'payment' */
+  reason: string | null;
+  /** When capture was paused */
+  since: number;
+}
+
+/**
+ * Cross-domain linking via a URL parameter
+ *
+ * The parameter is not signed: it carries the IDs with a timestamp and an
+ * unkeyed checksum over them and the browser, which rejects URLs copied to
+ * another browser or opened late. Anyone can build a valid one, so linked
+ * IDs are not proof of who the visitor is.
+ */
+export interface CrossDomainConfig {
+  /**
+   * Domains sharing the visitor and session, e.g. `['shop.com', 'checkout.io']`
+   * - subdomains included. Use the same list on every domain.
+   */
+  domains: string[];
+  /** Query parameter carrying the IDs (default: '_sajko') */
+  param?: string;
+  /** How long a decorated URL is accepted, in seconds (default: 120) */
+  maxAgeSeconds?: number;
+  /**
+   * Site public key the SAJKO API signs linkers with (base64 SPKI, from the
+   * dashboard). Incoming links are only adopted when their signature checks
+   * out against it.
+   */
+  publicKey?: string;
+  /** Decorate form submissions too (default: true) */
+  forms?: boolean;
+}
+
+/**
+ * Cross-domain linkage of the current page
+ */
+export interface CrossDomainLink {
+  /** Whether this page adopted the visitor and session from another domain */
+  linked: boolean;
+  /** Hostname the visitor came from */
+  from?: string;
+  /** When the IDs were adopted (epoch ms) */
+  linkedAt?: number;
+}
+
+/**
+ * How long a value is kept: this page only, the browser session
+ * (sessionStorage by default) or across visits (localStorage by default)
+ */
+export type PersistenceScope = 'page' | 'session' | 'visitor';
+
+export interface SuperPropertiesConfig {
+  /** Scope for register() calls that do not pass one (default: 'visitor') */
+  persistence?: PersistenceScope;
+  /**
+   * Storage key for persisted properties (default: 'sajko_super_properties',
+   * 'sajko_super_properties:<websiteId>' for clients from createClient())
+   */
+  storageKey?: string;
+}
+
+export interface ErrorCaptureConfig {
+  /**
+   * Capture uncaught errors and unhandled promise rejections with
+   * window listeners (default: false)
+   */
+  captureGlobal?: boolean;
+  /** Errors whose message matches a string (substring) or RegExp are not sent */
+  ignore?: Array<string | RegExp>;
+  /** Most errors sent per page load (default: 50) */
+  maxPerPage?: number;
+}
+
+/**
+ * How an error reached captureException()
+ */
+export type ErrorMechanism = 'manual' | 'global' | 'unhandledrejection' | 'react' | 'vue';
+
+/**
+ * Extra information passed to captureException()
+ */
+export interface ErrorContext {
+  /** Component the error was thrown in */
+  component?: string;
+  /** How the error was caught (default: 'manual') */
+  mechanism?: ErrorMechanism;
+  /** Anything else that helps reproduce the error */
+  [key: string]: any;
+}
+
+/**
+ * Structured error event linked to the replay timeline
+ */
+export interface CapturedError {
+  /** Error class name, e.g. 'TypeError' */
+  name: string;
+  /** Error message */
+  message: string;
+  /** Stack trace, if the error had one */
+  stack: string | null;
+  /** Component the error was thrown in */
+  component: string | null;
+  /** How the error was caught */
+  mechanism: ErrorMechanism;
+  /** False for errors nothing in the app caught (global handlers) */
+  handled: boolean;
+  /** Page the error happened on */
+  url: string | null;
+  /** Session the error belongs to */
+  sessionId: string | null;
+  /** Extra information from the caller */
+  context: Record<string, any>;
+}
+
+/**
+ * Core Web Vitals collected per page view
+ */
+export type WebVitalName = 'LCP' | 'CLS' | 'INP' | 'FCP' | 'TTFB';
+
+export interface WebVitalsConfig {
+  /** Metrics to collect (default: all) */
+  metrics?: WebVitalName[];
+  /**
+   * Measure in the browser (default: true) - set to false when metrics come
+   * from reportWebVitals(), e.g. Next.js, so nothing is measured twice
+   */
+  measure?: boolean;
+}
+
+/**
+ * One Web Vitals measurement, sent when the value is final for the page
+ * view (CLS and INP again if they grow after the page was hidden)
+ */
+export interface WebVitalMetric {
+  /** Metric name */
+  name: WebVitalName;
+  /** Milliseconds, or the layout shift score for CLS */
+  value: number;
+  /** Change since the last report for this page view */
+  delta: number;
+  /** Rating against the Core Web Vitals thresholds */
+  rating: 'good' | 'needs-improvement' | 'poor';
+  /** Unique per metric and page view */
+  id: string;
+  /** How the page view started - 'soft' for SPA navigations */
+  navigationType: 'navigate' | 'reload' | 'back-forward' | 'prerender' | 'soft';
+  /** Path of the page view */
+  page: string;
+  /** Measured by the tracker, or handed over through reportWebVitals() */
+  source: 'browser' | 'external';
+}
+
+/**
+ * Metric measured elsewhere - matches Next.js reportWebVitals and the
+ * web-vitals library
+ */
+export interface ExternalWebVital {
+  /** Metric name - anything but LCP, CLS, INP, FCP and TTFB is ignored */
+  name: string;
+  value: number;
+  delta?: number;
+  id?: string;
+  rating?: WebVitalMetric['rating'];
+  navigationType?: string;
+}
+
+/**
+ * Status code class, e.g. '5xx' for every server error
+ */
+export type StatusClass = '1xx' | '2xx' | '3xx' | '4xx' | '5xx';
+
+export interface NetworkConfig {
+  /** Record fetch and XMLHttpRequest calls (default: true) */
+  enabled?: boolean;
+  /**
+   * Only record URLs matching one of these - a string matches as a
+   * substring, or as a glob over the full URL when it contains `*`
+   */
+  allowUrls?: Array<string | RegExp>;
+  /** Never record URLs matching one of these (wins over allowUrls) */
+  denyUrls?: Array<string | RegExp>;
+  /**
+   * Only record these statuses, e.g. `['4xx', '5xx', 0]` for failing calls
+   * (0 is a request that never got a response)
+   */
+  statusCodes?: Array<number | StatusClass>;
+  /**
+   * Record request and response headers - true for all, or a list of names.
+   * Authorization, cookies and API key headers are always redacted.
+   */
+  captureHeaders?: boolean | string[];
+  /** Record text and JSON request and response bodies (default: false) */
+  captureBodies?: boolean;
+  /** Bodies longer than this many characters are truncated (default: 10000) */
+  maxBodySize?: number;
+  /**
+   * Last chance to scrub a call before it is recorded - return a (possibly
+   * modified) call, or null/false to drop it
+   */
+  redact?: (call: NetworkCall) => NetworkCall | null | false | void;
+}
+
+/**
+ * One recorded fetch or XMLHttpRequest call
+ */
+export interface NetworkCall {
+  /** Request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Response status, 0 when no response arrived */
+  status: number;
+  /** Milliseconds from request to response */
+  duration: number;
+  /** API the page used */
+  initiator: 'fetch' | 'xhr';
+  /** Request headers, with captureHeaders */
+  requestHeaders?: Record<string, string>;
+  /** Response headers, with captureHeaders */
+  responseHeaders?: Record<string, string>;
+  /** Request body, with captureBodies */
+  requestBody?: string;
+  /** Response body, with captureBodies */
+  responseBody?: string;
+  /** Why the request failed, when status is 0 */
+  error?: string;
+}
+
+/**
+ * Built-in PII detectors - cards are Luhn-checked and IBANs mod-97-checked
+ */
+export type PIIDetector = 'email' | 'phone' | 'card' | 'iban' | 'jwt';
+
+/**
+ * What happens to a value found by scrubbing
+ * - redact: replaced with `[REDACTED:<kind>]`
+ * - hash: replaced with a stable hash, so values can still be counted -
+ *   meant for pseudonymising IDs, not a cryptographic hash: short values
+ *   like emails or phone numbers can be recovered by hashing guesses
+ * - drop: the property or array item is removed
+ */
+export type ScrubAction = 'redact' | 'hash' | 'drop';
+
+/**
+ * Property-level PII scrubbing, applied after filter/enrich/beforeSend and
+ * before anything leaves the page. User and group IDs are never scrubbed.
+ */
+export interface ScrubConfig {
+  /**
+   * Detectors run over every string value (default: all but 'phone',
+   * which also matches order numbers and other separated digit runs)
+   */
+  detectors?: PIIDetector[];
+  /**
+   * Keys whose values are always scrubbed, on top of passwords, secrets,
+   * tokens and API keys - strings ignore case, `_` and `-`
+   */
+  denyKeys?: Array<string | RegExp>;
+  /** Keys never scrubbed (wins over denyKeys and the detectors) */
+  allowKeys?: Array<string | RegExp>;
+  /** Extra patterns scrubbed inside string values */
+  patterns?: Array<string | RegExp>;
+  /** What to do with matches (default: 'redact') */
+  action?: ScrubAction;
+}
+
+export interface QueueConfig {
+  /** Maximum calls buffered before init() resolves */
+  maxSize?: number;
+  /** Which call to discard when the queue is full */
+  dropPolicy?: 'oldest' | 'newest';
+}
+
+/**
+ * Event or trait set travelling through the middleware pipeline
+ */
+export type SajkoPayload =
+  | {
+      type: 'track';
+      /** Event name */
+      event: string;
+      /** Event properties */
+      properties: Record<string, any>;
+      /** When track() was called */
+      timestamp: number;
+    }
+  | {
+      type: 'identify';
+      /** User identifier */
+      userId: string;
+      /** User traits */
+      traits: UserTraits;
+      /** When identify() was called */
+      timestamp: number;
+    }
+  | {
+      type: 'alias';
+      /** Known user ID */
+      userId: string;
+      /** ID the user had before, the visitor ID when omitted */
+      previousId: string | null;
+      /** When alias() was called */
+      timestamp: number;
+    }
+  | {
+      type: 'group';
+      /** Group (company, team, account) identifier */
+      groupId: string;
+      /** Group traits */
+      traits: GroupTraits;
+      /** When group() was called */
+      timestamp: number;
+    }
+  | {
+      type: 'error';
+      /** Captured error */
+      error: CapturedError;
+      /** When the error was captured */
+      timestamp: number;
+    }
+  | {
+      type: 'web_vital';
+      /** Web Vitals measurement */
+      metric: WebVitalMetric;
+      /** When the metric was reported */
+      timestamp: number;
+    };
+
+/**
+ * beforeSend hook - return a (possibly modified) payload, or null/false to drop it
+ */
+export type Middleware = (payload: SajkoPayload) => SajkoPayload | null | false | void;
+
 export interface SajkoMetrics {
   /** Current session ID */
   sessionId: string;
@@ -60,6 +684,16 @@ export interface SajkoMetrics {
   queueSize: number;
   /** Whether WASM is loaded */
   hasWasm: boolean;
+  /** Sampling outcome, when sampling is configured */
+  sampling?: SamplingDecision;
+  /** Cross-domain linkage, with crossDomain */
+  crossDomain?: CrossDomainLink;
+  /** Set while replay capture is paused with pause() */
+  paused?: RecordingPause;
+  /** Privacy signal outcome, with respectPrivacySignals */
+  privacySignals?: PrivacySignalDecision;
+  /** Web Vitals of the current page view, when collected */
+  webVitals?: Partial<Record<WebVitalName, WebVitalMetric>>;
   /** Additional WASM metrics if available */
   wasmMetrics?: {
     memoryUsage?: number;
@@ -81,6 +715,9 @@ export interface SajkoReplay {
   /** Current recording status */
   isRecording: boolean;
   
+  /** Whether replay capture is paused, with the session kept open */
+  isPaused?: boolean;
+  
   /** Current session ID */
   sessionId: string;
   
@@ -96,18 +733,157 @@ export interface SajkoReplay {
   /** Whether WASM is enabled */
   useWasm: boolean;
   
-  /** Track custom event */
-  trackEvent?: (eventName: string, data?: any) => void;
+  /** Track custom event, at `timestamp` for calls queued before init() */
+  trackEvent?: (eventName: string, data?: any, timestamp?: number) => void;
   
   /** Identify user */
   identify?: (userId: string, traits?: any) => void;
+  
+  /** Link a previous ID to a known user */
+  alias?: (userId: string, previousId?: string | null) => void;
+  
+  /** Associate the user with a group */
+  group?: (groupId: string, traits?: any) => void;
+  
+  /** Record an error on the replay timeline */
+  captureException?: (error: CapturedError) => void;
+  
+  /** Record a Web Vitals measurement */
+  reportWebVital?: (metric: WebVitalMetric) => void;
+  
+  /** Forget the user and start over with a new visitor and session */
+  reset?: () => void | Promise<unknown>;
+  
+  /** End the session and start a new one for the same visitor */
+  startNewSession?: () => void | Promise<unknown>;
+  
+  /** Stop DOM and input capture, keeping the session and events */
+  pause?: (reason?: string) => void;
+  
+  /** Continue DOM and input capture after pause() */
+  resume?: () => void;
+  
+  /** Properties to attach to the recorder's own events (page views, clicks) */
+  setSuperProperties?: (properties: Record<string, any>) => void;
+  
+  /** Apply a new sampling decision, e.g. after identify() */
+  setSampling?: (decision: SamplingDecision) => void | Promise<unknown>;
+  
+  /** Apply a consent change to the running recorder */
+  setConsent?: (consent: ConsentState) => void | Promise<unknown>;
+  
+  /** Subscribe to recorder lifecycle events */
+  on?: <K extends SajkoEventName>(event: K, handler: SajkoEventHandler<K>) => () => void;
 }
 
-export interface TrackingEvent {
+/**
+ * Stable codes carried by SajkoError
+ * 
+ * - SCRIPT_TIMEOUT: the replay script did not load within `timeout`
+ * - SCRIPT_BLOCKED: the script request was blocked (ad blocker, CSP, privacy extension)
+ * - SCRIPT_LOAD_FAILED: the script request reached the network but failed
+ *   (server error, bad integrity hash)
+ * - REPLAY_NOT_READY: the script loaded but never exposed window.SajkoReplay
+ * - INVALID_CONFIG: required configuration is missing or invalid
+ * - CONSENT_DENIED: the user refused every category needed to load the tracker
+ * - NOT_INITIALIZED: the call needs init() first
+ * - UNKNOWN: anything else; see `cause`
+ */
+export type SajkoErrorCode =
+  | 'SCRIPT_TIMEOUT'
+  | 'SCRIPT_BLOCKED'
+  | 'SCRIPT_LOAD_FAILED'
+  | 'REPLAY_NOT_READY'
+  | 'INVALID_CONFIG'
+  | 'CONSENT_DENIED'
+  | 'NOT_INITIALIZED'
+  | 'UNKNOWN';
+
+/**
+ * Lifecycle events emitted by the tracker, keyed by name
+ */
+export interface SajkoEvents {
+  /** Replay script finished loading */
+  script_loaded: { url: string; attempt: number };
+  /** A replay script load attempt failed (retried until retryAttempts is reached) */
+  script_load_failed: { url: string; attempt: number; error: SajkoError };
+  /** init() completed */
+  ready: { sessionId: string; visitorId: string | null; version: string; isRecording: boolean };
+  /** Recording started */
+  recording_started: { sessionId: string };
+  /** Recording stopped */
+  recording_stopped: { sessionId: string };
+  /** Replay capture was paused with pause() */
+  recording_paused: { sessionId: string; reason: string | null };
+  /** Replay capture continued after a pause */
+  recording_resumed: { sessionId: string; reason: string | null; pausedMs: number };
+  /** A batch of events reached the server */
+  flush_succeeded: { eventCount: number };
+  /** A batch of events could not be sent */
+  flush_failed: { eventCount: number; error: unknown };
+  /** The session was replaced by a new one */
+  session_rotated: { sessionId: string; previousSessionId: string | null; reason: SessionChangeReason };
+  /** The user's consent changed */
+  consent_changed: { consent: ConsentState; previous: ConsentState | null };
+}
+
+/**
+ * Lifecycle event names
+ */
+export type SajkoEventName = keyof SajkoEvents;
+
+/**
+ * Handler for a lifecycle event
+ */
+export type SajkoEventHandler<K extends SajkoEventName> = (payload: SajkoEvents[K]) => void;
+
+/**
+ * Event catalog used when no event map is declared - any name, any properties
+ */
+export type DefaultEventMap = Record<string, Record<string, any> | undefined>;
+
+/**
+ * Event names declared in an event map
+ */
+export type EventName<E extends object = DefaultEventMap> = Extract<keyof E, string>;
+
+/**
+ * Arguments following the event name in track(): properties are optional
+ * when the event declares none or only optional ones
+ */
+export type TrackArgs<E extends object, K extends EventName<E>> =
+  undefined extends E[K]
+    ? [properties?: E[K]]
+    : {} extends E[K]
+      ? [properties?: E[K]]
+      : [properties: E[K]];
+
+/**
+ * Signature of track(), checked against an event map
+ */
+export type TrackFunction<E extends object = DefaultEventMap> =
+  <K extends EventName<E>>(event: K, ...args: TrackArgs<E, K>) => void;
+
+/**
+ * Tracker bound to an event map
+ */
+export interface Tracker<E extends object = DefaultEventMap> {
+  /** Track a custom event */
+  track: TrackFunction<E>;
+  /** Identify a user */
+  identify: (userId: string, traits?: UserTraits) => void;
+  /** Flush events to server */
+  flush: () => Promise<void>;
+}
+
+export interface TrackingEvent<
+  E extends object = DefaultEventMap,
+  K extends EventName<E> = EventName<E>
+> {
   /** Event name */
-  event: string;
+  event: K;
   /** Event properties */
-  properties?: Record<string, any>;
+  properties?: E[K];
   /** Timestamp */
   timestamp?: number;
 }
@@ -123,6 +899,15 @@ export interface UserTraits {
   [key: string]: any;
 }
 
+export interface GroupTraits {
+  /** Group name */
+  name?: string;
+  /** Subscription plan */
+  plan?: string;
+  /** Custom properties */
+  [key: string]: any;
+}
+
 export interface LoaderOptions {
   /** Custom CDN URL for the script */
   cdnUrl?: string;
@@ -134,6 +919,26 @@ export interface LoaderOptions {
   retryAttempts?: number;
   /** Delay between retries in ms */
   retryDelay?: number;
+  /** CSP nonce for the injected script (also passed on to the scripts it loads) */
+  nonce?: string;
+  /**
+   * Subresource Integrity hash of the script, e.g. from cdn/v4/integrity.json
+   * (`sha384-...`). With `cdnUrl` the loader fetches `sajko-replay.min.js`,
+   * so pin that entry; hashes change with every recorder version.
+   */
+  integrity?: string;
+  /** crossorigin attribute (default: 'anonymous' when integrity is set) */
+  crossOrigin?: 'anonymous' | 'use-credentials';
+  /** referrerpolicy attribute for the script request */
+  referrerPolicy?:
+    | 'no-referrer'
+    | 'no-referrer-when-downgrade'
+    | 'origin'
+    | 'origin-when-cross-origin'
+    | 'same-origin'
+    | 'strict-origin'
+    | 'strict-origin-when-cross-origin'
+    | 'unsafe-url';
 }
 
 // Window augmentation for global access
@@ -0,0 +1,508 @@
+import {
+  ConfigIssue,
+  ConfigValidationResult,
+  ValidateConfigOptions
+} from './types';
+import { SajkoError } from './errors';
+
+/**
+ * Shape of one config key
+ */
+type Rule =
+  | { type: 'string'; required?: boolean; url?: boolean; boolean?: boolean }
+  | { type: 'boolean' }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'enum'; values: string[]; boolean?: boolean }
+  | { type: 'strings'; values?: string[] }
+  | { type: 'pattern' }
+  | { type: 'patterns' }
+  | { type: 'statuses' }
+  | { type: 'headers' }
+  | { type: 'list'; item: Schema }
+  | { type: 'function' }
+  | { type: 'methods'; names: string[] }
+  | { type: 'object'; shape: Schema };
+
+type Schema = Record<string, Rule>;
+
+const positiveInteger: Rule = { type: 'number', min: 1, integer: true };
+const rate: Rule = { type: 'number', min: 0, max: 1 };
+
+/**
+ * Every key SajkoConfig accepts - keep in sync with types.ts
+ */
+const CONFIG_SCHEMA: Schema = {
+  websiteId: { type: 'string', required: true },
+  apiEndpoint: { type: 'string', url: true },
+  hasUserConsent: { type: 'boolean' },
+  consent: {
+    type: 'object',
+    shape: {
+      defaults: {
+        type: 'object',
+        shape: {
+          analytics: { type: 'boolean' },
+          replay: { type: 'boolean' },
+          marketing: { type: 'boolean' }
+        }
+      },
+      persist: { type: 'boolean' },
+      storageKey: { type: 'string' }
+    }
+  },
+  respectPrivacySignals: { type: 'enum', values: ['block', 'anonymous'], boolean: true },
+  debug: { type: 'boolean' },
+  logLevel: { type: 'enum', values: ['silent', 'error', 'warn', 'info', 'debug'] },
+  logger: { type: 'function' },
+  strict: { type: 'boolean' },
+  wasmUrl: { type: 'string' },
+  performance: {
+    type: 'object',
+    shape: {
+      maxMemoryMB: { type: 'number', min: 1 },
+      maxCPUPercent: { type: 'number', min: 0, max: 100 },
+      mouseSampleRate: { type: 'number', min: 0 },
+      scrollSampleRate: { type: 'number', min: 0 },
+      batchIntervalMs: positiveInteger,
+      eventQueueSize: positiveInteger,
+      maxQueueSize: positiveInteger
+    }
+  },
+  privacy: {
+    type: 'object',
+    shape: {
+      enablePIIMasking: { type: 'boolean' },
+      maskSelectors: { type: 'strings' },
+      scrub: {
+        type: 'object',
+        shape: {
+          detectors: { type: 'strings', values: ['email', 'phone', 'card', 'iban', 'jwt'] },
+          denyKeys: { type: 'patterns' },
+          allowKeys: { type: 'patterns' },
+          patterns: { type: 'patterns' },
+          action: { type: 'enum', values: ['redact', 'hash', 'drop'] }
+        }
+      }
+    }
+  },
+  storage: {
+    type: 'object',
+    shape: {
+      type: { type: 'enum', values: ['localStorage', 'cookie', 'memory'] },
+      cookie: {
+        type: 'object',
+        shape: {
+          domain: { type: 'string' },
+          sameSite: { type: 'enum', values: ['Lax', 'Strict', 'None'] },
+          secure: { type: 'boolean' },
+          expiresDays: { type: 'number', min: 0 }
+        }
+      },
+      adapter: { type: 'methods', names: ['getItem', 'setItem', 'removeItem'] }
+    }
+  },
+  session: {
+    type: 'object',
+    shape: {
+      inactivityTimeoutMs: positiveInteger,
+      maxDurationMs: positiveInteger,
+      rotateOnUtmChange: { type: 'boolean' }
+    }
+  },
+  startPaused: { type: 'string', boolean: true },
+  crossDomain: {
+    type: 'object',
+    shape: {
+      domains: { type: 'strings' },
+      param: { type: 'string' },
+      maxAgeSeconds: positiveInteger,
+      publicKey: { type: 'string' },
+      forms: { type: 'boolean' }
+    }
+  },
+  sampling: {
+    type: 'object',
+    shape: {
+      sessionRate: rate,
+      replayRate: rate,
+      rules: {
+        type: 'list',
+        item: {
+          url: { type: 'pattern' },
+          identified: { type: 'boolean' },
+          sessionRate: rate,
+          replayRate: rate
+        }
+      },
+      alwaysTrackEvents: { type: 'boolean' }
+    }
+  },
+  superProperties: {
+    type: 'object',
+    shape: {
+      persistence: { type: 'enum', values: ['page', 'session', 'visitor'] },
+      storageKey: { type: 'string' }
+    }
+  },
+  errors: {
+    type: 'object',
+    shape: {
+      captureGlobal: { type: 'boolean' },
+      ignore: { type: 'patterns' },
+      maxPerPage: { type: 'number', min: 0, integer: true }
+    }
+  },
+  webVitals: {
+    type: 'object',
+    shape: {
+      metrics: { type: 'strings', values: ['LCP', 'CLS', 'INP', 'FCP', 'TTFB'] },
+      measure: { type: 'boolean' }
+    }
+  },
+  network: {
+    type: 'object',
+    shape: {
+      enabled: { type: 'boolean' },
+      allowUrls: { type: 'patterns' },
+      denyUrls: { type: 'patterns' },
+      statusCodes: { type: 'statuses' },
+      captureHeaders: { type: 'headers' },
+      captureBodies: { type: 'boolean' },
+      maxBodySize: positiveInteger,
+      redact: { type: 'function' }
+    }
+  },
+  queue: {
+    type: 'object',
+    shape: {
+      maxSize: { type: 'number', min: 0, integer: true },
+      dropPolicy: { type: 'enum', values: ['oldest', 'newest'] }
+    }
+  },
+  filter: { type: 'function' },
+  enrich: { type: 'function' },
+  beforeSend: { type: 'function' },
+  shopify: {
+    type: 'object',
+    shape: {
+      shop: { type: 'string' },
+      currency: { type: 'string' },
+      customerId: { type: 'string' }
+    }
+  }
+};
+
+/**
+ * Keys that were never read or have been replaced, with what to use instead
+ */
+const DEPRECATED_KEYS: Record<string, { replacement?: string; note: string }> = {
+  'privacy.maskEmails': {
+    replacement: 'privacy.enablePIIMasking',
+    note: 'Emails are masked by privacy.enablePIIMasking'
+  },
+  'privacy.maskPhones': {
+    replacement: 'privacy.enablePIIMasking',
+    note: 'Phone numbers are masked by privacy.enablePIIMasking'
+  },
+  'performance.throttleMs': {
+    replacement: 'performance.mouseSampleRate',
+    note: 'Input throttling is set per source with performance.mouseSampleRate and performance.scrollSampleRate'
+  },
+  'performance.maxEventsPerBatch': {
+    replacement: 'performance.eventQueueSize',
+    note: 'The batch size is performance.eventQueueSize'
+  }
+};
+
+/**
+ * Validate a SAJKO configuration object
+ *
+ * Reports every problem at once with its path and a suggestion. Unknown and
+ * deprecated keys are warnings; wrong types and out-of-range values are
+ * errors. In strict mode any issue throws an INVALID_CONFIG SajkoError.
+ *
+ * init() runs this on every config; `sajko doctor` runs it on config files.
+ *
+ * @param config - Configuration to check
+ * @param options - Validation options
+ * @returns Whether the config is usable, and every issue found
+ *
+ * @example
+ * ```typescript
+ * const { valid, issues } = validateConfig({
+ *   websiteId: 'your-website-id',
+ *   performance: { throttleMs: 50 }
+ * });
+ * // issues[0]: { path: 'performance.throttleMs', severity: 'warning',
+ * //   message: 'Deprecated and ignored. ...', suggestion: 'Use performance.mouseSampleRate' }
+ * ```
+ */
+export function validateConfig(
+  config: unknown,
+  options: ValidateConfigOptions = {}
+): ConfigValidationResult {
+  const issues: ConfigIssue[] = [];
+
+  if (!isPlainObject(config)) {
+    issues.push({
+      path: '',
+      severity: 'error',
+      message: 'Configuration must be an object',
+      suggestion: "Pass an object like { websiteId: 'your-website-id' }"
+    });
+  } else {
+    checkObject(config, CONFIG_SCHEMA, '', issues);
+  }
+
+  const valid = !issues.some(issue => issue.severity === 'error' || options.strict);
+
+  if (!valid && options.strict) {
+    throw new SajkoError('INVALID_CONFIG', `SAJKO: Invalid configuration\n${formatIssues(issues)}`, {
+      cause: issues
+    });
+  }
+
+  return { valid, issues };
+}
+
+/**
+ * Format issues one per line, e.g. for logging or CLI output
+ */
+export function formatIssues(issues: ConfigIssue[]): string {
+  return issues
+    .map(issue => {
+      const path = issue.path || '(config)';
+      const suggestion = issue.suggestion ? ` - ${issue.suggestion}` : '';
+      return `  ${issue.severity === 'error' ? '✗' : '!'} ${path}: ${issue.message}${suggestion}`;
+    })
+    .join('\n');
+}
+
+function checkObject(value: Record<string, unknown>, schema: Schema, prefix: string, issues: ConfigIssue[]): void {
+  for (const [key, rule] of Object.entries(schema)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const child = value[key];
+
+    if (child === undefined) {
+      if (rule.type === 'string' && rule.required) {
+        issues.push({
+          path,
+          severity: 'error',
+          message: 'Required',
+          suggestion: 'Copy the website ID from your SAJKO dashboard'
+        });
+      }
+      continue;
+    }
+
+    checkValue(child, rule, path, issues);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (key in schema) continue;
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    const deprecated = DEPRECATED_KEYS[path];
+
+    if (deprecated) {
+      issues.push({
+        path,
+        severity: 'warning',
+        message: `Deprecated and ignored. ${deprecated.note}`,
+        suggestion: deprecated.replacement ? `Use ${deprecated.replacement}` : `Remove ${path}`
+      });
+      continue;
+    }
+
+    const closest = closestKey(key, Object.keys(schema));
+    issues.push({
+      path,
+      severity: 'warning',
+      message: 'Unknown key, ignored',
+      suggestion: closest ? `Did you mean ${prefix ? `${prefix}.` : ''}${closest}?` : `Remove ${path}`
+    });
+  }
+}
+
+function checkValue(value: unknown, rule: Rule, path: string, issues: ConfigIssue[]): void {
+  const fail = (message: string, suggestion?: string) => {
+    issues.push({ path, severity: 'error', message, suggestion });
+  };
+
+  switch (rule.type) {
+    case 'string':
+      if (rule.boolean && typeof value === 'boolean') break;
+      if (typeof value !== 'string') {
+        fail(`Expected a string${rule.boolean ? ' or true/false' : ''}, got ${describe(value)}`);
+      } else if (rule.required && value.trim() === '') {
+        fail('Must not be empty', 'Copy the website ID from your SAJKO dashboard');
+      } else if (rule.url && !isUrl(value)) {
+        fail(`"${value}" is not a valid URL`, 'Use an absolute http(s) URL, e.g. https://api.sajko.ai');
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        fail(`Expected true or false, got ${describe(value)}`);
+      }
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        fail(`Expected a number, got ${describe(value)}`);
+      } else if (rule.integer && !Number.isInteger(value)) {
+        fail(`Expected a whole number, got ${value}`);
+      } else if (rule.min !== undefined && value < rule.min) {
+        fail(`Must be at least ${rule.min}, got ${value}`);
+      } else if (rule.max !== undefined && value > rule.max) {
+        fail(`Must be at most ${rule.max}, got ${value}`);
+      }
+      break;
+
+    case 'enum':
+      if (rule.boolean && typeof value === 'boolean') break;
+      if (typeof value !== 'string' || !rule.values.includes(value)) {
+        const expected = rule.values.map(v => `'${v}'`).concat(rule.boolean ? ['true', 'false'] : []);
+        fail(`Expected one of ${expected.join(', ')}, got ${describe(value)}`);
+      }
+      break;
+
+    case 'strings':
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        fail(`Expected an array of strings, got ${describe(value)}`);
+      } else if (rule.values) {
+        const unknown = value.filter(item => !rule.values!.includes(item));
+        if (unknown.length > 0) {
+          fail(
+            `Unknown ${unknown.map(v => `'${v}'`).join(', ')} - expected any of ${rule.values.map(v => `'${v}'`).join(', ')}`
+          );
+        }
+      }
+      break;
+
+    case 'pattern':
+      if (typeof value !== 'string' && !(value instanceof RegExp)) {
+        fail(`Expected a string or RegExp, got ${describe(value)}`);
+      }
+      break;
+
+    case 'patterns':
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string' && !(item instanceof RegExp))) {
+        fail(`Expected an array of strings or RegExps, got ${describe(value)}`);
+      }
+      break;
+
+    case 'statuses':
+      if (!Array.isArray(value) || value.some(item => !isStatus(item))) {
+        fail(
+          `Expected status codes (100-599, or 0 for no response) or classes like '5xx', got ${describe(value)}`
+        );
+      }
+      break;
+
+    case 'headers':
+      if (typeof value !== 'boolean' && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+        fail(`Expected true, false or an array of header names, got ${describe(value)}`);
+      }
+      break;
+
+    case 'list':
+      if (!Array.isArray(value)) {
+        fail(`Expected an array, got ${describe(value)}`);
+        break;
+      }
+      value.forEach((item, index) => {
+        checkValue(item, { type: 'object', shape: rule.item }, `${path}[${index}]`, issues);
+      });
+      break;
+
+    case 'function': {
+      const fns = Array.isArray(value) ? value : [value];
+      if (fns.some(fn => typeof fn !== 'function')) {
+        fail(`Expected a function or an array of functions, got ${describe(value)}`);
+      }
+      break;
+    }
+
+    case 'methods': {
+      const missing = rule.names.filter(name =>
+        typeof value !== 'object' || value === null || typeof (value as Record<string, unknown>)[name] !== 'function'
+      );
+      if (missing.length > 0) {
+        fail(`Expected an object with ${rule.names.join(', ')} methods, missing ${missing.join(', ')}`);
+      }
+      break;
+    }
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        fail(`Expected an object, got ${describe(value)}`);
+      } else {
+        checkObject(value, rule.shape, path, issues);
+      }
+      break;
+  }
+}
+
+function isStatus(value: unknown): boolean {
+  if (typeof value === 'string') return /^[1-5]xx$/.test(value);
+  return typeof value === 'number' && Number.isInteger(value) && (value === 0 || (value >= 100 && value <= 599));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Closest known key by edit distance, for "did you mean" suggestions
+ */
+function closestKey(key: string, candidates: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  // Only suggest when the typo is small relative to the key
+  return bestDistance <= Math.max(2, Math.floor(key.length / 3)) ? best : null;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = a[i - 1] === b[j - 1]
+        ? previous
+        : 1 + Math.min(previous, row[j - 1], row[j]);
+      previous = current;
+    }
+  }
+
+  return row[b.length];
+}
@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebVitals } from './vitals';
+import { WebVitalMetric } from './types';
+
+// PerformanceObserver stand-in that lets the test deliver entries by type
+const observers = new Map<string, (list: { getEntries: () => PerformanceEntry[] }) => void>();
+
+class FakePerformanceObserver {
+  private type: string | null = null;
+
+  constructor(private readonly callback: (list: { getEntries: () => PerformanceEntry[] }) => void) {}
+
+  observe(options: { type: string }): void {
+    this.type = options.type;
+    observers.set(options.type, this.callback);
+  }
+
+  disconnect(): void {
+    if (this.type) observers.delete(this.type);
+  }
+}
+
+function emit(type: string, entry: Record<string, unknown>): void {
+  observers.get(type)?.({ getEntries: () => [entry as unknown as PerformanceEntry] });
+}
+
+describe('WebVitals', () => {
+  let reported: WebVitalMetric[];
+  let vitals: WebVitals;
+
+  beforeEach(() => {
+    observers.clear();
+    vi.stubGlobal('PerformanceObserver', FakePerformanceObserver);
+    reported = [];
+    vitals = new WebVitals(metric => reported.push(metric));
+    vitals.configure({});
+    vitals.start();
+  });
+
+  afterEach(() => {
+    vitals.stop();
+    vi.unstubAllGlobals();
+  });
+
+  it('does not send FCP again when it is reported externally after being measured', () => {
+    emit('paint', { name: 'first-contentful-paint', startTime: 900 });
+    expect(reported).toHaveLength(1);
+
+    vitals.record({ name: 'FCP', value: 900, id: 'next-fcp' });
+    vitals.record({ name: 'LCP', value: 1500, id: 'next-lcp' });
+
+    expect(reported.map(metric => [metric.name, metric.source])).toEqual([
+      ['FCP', 'browser'],
+      ['LCP', 'external']
+    ]);
+  });
+
+  it('sends only the growth of a metric that was measured and sent before', () => {
+    emit('layout-shift', { value: 0.05, startTime: 100, hadRecentInput: false });
+    window.dispatchEvent(new Event('pagehide'));
+    expect(reported).toEqual([expect.objectContaining({ name: 'CLS', value: 0.05, delta: 0.05 })]);
+
+    vitals.record({ name: 'CLS', value: 0.05, delta: 0.05, id: 'next-cls' });
+    vitals.record({ name: 'CLS', value: 0.08, delta: 0.08, id: 'next-cls' });
+    vitals.record({ name: 'CLS', value: 0.1, delta: 0.02, id: 'next-cls' });
+
+    const cls = reported.filter(metric => metric.name === 'CLS');
+    expect(cls.map(metric => metric.value)).toEqual([0.05, 0.08, 0.1]);
+    expect(cls.reduce((sum, metric) => sum + metric.delta, 0)).toBeCloseTo(0.1);
+    expect(new Set(cls.map(metric => metric.id)).size).toBe(1);
+  });
+
+  it('stops measuring once metrics come from elsewhere', () => {
+    vitals.record({ name: 'TTFB', value: 300 });
+    emit('paint', { name: 'first-contentful-paint', startTime: 900 });
+
+    expect(reported.map(metric => metric.name)).toEqual(['TTFB']);
+  });
+
+  it('keeps starting page views on SPA navigations after an external report', () => {
+    const startPath = window.location.pathname;
+    vitals.record({ name: 'CLS', value: 0.05 });
+    expect(observers.size).toBe(0);
+
+    history.pushState(null, '', '/checkout');
+    vitals.record({ name: 'CLS', value: 0.02 });
+
+    try {
+      expect(reported).toHaveLength(2);
+      expect(reported[1].page).toBe('/checkout');
+      expect(reported[1].id).not.toBe(reported[0].id);
+    } finally {
+      history.replaceState(null, '', startPath);
+    }
+  });
+});
@@ -0,0 +1,374 @@
+import { WebVitalsConfig, WebVitalName, WebVitalMetric, ExternalWebVital } from './types';
+import { logger, ScopedLogger } from './logger';
+
+// Upper bounds of 'good' and 'needs-improvement' (web.dev thresholds)
+const THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800]
+};
+
+// Measured once per page load; later reports repeat the same value
+const SINGLE_VALUE: WebVitalName[] = ['FCP', 'TTFB'];
+
+// Entry fields missing from the DOM typings
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number;
+}
+
+interface PageView {
+  id: string;
+  navigationType: WebVitalMetric['navigationType'];
+  page: string;
+  values: Partial<Record<WebVitalName, WebVitalMetric>>;
+  // Value last sent per metric, for deltas
+  reported: Partial<Record<WebVitalName, number>>;
+}
+
+/**
+ * WebVitals - Measures LCP, CLS, INP, FCP and TTFB per page view
+ *
+ * SPA navigations (history.pushState/replaceState and popstate to a new
+ * path) start a new page view: the previous one's CLS, INP and LCP are
+ * sent and CLS and INP start over. Browsers do not report paints for soft
+ * navigations, so those page views only get CLS and INP.
+ */
+export class WebVitals {
+  private config: WebVitalsConfig | null = null;
+  private view: PageView = createPageView('navigate');
+  private measuring: boolean = false;
+  private cleanup: Array<() => void> = [];
+  // Disconnects the PerformanceObservers, kept apart from the listeners so
+  // external reports can stop them alone
+  private observers: Array<() => void> = [];
+
+  // Largest session window of layout shifts
+  private cls: number = 0;
+  private clsWindow: number = 0;
+  private clsEntries: LayoutShiftEntry[] = [];
+
+  // Longest duration per interaction
+  private interactions = new Map<number, number>();
+
+  private lcpFinal: boolean = false;
+
+  constructor(
+    private readonly report: (metric: WebVitalMetric) => void,
+    private readonly log: ScopedLogger = logger.scope('core')
+  ) {}
+
+  /**
+   * Apply Web Vitals settings from the init() config
+   */
+  configure(config?: WebVitalsConfig): void {
+    this.config = config || null;
+  }
+
+  /**
+   * Start measuring, unless Web Vitals are off or come from elsewhere
+   */
+  start(): void {
+    if (this.measuring || !this.config || this.config.measure === false) return;
+    if (typeof window === 'undefined' || typeof PerformanceObserver === 'undefined') return;
+
+    this.measuring = true;
+    this.view = createPageView(navigationType());
+    this.resetPageState();
+    this.lcpFinal = false;
+
+    this.measureTTFB();
+    this.observe('paint', (entry) => {
+      if (entry.name === 'first-contentful-paint') {
+        this.set('FCP', entry.startTime, true);
+      }
+    });
+    this.observe('largest-contentful-paint', (entry) => {
+      if (!this.lcpFinal) {
+        this.set('LCP', entry.startTime, false);
+      }
+    });
+    this.observe('layout-shift', (entry) => this.onLayoutShift(entry as LayoutShiftEntry));
+    this.observe('event', (entry) => this.onInteraction(entry as EventTimingEntry), { durationThreshold: 40 });
+    this.observe('first-input', (entry) => this.onInteraction(entry as EventTimingEntry));
+
+    // LCP stops at the first input; hidden pages report what they have
+    const finalizeLCP = () => this.finalizeLCP();
+    const onHidden = () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushPageView();
+      }
+    };
+    this.listen(window, 'keydown', finalizeLCP, { capture: true, once: true });
+    this.listen(window, 'pointerdown', finalizeLCP, { capture: true, once: true });
+    this.listen(document, 'visibilitychange', onHidden, { capture: true });
+    this.listen(window, 'pagehide', () => this.flushPageView(), { capture: true });
+
+    this.watchNavigation();
+  }
+
+  /**
+   * Stop measuring, sending what the current page view has so far
+   */
+  stop(): void {
+    if (!this.measuring) return;
+    this.flushPageView();
+    this.disconnect();
+    this.cleanup.forEach(fn => fn());
+    this.cleanup = [];
+    this.measuring = false;
+  }
+
+  /**
+   * Record a metric measured elsewhere (Next.js, the web-vitals library)
+   *
+   * The first one disconnects the tracker's PerformanceObservers; SPA
+   * navigations still start new page views. Metrics the tracker already
+   * sent for this page view are not sent again: FCP and TTFB are skipped,
+   * CLS, INP and LCP only send their growth since.
+   */
+  record(input: ExternalWebVital): void {
+    const name = input.name as WebVitalName;
+    if (!THRESHOLDS[name] || !this.includes(name)) return;
+
+    if (this.observers.length > 0) {
+      this.log.debug('Web Vitals are reported externally, stopping own measurement');
+      this.disconnect();
+    }
+
+    const previous = this.view.values[name];
+    const sentLocally = previous?.source === 'browser' ? this.view.reported[name] : undefined;
+    if (sentLocally !== undefined && (SINGLE_VALUE.includes(name) || input.value <= sentLocally)) {
+      return;
+    }
+
+    const metric: WebVitalMetric = {
+      name,
+      value: input.value,
+      delta: sentLocally !== undefined ? input.value - sentLocally : input.delta ?? input.value,
+      rating: input.rating || rate(name, input.value),
+      // One ID per metric and page view, so deltas add up
+      id: previous?.id || input.id || `${this.view.id}-${name}`,
+      navigationType: toNavigationType(input.navigationType),
+      page: typeof window !== 'undefined' ? window.location.pathname : this.view.page,
+      source: 'external'
+    };
+    this.view.values[name] = metric;
+    this.report(metric);
+  }
+
+  /**
+   * Metrics of the current page view, sent or not
+   */
+  snapshot(): Partial<Record<WebVitalName, WebVitalMetric>> | null {
+    return Object.keys(this.view.values).length > 0 ? { ...this.view.values } : null;
+  }
+
+  private measureTTFB(): void {
+    const navigation = navigationEntry();
+    if (navigation && navigation.responseStart > 0) {
+      this.set('TTFB', Math.max(navigation.responseStart - activationStart(navigation), 0), true);
+    }
+  }
+
+  private onLayoutShift(entry: LayoutShiftEntry): void {
+    if (entry.hadRecentInput) return;
+
+    // Shifts less than 1s apart within 5s form one window
+    const first = this.clsEntries[0];
+    const last = this.clsEntries[this.clsEntries.length - 1];
+    if (last && entry.startTime - last.startTime < 1000 && entry.startTime - first.startTime < 5000) {
+      this.clsWindow += entry.value;
+      this.clsEntries.push(entry);
+    } else {
+      this.clsWindow = entry.value;
+      this.clsEntries = [entry];
+    }
+
+    if (this.clsWindow > this.cls) {
+      this.cls = this.clsWindow;
+      this.set('CLS', this.cls, false);
+    }
+  }
+
+  private onInteraction(entry: EventTimingEntry): void {
+    if (!entry.interactionId) return;
+
+    const longest = this.interactions.get(entry.interactionId) || 0;
+    if (entry.duration <= longest) return;
+    this.interactions.set(entry.interactionId, entry.duration);
+
+    // 98th percentile: ignore one slow interaction per 50
+    const durations = Array.from(this.interactions.values()).sort((a, b) => b - a);
+    const index = Math.min(durations.length - 1, Math.floor(durations.length / 50));
+    this.set('INP', durations[index], false);
+  }
+
+  private finalizeLCP(): void {
+    if (this.lcpFinal) return;
+    this.lcpFinal = true;
+    this.send('LCP');
+  }
+
+  /**
+   * Send every metric whose value changed since it was last sent
+   */
+  private flushPageView(): void {
+    this.lcpFinal = true;
+    (Object.keys(this.view.values) as WebVitalName[]).forEach(name => this.send(name));
+  }
+
+  /**
+   * Start a new page view when an SPA navigates to another path
+   */
+  private watchNavigation(): void {
+    let path = window.location.pathname;
+
+    const onChange = () => {
+      if (window.location.pathname === path) return;
+      path = window.location.pathname;
+
+      this.flushPageView();
+      this.view = createPageView('soft');
+      this.resetPageState();
+    };
+
+    (['pushState', 'replaceState'] as const).forEach(method => {
+      const original = history[method];
+      const patched = function (this: History, ...args: Parameters<History['pushState']>) {
+        const result = original.apply(this, args);
+        onChange();
+        return result;
+      };
+      history[method] = patched;
+      this.cleanup.push(() => {
+        // Leave wrappers installed after ours in place
+        if (history[method] === patched) {
+          history[method] = original;
+        }
+      });
+    });
+    this.listen(window, 'popstate', onChange);
+  }
+
+  private resetPageState(): void {
+    this.cls = 0;
+    this.clsWindow = 0;
+    this.clsEntries = [];
+    this.interactions.clear();
+  }
+
+  private set(name: WebVitalName, value: number, final: boolean): void {
+    if (!this.includes(name)) return;
+
+    const previous = this.view.values[name];
+    this.view.values[name] = {
+      name,
+      value,
+      delta: value - (this.view.reported[name] ?? 0),
+      rating: rate(name, value),
+      id: previous?.id || `${this.view.id}-${name}`,
+      navigationType: this.view.navigationType,
+      page: this.view.page,
+      source: 'browser'
+    };
+
+    if (final) {
+      this.send(name);
+    }
+  }
+
+  private send(name: WebVitalName): void {
+    const metric = this.view.values[name];
+    if (!metric || metric.source !== 'browser' || this.view.reported[name] === metric.value) return;
+
+    metric.delta = metric.value - (this.view.reported[name] ?? 0);
+    this.view.reported[name] = metric.value;
+    this.report({ ...metric });
+  }
+
+  private includes(name: WebVitalName): boolean {
+    return !this.config?.metrics || this.config.metrics.includes(name);
+  }
+
+  private observe(
+    type: string,
+    callback: (entry: PerformanceEntry) => void,
+    options: Record<string, unknown> = {}
+  ): void {
+    try {
+      const observer = new PerformanceObserver(list => list.getEntries().forEach(callback));
+      observer.observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+      this.observers.push(() => observer.disconnect());
+    } catch {
+      // Entry type not supported by this browser
+    }
+  }
+
+  private disconnect(): void {
+    this.observers.forEach(fn => fn());
+    this.observers = [];
+  }
+
+  private listen(
+    target: EventTarget,
+    type: string,
+    listener: () => void,
+    options?: AddEventListenerOptions
+  ): void {
+    target.addEventListener(type, listener, options);
+    this.cleanup.push(() => target.removeEventListener(type, listener, options));
+  }
+}
+
+function createPageView(type: WebVitalMetric['navigationType']): PageView {
+  return {
+    id: `v${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    navigationType: type,
+    page: typeof window !== 'undefined' ? window.location.pathname : '',
+    values: {},
+    reported: {}
+  };
+}
+
+function rate(name: WebVitalName, value: number): WebVitalMetric['rating'] {
+  const [good, poor] = THRESHOLDS[name];
+  if (value <= good) return 'good';
+  return value <= poor ? 'needs-improvement' : 'poor';
+}
+
+function navigationType(): WebVitalMetric['navigationType'] {
+  const navigation = navigationEntry();
+  if (navigation && activationStart(navigation) > 0) return 'prerender';
+  return toNavigationType(navigation?.type);
+}
+
+function navigationEntry(): PerformanceNavigationTiming | undefined {
+  if (typeof performance.getEntriesByType !== 'function') return undefined;
+  return performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+}
+
+function toNavigationType(type?: string): WebVitalMetric['navigationType'] {
+  switch (type) {
+    case 'reload':
+    case 'prerender':
+    case 'soft':
+      return type;
+    case 'back_forward':
+    case 'back-forward':
+    case 'back-forward-cache':
+      return 'back-forward';
+    default:
+      return 'navigate';
+  }
+}
+
+function activationStart(navigation: PerformanceNavigationTiming): number {
+  return (navigation as PerformanceNavigationTiming & { activationStart?: number }).activationStart || 0;
+}
@@ -12,6 +12,9 @@ export {
   type SajkoTrackerProps 
 } from './app-router';
 
+// Export Web Vitals bridge
+export { reportWebVitals, type NextWebVital } from './web-vitals';
+
 // Re-export React hooks for convenience
 export {
   useSajko,
@@ -19,11 +22,16 @@ export {
   useTracker,
   useMetrics,
   useIdentify,
+  useCaptureException,
   SajkoProvider,
   useTrackerContext,
+  SajkoErrorBoundary,
+  SajkoPause,
   type UseSajkoState,
   type SajkoProviderProps,
-  type SajkoContextValue
+  type SajkoContextValue,
+  type SajkoErrorBoundaryProps,
+  type SajkoPauseProps
 } from '@sajko/react';
 
 // Re-export core types
@@ -33,5 +41,48 @@ export type {
   SajkoMetrics,
   LoaderOptions,
   TrackingEvent,
-  UserTraits
-} from '@sajko/tracker';
\ No newline at end of file
+  UserTraits,
+  GroupTraits,
+  DefaultEventMap,
+  EventName,
+  TrackArgs,
+  TrackFunction,
+  Tracker,
+  ConsentState,
+  ConsentCategory,
+  SajkoEvents,
+  SajkoEventName,
+  SajkoEventHandler,
+  SajkoErrorCode,
+  SamplingConfig,
+  SamplingDecision,
+  ErrorCaptureConfig,
+  ErrorContext,
+  CapturedError,
+  WebVitalsConfig,
+  WebVitalName,
+  WebVitalMetric,
+  NetworkConfig,
+  NetworkCall,
+  ScrubConfig,
+  PIIDetector,
+  ScrubAction,
+  PrivacySignal,
+  PrivacySignalMode,
+  PrivacySignalDecision,
+  StorageType,
+  StorageAdapter,
+  CookieOptions,
+  StorageConfig,
+  CrossDomainConfig,
+  CrossDomainLink,
+  SessionConfig,
+  SessionChangeReason,
+  RecordingPause,
+  LogLevel,
+  LogEntry,
+  Logger
+} from '@sajko/tracker';
+
+// SajkoError is a class - re-exported as a value for instanceof checks
+export { SajkoError, isSajkoError } from '@sajko/tracker';
\ No newline at end of file
@@ -1,13 +1,23 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import Script from 'next/script';
-import { SajkoConfig } from '@sajko/tracker';
+import {
+  SajkoConfig,
+  LoaderOptions,
+  PrivacySignalDecision,
+  SajkoLogger,
+  logger,
+  resolvePrivacySignals
+} from '@sajko/tracker';
+
+const log = logger.scope('nextjs');
 
 /**
  * Props for SajkoScript component
  */
-export interface SajkoScriptProps {
+export interface SajkoScriptProps
+  extends Pick<LoaderOptions, 'nonce' | 'integrity' | 'crossOrigin' | 'referrerPolicy'> {
   /** SAJKO configuration */
   config: SajkoConfig;
   /** Custom CDN URL for the script */
@@ -50,6 +60,17 @@ export interface SajkoScriptProps {
  * 
  * @example
  * ```tsx
+ * // Strict CSP: nonce from middleware, hash from cdn/v4/integrity.json
+ * <SajkoScript
+ *   config={{ websiteId: 'your-website-id' }}
+ *   cdnUrl="https://cdn.sajko.app/v4/sajko-replay.min.js"
+ *   nonce={nonce}
+ *   integrity="sha384-..."
+ * />
+ * ```
+ * 
+ * @example
+ * ```tsx
  * // pages/_app.tsx (Pages Router)
  * import { SajkoScript } from '@sajko/nextjs';
  * 
@@ -71,13 +92,53 @@ export function SajkoScript({
   cdnUrl,
   strategy = 'afterInteractive',
   onLoad,
-  onError
+  onError,
+  nonce,
+  integrity,
+  crossOrigin,
+  referrerPolicy
 }: SajkoScriptProps) {
   const scriptUrl = cdnUrl || 
     (config.apiEndpoint ? `${config.apiEndpoint}/sajko-replay-v4.js` : 'https://app.sajko.sk/sajko-replay-v4.js');
   
+  // The inline config is JSON, so the script gets the resolved level but
+  // not a custom logger function
+  const logLevel = useMemo(() => {
+    const levelResolver = new SajkoLogger();
+    levelResolver.configure({ logLevel: config.logLevel, debug: config.debug });
+    return levelResolver.getLevel();
+  }, [config.logLevel, config.debug]);
+  const scriptConfig = { ...config, logLevel };
+  
+  useEffect(() => {
+    logger.configure(config);
+  }, [config.logLevel, config.logger, config.debug]);
+  
+  // Privacy signals are only readable in the browser, so with
+  // respectPrivacySignals nothing is rendered until after hydration
+  const { respectPrivacySignals } = config;
+  const [privacySignals, setPrivacySignals] = useState<PrivacySignalDecision | null>(null);
+  
+  useEffect(() => {
+    if (!respectPrivacySignals) return;
+    
+    // With 'anonymous' the script turns replay off and drops the visitor ID
+    // itself, and still sends events
+    const decision = resolvePrivacySignals(respectPrivacySignals);
+    if (decision.enforced === 'block') {
+      log.info('Privacy signal set, script not loaded', { signals: decision.signals });
+    } else {
+      window.sajkoConfig = scriptConfig;
+    }
+    setPrivacySignals(decision);
+  }, [respectPrivacySignals]);
+  
+  if (respectPrivacySignals && (!privacySignals || privacySignals.enforced === 'block')) {
+    return null;
+  }
+  
   const handleLoad = () => {
-    console.log('SAJKO: Script loaded successfully', {
+    log.info('Script loaded successfully', {
       sessionId: window.SajkoReplay?.sessionId,
       version: window.SajkoReplay?.version
     });
@@ -85,22 +146,25 @@ export function SajkoScript({
   };
   
   const handleError = () => {
-    console.error('SAJKO: Failed to load script');
+    log.error('Failed to load script', { url: scriptUrl }, 'SCRIPT_LOAD_FAILED');
     onError?.();
   };
   
   return (
     <>
-      {/* Set configuration before script loads */}
-      <Script
-        id="sajko-config"
-        strategy="beforeInteractive"
-        dangerouslySetInnerHTML={{
-          __html: `
-            window.sajkoConfig = ${JSON.stringify(config)};
-          `
-        }}
-      />
+      {/* Set configuration before script loads (already set after a privacy signal check) */}
+      {!respectPrivacySignals && (
+        <Script
+          id="sajko-config"
+          strategy="beforeInteractive"
+          nonce={nonce}
+          dangerouslySetInnerHTML={{
+            __html: `
+              window.sajkoConfig = ${JSON.stringify(scriptConfig)};
+            `
+          }}
+        />
+      )}
       
       {/* Load the main script */}
       <Script
@@ -109,9 +173,13 @@ export function SajkoScript({
         strategy={strategy}
         onLoad={handleLoad}
         onError={handleError}
+        nonce={nonce}
+        integrity={integrity}
+        crossOrigin={crossOrigin || (integrity ? 'anonymous' : undefined)}
+        referrerPolicy={referrerPolicy}
         data-website-id={config.websiteId}
         data-api-endpoint={config.apiEndpoint}
-        data-user-consent={String(config.hasUserConsent || false)}
+        data-user-consent={String((privacySignals?.enforced !== 'anonymous' && config.hasUserConsent) || false)}
         data-debug={String(config.debug || false)}
       />
     </>
@@ -0,0 +1,43 @@
+import { reportWebVitals as sendWebVital, ExternalWebVital } from '@sajko/tracker';
+
+/**
+ * Metric passed to Next.js reportWebVitals / useReportWebVitals
+ */
+export type NextWebVital = ExternalWebVital & {
+  /** 'web-vital' for Core Web Vitals, 'custom' for Next.js timings */
+  label?: string;
+};
+
+/**
+ * Forward Web Vitals measured by Next.js to SAJKO
+ * 
+ * Next.js custom timings (hydration, route change) are skipped. The first
+ * metric stops the tracker's own measurement, so Web Vitals are never
+ * measured twice when `webVitals` is also set in the config.
+ * 
+ * @param metric - Metric from Next.js
+ * 
+ * @example
+ * ```tsx
+ * // pages/_app.tsx
+ * export { reportWebVitals } from '@sajko/nextjs';
+ * ```
+ * 
+ * @example
+ * ```tsx
+ * // app/web-vitals.tsx (render it in app/layout.tsx)
+ * 'use client';
+ * 
+ * import { useReportWebVitals } from 'next/web-vitals';
+ * import { reportWebVitals } from '@sajko/nextjs';
+ * 
+ * export function WebVitals() {
+ *   useReportWebVitals(reportWebVitals);
+ *   return null;
+ * }
+ * ```
+ */
+export function reportWebVitals(metric: NextWebVital): void {
+  if (metric.label && metric.label !== 'web-vital') return;
+  sendWebVital(metric);
+}
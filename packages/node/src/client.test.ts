@@ -0,0 +1,187 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SajkoNodeClient } from './client';
+
+interface ReceivedRequest {
+  path: string;
+  body: any;
+}
+
+/**
+ * Local stand-in for the SAJKO API - answers with the queued statuses,
+ * then 200
+ */
+function startStub() {
+  const requests: ReceivedRequest[] = [];
+  const statuses: number[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      requests.push({ path: req.url || '', body: raw ? JSON.parse(raw) : null });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end('{}');
+    });
+  });
+
+  return new Promise<{ url: string; requests: ReceivedRequest[]; statuses: number[]; close: () => Promise<void> }>(
+    resolve => {
+      server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        resolve({
+          url: `http://127.0.0.1:${port}`,
+          requests,
+          statuses,
+          close: () => new Promise(done => server.close(() => done()))
+        });
+      });
+    }
+  );
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+const eventBatches = (requests: ReceivedRequest[]) =>
+  requests.filter(request => request.path.endsWith('/events'));
+
+describe('SajkoNodeClient', () => {
+  let stub: Awaited<ReturnType<typeof startStub>>;
+  let client: SajkoNodeClient;
+
+  const createClient = (options: Partial<ConstructorParameters<typeof SajkoNodeClient>[0]> = {}) => {
+    client = new SajkoNodeClient({
+      websiteId: 'site-1',
+      apiEndpoint: stub.url,
+      flushIntervalMs: 60000,
+      logLevel: 'silent',
+      ...options
+    });
+    return client;
+  };
+
+  beforeEach(async () => {
+    stub = await startStub();
+  });
+
+  afterEach(async () => {
+    await client?.shutdown();
+    await stub.close();
+  });
+
+  it('sends a batch per session once batchSize events are pending', async () => {
+    createClient({ batchSize: 3 });
+
+    client.track('report_generated', { rows: 10 });
+    client.track('payment_succeeded', { amount: 49 }, { sessionId: 'browser-session', visitorId: 'browser-visitor' });
+    expect(eventBatches(stub.requests)).toHaveLength(0);
+
+    client.identify('user-1', { plan: 'pro' });
+    await waitFor(() => eventBatches(stub.requests).length === 2);
+    await client.flush();
+
+    const serverBatch = stub.requests.find(r => r.path === `/api/session-replay/${client.sessionId}/events`);
+    const browserBatch = stub.requests.find(r => r.path === '/api/session-replay/browser-session/events');
+    expect(serverBatch?.body.events.map((e: any) => e.type)).toEqual(['custom_event', 'identify']);
+    expect(browserBatch?.body.events).toEqual([
+      expect.objectContaining({ type: 'custom_event', data: expect.objectContaining({ name: 'payment_succeeded' }) })
+    ]);
+
+    // The server-owned session is created before its first batch
+    const created = stub.requests.findIndex(r => r.path === '/api/session-replay');
+    expect(created).toBeGreaterThan(-1);
+    expect(created).toBeLessThan(stub.requests.indexOf(serverBatch!));
+
+    // Events of known visitors are reported for flow detection
+    expect(stub.requests.filter(r => r.path === '/api/flows/track')).toEqual([
+      expect.objectContaining({ body: expect.objectContaining({ visitorId: 'browser-visitor', eventName: 'payment_succeeded' }) })
+    ]);
+    expect(client.queueSize).toBe(0);
+  });
+
+  it('keeps a failed batch and retries it on the next flush', async () => {
+    createClient();
+    stub.statuses.push(500);
+
+    client.track('checkout', { step: 1 }, { sessionId: 'browser-session' });
+
+    expect(await client.flush()).toEqual({ sent: 0, failed: 1 });
+    expect(client.queueSize).toBe(1);
+
+    expect(await client.flush()).toEqual({ sent: 1, failed: 0 });
+    expect(client.queueSize).toBe(0);
+    expect(eventBatches(stub.requests).map(r => r.body.events[0].data.name)).toEqual(['checkout', 'checkout']);
+  });
+
+  it('drops the oldest events beyond maxQueueSize', async () => {
+    createClient({ maxQueueSize: 2 });
+    stub.statuses.push(500);
+
+    client.track('first', undefined, { sessionId: 'browser-session' });
+    client.track('second', undefined, { sessionId: 'browser-session' });
+    client.track('third', undefined, { sessionId: 'browser-session' });
+    expect(client.queueSize).toBe(2);
+    expect(client.droppedCount).toBe(1);
+
+    await client.flush();
+    expect(client.queueSize).toBe(2);
+
+    await client.flush();
+    const names = eventBatches(stub.requests).pop()!.body.events.map((e: any) => e.data.name);
+    expect(names).toEqual(['second', 'third']);
+  });
+
+  it('flushes when the process is about to exit', async () => {
+    createClient();
+    client.track('job_finished', undefined, { sessionId: 'browser-session' });
+
+    process.emit('beforeExit', 0);
+
+    await waitFor(() => eventBatches(stub.requests).length === 1);
+    expect(eventBatches(stub.requests)[0].body.events[0].data.name).toBe('job_finished');
+  });
+
+  it('flushes on SIGTERM with handleSignals', async () => {
+    // Another listener keeps the signal from ending the test run
+    const appHandler = () => {};
+    process.on('SIGTERM', appHandler);
+
+    try {
+      createClient({ handleSignals: true });
+      client.track('request_handled', undefined, { sessionId: 'browser-session' });
+
+      process.emit('SIGTERM', 'SIGTERM');
+
+      await waitFor(() => eventBatches(stub.requests).length === 1);
+      expect(client.queueSize).toBe(0);
+      expect(process.listeners('SIGTERM')).toEqual([appHandler]);
+    } finally {
+      process.off('SIGTERM', appHandler);
+    }
+  });
+
+  it('flushes and releases its exit hooks on shutdown()', async () => {
+    const beforeExitListeners = process.listenerCount('beforeExit');
+    const sigintListeners = process.listenerCount('SIGINT');
+    createClient({ handleSignals: true });
+    expect(process.listenerCount('beforeExit')).toBe(beforeExitListeners + 1);
+    expect(process.listenerCount('SIGINT')).toBe(sigintListeners + 1);
+
+    client.track('shutdown_test', undefined, { sessionId: 'browser-session' });
+    expect(await client.shutdown()).toEqual({ sent: 1, failed: 0 });
+
+    expect(process.listenerCount('beforeExit')).toBe(beforeExitListeners);
+    expect(process.listenerCount('SIGINT')).toBe(sigintListeners);
+  });
+});
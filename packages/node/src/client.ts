@@ -0,0 +1,355 @@
+import { SajkoError, SajkoLogger, ScopedLogger } from '@sajko/tracker';
+import type { DefaultEventMap, EventName, TrackArgs, UserTraits } from '@sajko/tracker';
+import { SajkoNodeOptions, EventContext, ServerEvent, FlushResult } from './types';
+
+const DEFAULT_API_ENDPOINT = 'https://api.sajko.ai';
+
+// Signals servers and serverless runtimes stop with
+const EXIT_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+
+interface PendingEvent {
+  sessionId: string;
+  visitorId?: string;
+  event: ServerEvent;
+  pageUrl?: string;
+}
+
+/**
+ * SajkoNodeClient - Sends track/identify calls from the server
+ *
+ * Events are batched per session to the same endpoints the browser script
+ * uses. Events with a sessionId/visitorId from the browser are attached to
+ * that visitor's session; the rest go to a session owned by this client.
+ */
+export class SajkoNodeClient<E extends object = DefaultEventMap> {
+  private options: Required<Omit<SajkoNodeOptions, 'apiEndpoint' | 'fetch' | 'logLevel' | 'logger'>> & {
+    apiEndpoint: string;
+    fetch: typeof fetch;
+  };
+  private pending: PendingEvent[] = [];
+  private serverSessionId: string;
+  private serverSession: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private flushing: Promise<FlushResult> | null = null;
+  private exitHandler: (() => void) | null = null;
+  private signalHandlers = new Map<NodeJS.Signals, () => void>();
+  private dropped: number = 0;
+  private log: ScopedLogger;
+
+  constructor(options: SajkoNodeOptions) {
+    if (!options.websiteId) {
+      throw new SajkoError('INVALID_CONFIG', 'SAJKO: websiteId is required in configuration');
+    }
+
+    const fetchImpl = options.fetch || globalThis.fetch;
+    if (!fetchImpl) {
+      throw new SajkoError('INVALID_CONFIG', 'SAJKO: fetch is not available - use Node 18+ or pass options.fetch');
+    }
+
+    this.options = {
+      websiteId: options.websiteId,
+      apiEndpoint: (options.apiEndpoint || DEFAULT_API_ENDPOINT).replace(/\/$/, ''),
+      debug: options.debug ?? false,
+      batchSize: options.batchSize || 50,
+      flushIntervalMs: options.flushIntervalMs || 8000,
+      flushOnExit: options.flushOnExit !== false,
+      handleSignals: options.handleSignals ?? false,
+      maxQueueSize: options.maxQueueSize ?? 1000,
+      timeout: options.timeout || 10000,
+      fetch: fetchImpl
+    };
+
+    // Per client: a server may run several with different settings
+    const logger = new SajkoLogger();
+    logger.configure(options);
+    this.log = logger.scope('node');
+
+    this.serverSessionId = `sajko_node_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+
+    this.timer = setInterval(() => {
+      if (this.pending.length > 0) {
+        this.flush().catch(() => {
+          // Failed batches are re-queued by flush()
+        });
+      }
+    }, this.options.flushIntervalMs);
+    // Never keep the process alive just for the batch timer
+    this.timer.unref?.();
+
+    if (this.options.flushOnExit) {
+      let exitFlushed = false;
+      this.exitHandler = () => {
+        // beforeExit fires again once the flush settles - only try once
+        if (exitFlushed || this.pending.length === 0) return;
+        exitFlushed = true;
+        this.flush().catch(() => {});
+      };
+      process.on('beforeExit', this.exitHandler);
+    }
+
+    if (this.options.handleSignals) {
+      for (const signal of EXIT_SIGNALS) {
+        const handler = () => this.exitOnSignal(signal);
+        this.signalHandlers.set(signal, handler);
+        process.once(signal, handler);
+      }
+    }
+  }
+
+  /**
+   * Track a custom event
+   */
+  track<K extends EventName<E>>(event: K, ...args: [...TrackArgs<E, K>, EventContext?]): void {
+    const properties = args[0] as E[K] | undefined;
+    const context = (args[1] as EventContext | undefined) || {};
+    this.enqueue({
+      type: 'custom_event',
+      timestamp: toTimestamp(context.timestamp),
+      data: {
+        name: event,
+        properties: properties || {},
+        userId: context.userId,
+        source: 'server'
+      }
+    }, context);
+  }
+
+  /**
+   * Identify a user
+   */
+  identify(userId: string, traits?: UserTraits, context: EventContext = {}): void {
+    this.enqueue({
+      type: 'identify',
+      timestamp: toTimestamp(context.timestamp),
+      data: {
+        userId,
+        traits: traits || {},
+        source: 'server'
+      }
+    }, context);
+  }
+
+  /**
+   * Send all pending events now
+   */
+  async flush(): Promise<FlushResult> {
+    // Let an in-flight flush finish first so batches stay in order
+    if (this.flushing) {
+      await this.flushing.catch(() => {});
+    }
+
+    this.flushing = this.sendPending();
+    try {
+      return await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+  }
+
+  /**
+   * Flush pending events and release the timer and exit hooks
+   *
+   * Await it before process.exit() and at the end of serverless handlers:
+   * nothing else flushes then.
+   */
+  async shutdown(): Promise<FlushResult> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.exitHandler) {
+      process.off('beforeExit', this.exitHandler);
+      this.exitHandler = null;
+    }
+    this.signalHandlers.forEach((handler, signal) => process.off(signal, handler));
+    this.signalHandlers.clear();
+
+    return this.flush();
+  }
+
+  /**
+   * Number of events waiting to be sent
+   */
+  get queueSize(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Number of events dropped because the queue was full
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Session used for events without a sessionId
+   */
+  get sessionId(): string {
+    return this.serverSessionId;
+  }
+
+  private enqueue(event: ServerEvent, context: EventContext): void {
+    this.pending.push({
+      sessionId: context.sessionId || this.serverSessionId,
+      visitorId: context.visitorId,
+      event,
+      pageUrl: context.pageUrl
+    });
+    this.trimQueue();
+
+    if (this.pending.length >= this.options.batchSize) {
+      this.flush().catch(() => {
+        // Failed batches are re-queued by flush()
+      });
+    }
+  }
+
+  private async sendPending(): Promise<FlushResult> {
+    if (this.pending.length === 0) {
+      return { sent: 0, failed: 0 };
+    }
+
+    const batch = this.pending;
+    this.pending = [];
+
+    // Group by session, keeping call order within each session
+    const bySession = new Map<string, PendingEvent[]>();
+    for (const item of batch) {
+      const group = bySession.get(item.sessionId) || [];
+      group.push(item);
+      bySession.set(item.sessionId, group);
+    }
+
+    const result: FlushResult = { sent: 0, failed: 0 };
+
+    for (const [sessionId, items] of bySession) {
+      try {
+        if (sessionId === this.serverSessionId) {
+          await this.ensureServerSession();
+        }
+
+        await this.post(`/api/session-replay/${sessionId}/events`, {
+          events: items.map(item => item.event)
+        });
+
+        result.sent += items.length;
+        this.log.debug(`Sent ${items.length} events`, { sessionId, eventCount: items.length });
+
+        await Promise.all(items.map(item => this.sendFlowEvent(item)));
+      } catch (error) {
+        result.failed += items.length;
+        this.pending.unshift(...items);
+        this.log.warn(`Failed to send ${items.length} events`, { sessionId, eventCount: items.length, error });
+      }
+    }
+
+    this.trimQueue();
+    return result;
+  }
+
+  /**
+   * Drop the oldest events beyond maxQueueSize, so an unreachable endpoint
+   * cannot grow the queue without bound
+   */
+  private trimQueue(): void {
+    const overflow = this.pending.length - this.options.maxQueueSize;
+    if (overflow <= 0) return;
+
+    this.pending.splice(0, overflow);
+    this.dropped += overflow;
+    this.log.warn(`Queue full (${this.options.maxQueueSize}), dropped ${overflow} oldest events`, {
+      dropped: this.dropped
+    });
+  }
+
+  /**
+   * Flush, then let the signal end the process - unless the application
+   * listens for it too and exits on its own terms
+   */
+  private async exitOnSignal(signal: NodeJS.Signals): Promise<void> {
+    this.signalHandlers.delete(signal);
+
+    try {
+      await this.shutdown();
+    } catch (error) {
+      this.log.warn('Failed to flush on exit', { signal, error });
+    }
+
+    if (process.listenerCount(signal) === 0) {
+      process.kill(process.pid, signal);
+    }
+  }
+
+  /**
+   * Create the server-owned session once, before its first batch
+   */
+  private ensureServerSession(): Promise<void> {
+    if (!this.serverSession) {
+      this.serverSession = this.post('/api/session-replay', {
+        sessionId: this.serverSessionId,
+        visitorId: `server_${this.options.websiteId}`,
+        websiteId: this.options.websiteId,
+        startTime: new Date().toISOString(),
+        deviceInfo: {
+          userAgent: `sajko-node (${process.platform}; node ${process.version})`,
+          deviceType: 'server'
+        }
+      }).catch((error) => {
+        this.serverSession = null;
+        throw error;
+      });
+    }
+    return this.serverSession;
+  }
+
+  /**
+   * Report the event for flow detection when it belongs to a known visitor
+   */
+  private async sendFlowEvent(item: PendingEvent): Promise<void> {
+    if (!item.visitorId) return;
+
+    try {
+      await this.post('/api/flows/track', {
+        sessionId: item.sessionId,
+        visitorId: item.visitorId,
+        websiteId: this.options.websiteId,
+        eventType: item.event.type,
+        eventName: item.event.data.name,
+        properties: item.event.data.properties,
+        pageUrl: item.pageUrl || null,
+        timestamp: new Date(item.event.timestamp).toISOString()
+      });
+    } catch (error) {
+      // Flow tracking is non-critical, as in the browser script
+      this.log.debug('Flow tracking failed (non-critical)', { error });
+    }
+  }
+
+  private async post(path: string, body: unknown): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+
+    try {
+      const response = await this.options.fetch(`${this.options.apiEndpoint}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Request to ${path} failed: ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+function toTimestamp(value: Date | number | undefined): number {
+  if (value instanceof Date) return value.getTime();
+  return value ?? Date.now();
+}
@@ -0,0 +1,50 @@
+/**
+ * @sajko/node - Server-side Node.js client for SAJKO analytics
+ *
+ * Sends custom events and identify calls from backends, webhooks and jobs
+ */
+
+import { SajkoNodeClient } from './client';
+import { SajkoNodeOptions } from './types';
+import type { DefaultEventMap } from '@sajko/tracker';
+
+export { SajkoNodeClient };
+export * from './types';
+
+// Re-export core types
+export type {
+  UserTraits,
+  DefaultEventMap,
+  EventName
+} from '@sajko/tracker';
+
+/**
+ * Create a server-side client
+ *
+ * @param options - Client options
+ * @returns Client instance
+ *
+ * @example
+ * ```typescript
+ * import { createNodeClient } from '@sajko/node';
+ *
+ * const sajko = createNodeClient({ websiteId: process.env.SAJKO_WEBSITE_ID! });
+ *
+ * // Payment webhook: attach to the browser session that started checkout
+ * sajko.track('payment_succeeded', { amount: 49 }, {
+ *   sessionId: order.sajkoSessionId,
+ *   visitorId: order.sajkoVisitorId
+ * });
+ *
+ * // Cron job: no browser session
+ * sajko.identify('user-123', { plan: 'pro' });
+ * await sajko.flush();
+ * ```
+ */
+export function createNodeClient<E extends object = DefaultEventMap>(
+  options: SajkoNodeOptions
+): SajkoNodeClient<E> {
+  return new SajkoNodeClient<E>(options);
+}
+
+export default createNodeClient;
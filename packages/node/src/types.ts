@@ -0,0 +1,67 @@
+/**
+ * SAJKO Node Client TypeScript Definitions
+ */
+
+import type { SajkoConfig } from '@sajko/tracker';
+
+export interface SajkoNodeOptions extends Pick<SajkoConfig, 'websiteId' | 'apiEndpoint' | 'debug' | 'logLevel' | 'logger'> {
+  /** Events buffered before a batch is sent */
+  batchSize?: number;
+
+  /** Interval between automatic flushes in ms */
+  flushIntervalMs?: number;
+
+  /**
+   * Flush pending events when the event loop empties (default: true) - not
+   * run on process.exit() or signals, so await shutdown() before those
+   */
+  flushOnExit?: boolean;
+
+  /**
+   * Flush on SIGTERM and SIGINT, then exit as the signal would have
+   * (default: false)
+   */
+  handleSignals?: boolean;
+
+  /** Events kept while the endpoint is unreachable; the oldest are dropped first (default: 1000) */
+  maxQueueSize?: number;
+
+  /** Request timeout in ms */
+  timeout?: number;
+
+  /** Custom fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+export interface EventContext {
+  /** Browser session to attach the event to (from getSessionId() on the client) */
+  sessionId?: string;
+
+  /** Browser visitor to attach the event to (from getVisitorId() on the client) */
+  visitorId?: string;
+
+  /** User the event belongs to */
+  userId?: string;
+
+  /** When the event happened (defaults to now) */
+  timestamp?: Date | number;
+
+  /** Page URL to report with the event */
+  pageUrl?: string;
+}
+
+/**
+ * Event as sent to /api/session-replay/:sessionId/events
+ */
+export interface ServerEvent {
+  type: 'custom_event' | 'identify';
+  timestamp: number;
+  data: Record<string, any>;
+}
+
+export interface FlushResult {
+  /** Events delivered */
+  sent: number;
+  /** Events re-queued after a failed request */
+  failed: number;
+}
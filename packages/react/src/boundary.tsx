@@ -0,0 +1,77 @@
+'use client';
+
+import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { captureException } from '@sajko/tracker';
+
+/**
+ * Props for SajkoErrorBoundary
+ */
+export interface SajkoErrorBoundaryProps {
+  /** Child components */
+  children: ReactNode;
+  /** Rendered instead of the children after an error */
+  fallback?: ReactNode | ((error: Error, reset: () => void) => ReactNode);
+  /** Component name sent with the error (default: from the component stack) */
+  name?: string;
+  /** Called after the error was sent */
+  onError?: (error: Error, info: ErrorInfo) => void;
+}
+
+interface SajkoErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * Error boundary that sends render errors to the replay timeline
+ *
+ * @example
+ * ```tsx
+ * <SajkoErrorBoundary
+ *   name="Checkout"
+ *   fallback={(error, reset) => <button onClick={reset}>Try again</button>}
+ * >
+ *   <Checkout />
+ * </SajkoErrorBoundary>
+ * ```
+ */
+export class SajkoErrorBoundary extends Component<SajkoErrorBoundaryProps, SajkoErrorBoundaryState> {
+  state: SajkoErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): SajkoErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo): void {
+    captureException(error, {
+      mechanism: 'react',
+      component: this.props.name || componentFromStack(info.componentStack),
+      componentStack: info.componentStack || undefined
+    });
+    this.props.onError?.(error, info);
+  }
+
+  reset = (): void => {
+    this.setState({ error: null });
+  };
+
+  render(): ReactNode {
+    const { error } = this.state;
+    if (!error) {
+      return this.props.children;
+    }
+
+    const { fallback } = this.props;
+    if (typeof fallback === 'function') {
+      return fallback(error, this.reset);
+    }
+    return fallback ?? null;
+  }
+}
+
+/**
+ * Innermost component name from a React component stack
+ */
+function componentFromStack(componentStack?: string | null): string | undefined {
+  const match = componentStack?.match(/^\s*(?:at|in)\s+([A-Z][\w$.]*)/m);
+  return match?.[1];
+}
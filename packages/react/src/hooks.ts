@@ -1,7 +1,30 @@
 'use client';
 
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { init, SajkoConfig, SajkoReplay, SajkoMetrics, LoaderOptions } from '@sajko/tracker';
+import {
+  init,
+  on,
+  getInstance,
+  getMetrics,
+  SajkoError,
+  logger,
+  track as trackEvent,
+  identify as identifyUser,
+  alias as aliasUser,
+  group as groupUser,
+  reset as resetIdentity,
+  captureException as captureError,
+  ErrorContext,
+  SajkoConfig,
+  SajkoReplay,
+  SajkoMetrics,
+  SessionChangeReason,
+  LoaderOptions,
+  DefaultEventMap,
+  TrackFunction
+} from '@sajko/tracker';
+
+const log = logger.scope('react');
 
 /**
  * Hook state for SAJKO tracking
@@ -11,14 +34,18 @@ export interface UseSajkoState {
   sajko: SajkoReplay | null;
   /** Loading state */
   loading: boolean;
-  /** Error if initialization failed */
-  error: Error | null;
+  /** Error if initialization failed - branch on `error.code` */
+  error: SajkoError | null;
   /** Current session ID */
   sessionId: string | null;
   /** Current visitor ID */
   visitorId: string | null;
   /** Whether recording is active */
   isRecording: boolean;
+  /** Whether replay capture is paused */
+  isPaused: boolean;
+  /** Why the session last changed, null until it does */
+  sessionChangeReason: SessionChangeReason | null;
 }
 
 /**
@@ -37,6 +64,7 @@ export interface UseSajkoState {
  *   });
  * 
  *   if (loading) return <div>Loading tracker...</div>;
+ *   if (error?.code === 'SCRIPT_BLOCKED') return null; // ad blocker
  *   if (error) return <div>Error: {error.message}</div>;
  * 
  *   return <button onClick={() => sajko?.trackEvent('click', { button: 'cta' })}>
@@ -55,7 +83,9 @@ export function useSajko(
     error: null,
     sessionId: null,
     visitorId: null,
-    isRecording: false
+    isRecording: false,
+    isPaused: false,
+    sessionChangeReason: null
   });
   
   const initialized = useRef(false);
@@ -87,16 +117,19 @@ export function useSajko(
           error: null,
           sessionId: sajkoInstance.sessionId,
           visitorId: sajkoInstance.visitorId || null,
-          isRecording: sajkoInstance.isRecording
+          isRecording: sajkoInstance.isRecording,
+          isPaused: sajkoInstance.isPaused || false,
+          sessionChangeReason: null
         });
       } catch (error) {
         if (!mounted) return;
         
-        console.error('SAJKO: Initialization failed', error);
+        const sajkoError = SajkoError.from(error);
+        log.error('Initialization failed', { error: sajkoError }, sajkoError.code);
         setState(prev => ({
           ...prev,
           loading: false,
-          error: error instanceof Error ? error : new Error('Failed to initialize SAJKO')
+          error: sajkoError
         }));
       }
     };
@@ -108,6 +141,36 @@ export function useSajko(
     };
   }, []); // Only run once on mount
   
+  // Keep session and recording state in sync with the tracker
+  useEffect(() => {
+    const unsubscribers = [
+      on('recording_started', ({ sessionId }) => {
+        setState(prev => ({ ...prev, sessionId, isRecording: true }));
+      }),
+      on('recording_stopped', () => {
+        setState(prev => ({ ...prev, isRecording: false }));
+      }),
+      on('recording_paused', () => {
+        setState(prev => ({ ...prev, isPaused: true }));
+      }),
+      on('recording_resumed', () => {
+        setState(prev => ({ ...prev, isPaused: false }));
+      }),
+      on('session_rotated', ({ sessionId, reason }) => {
+        setState(prev => ({
+          ...prev,
+          sessionId,
+          visitorId: prev.sajko?.visitorId || prev.visitorId,
+          sessionChangeReason: reason
+        }));
+      })
+    ];
+    
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, []);
+  
   return state;
 }
 
@@ -136,18 +199,17 @@ export function usePageView(
     if (pageViewTracked.current) return;
     pageViewTracked.current = true;
     
-    // Wait a bit for SAJKO to initialize
+    // Wait a bit for the document title to settle; the core queues the
+    // event if SAJKO is still initializing
     const timer = setTimeout(() => {
-      if (window.SajkoReplay?.trackEvent) {
-        const pageInfo = {
-          page: pageName || window.location.pathname,
-          url: window.location.href,
-          title: document.title,
-          ...properties
-        };
-        
-        window.SajkoReplay.trackEvent('page_view', pageInfo);
-      }
+      const pageInfo = {
+        page: pageName || window.location.pathname,
+        url: window.location.href,
+        title: document.title,
+        ...properties
+      };
+      
+      trackEvent('page_view', pageInfo);
     }, 100);
     
     return () => clearTimeout(timer);
@@ -157,6 +219,8 @@ export function usePageView(
 /**
  * Hook for tracking events with memoized handler
  * 
+ * Pass an event map to check event names and properties at compile time.
+ * 
  * @returns Track function
  * 
  * @example
@@ -171,17 +235,21 @@ export function usePageView(
  *   return <button onClick={handleClick}>Subscribe</button>;
  * }
  * ```
+ * 
+ * @example
+ * ```tsx
+ * type MyEvents = { checkout: { plan: string } };
+ * 
+ * const track = useTracker<MyEvents>();
+ * track('checkout', { plan: 'pro' });
+ * ```
  */
-export function useTracker() {
+export function useTracker<E extends object = DefaultEventMap>(): TrackFunction<E> {
   const track = useCallback((event: string, properties?: Record<string, any>) => {
-    if (window.SajkoReplay?.trackEvent) {
-      window.SajkoReplay.trackEvent(event, properties);
-    } else {
-      console.warn('SAJKO: Tracker not initialized');
-    }
+    trackEvent(event, properties);
   }, []);
   
-  return track;
+  return track as TrackFunction<E>;
 }
 
 /**
@@ -211,7 +279,10 @@ export function useMetrics(refreshInterval?: number): SajkoMetrics | null {
   
   useEffect(() => {
     const updateMetrics = () => {
-      if (window.SajkoReplay?.getMetrics) {
+      // The core adds sampling and Web Vitals to the replay script's metrics
+      if (getInstance()) {
+        setMetrics(getMetrics());
+      } else if (window.SajkoReplay?.getMetrics) {
         setMetrics(window.SajkoReplay.getMetrics());
       }
     };
@@ -250,12 +321,82 @@ export function useMetrics(refreshInterval?: number): SajkoMetrics | null {
  */
 export function useIdentify() {
   const identify = useCallback((userId: string, traits?: Record<string, any>) => {
-    if (window.SajkoReplay?.identify) {
-      window.SajkoReplay.identify(userId, traits);
-    } else {
-      console.warn('SAJKO: Identify not available');
-    }
+    identifyUser(userId, traits);
   }, []);
   
   return identify;
+}
+
+/**
+ * Hook for the identity lifecycle: identify, alias, group and reset
+ * 
+ * @returns Stable identity functions
+ * 
+ * @example
+ * ```tsx
+ * function AccountMenu({ user }) {
+ *   const { alias, group, reset } = useIdentity();
+ * 
+ *   const handleSignup = () => {
+ *     // Merge the anonymous visitor into the new account
+ *     alias(user.id);
+ *     group(user.companyId, { name: user.companyName });
+ *   };
+ * 
+ *   const handleLogout = async () => {
+ *     // Next user on this device gets a fresh visitor and session
+ *     await reset();
+ *   };
+ * 
+ *   return <button onClick={handleLogout}>Log out</button>;
+ * }
+ * ```
+ */
+export function useIdentity() {
+  const identify = useCallback((userId: string, traits?: Record<string, any>) => {
+    identifyUser(userId, traits);
+  }, []);
+  
+  const alias = useCallback((userId: string, previousId?: string) => {
+    aliasUser(userId, previousId);
+  }, []);
+  
+  const group = useCallback((groupId: string, traits?: Record<string, any>) => {
+    groupUser(groupId, traits);
+  }, []);
+  
+  const reset = useCallback(() => resetIdentity(), []);
+  
+  return { identify, alias, group, reset };
+}
+
+/**
+ * Hook for reporting errors React does not catch, e.g. in event handlers
+ * and effects (render errors are caught by SajkoErrorBoundary)
+ * 
+ * @returns Stable captureException function
+ * 
+ * @example
+ * ```tsx
+ * function SaveButton({ doc }) {
+ *   const captureException = useCaptureException();
+ * 
+ *   const handleSave = async () => {
+ *     try {
+ *       await save(doc);
+ *     } catch (error) {
+ *       captureException(error, { component: 'SaveButton', docId: doc.id });
+ *     }
+ *   };
+ * 
+ *   return <button onClick={handleSave}>Save</button>;
+ * }
+ * ```
+ */
+export function useCaptureException() {
+  const captureException = useCallback((error: unknown, context?: ErrorContext) => {
+    captureError(error, { mechanism: 'react', ...context });
+  }, []);
+  
+  return captureException;
 }
\ No newline at end of file
@@ -9,6 +9,8 @@ export {
   useTracker,
   useMetrics,
   useIdentify,
+  useIdentity,
+  useCaptureException,
   type UseSajkoState
 } from './hooks';
 
@@ -21,6 +23,12 @@ export {
   type SajkoContextValue
 } from './provider';
 
+// Export error boundary
+export { SajkoErrorBoundary, type SajkoErrorBoundaryProps } from './boundary';
+
+// Export replay pause
+export { SajkoPause, type SajkoPauseProps } from './pause';
+
 // Re-export core types for convenience
 export type {
   SajkoConfig,
@@ -28,5 +36,48 @@ export type {
   SajkoMetrics,
   LoaderOptions,
   TrackingEvent,
-  UserTraits
-} from '@sajko/tracker';
\ No newline at end of file
+  UserTraits,
+  GroupTraits,
+  DefaultEventMap,
+  EventName,
+  TrackArgs,
+  TrackFunction,
+  Tracker,
+  ConsentState,
+  ConsentCategory,
+  SajkoEvents,
+  SajkoEventName,
+  SajkoEventHandler,
+  SajkoErrorCode,
+  SamplingConfig,
+  SamplingDecision,
+  ErrorCaptureConfig,
+  ErrorContext,
+  CapturedError,
+  WebVitalsConfig,
+  WebVitalName,
+  WebVitalMetric,
+  NetworkConfig,
+  NetworkCall,
+  ScrubConfig,
+  PIIDetector,
+  ScrubAction,
+  PrivacySignal,
+  PrivacySignalMode,
+  PrivacySignalDecision,
+  StorageType,
+  StorageAdapter,
+  CookieOptions,
+  StorageConfig,
+  CrossDomainConfig,
+  CrossDomainLink,
+  SessionConfig,
+  SessionChangeReason,
+  RecordingPause,
+  LogLevel,
+  LogEntry,
+  Logger
+} from '@sajko/tracker';
+
+// SajkoError is a class - re-exported as a value for instanceof checks
+export { SajkoError, isSajkoError } from '@sajko/tracker';
\ No newline at end of file
@@ -0,0 +1,55 @@
+'use client';
+
+import React, { ReactNode, useEffect, useLayoutEffect } from 'react';
+import { pause, resume } from '@sajko/tracker';
+
+/**
+ * Props for SajkoPause
+ */
+export interface SajkoPauseProps {
+  /** The sensitive screen */
+  children?: ReactNode;
+  /** Shown on the replay's gap marker, e.g. 'payment' */
+  reason?: string;
+}
+
+// Layout effects pause before the recorder sees the children's DOM; they
+// warn during server rendering, where nothing is recorded anyway
+const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
+
+// Mounted SajkoPause components - capture resumes when the last one unmounts
+let mounted = 0;
+
+/**
+ * Pause replay capture while the children are mounted
+ *
+ * DOM changes, input and network calls inside and outside the children
+ * are not recorded, from the first snapshot when mounted before init();
+ * the session stays open and tracked events are still sent. Nested or
+ * sibling pauses resume only when the last one unmounts, with the reason
+ * of the first.
+ *
+ * @example
+ * ```tsx
+ * <SajkoPause reason="payment">
+ *   <CardForm />
+ * </SajkoPause>
+ * ```
+ */
+export function SajkoPause({ children, reason }: SajkoPauseProps) {
+  useIsomorphicLayoutEffect(() => {
+    mounted++;
+    if (mounted === 1) {
+      pause(reason);
+    }
+
+    return () => {
+      mounted--;
+      if (mounted === 0) {
+        resume();
+      }
+    };
+  }, []);
+
+  return <>{children}</>;
+}
\ No newline at end of file
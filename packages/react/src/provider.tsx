@@ -1,8 +1,25 @@
 'use client';
 
-import React, { createContext, useContext, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useRef, ReactNode } from 'react';
 import { useSajko, UseSajkoState } from './hooks';
-import { SajkoConfig, LoaderOptions } from '@sajko/tracker';
+import {
+  track as trackEvent,
+  identify as identifyUser,
+  alias as aliasUser,
+  group as groupUser,
+  reset as resetIdentity,
+  startNewSession as startSession,
+  onSessionChange as subscribeSessionChange,
+  pause as pauseReplay,
+  resume as resumeReplay,
+  captureException as captureError,
+  flush as flushEvents,
+  ErrorContext,
+  SajkoEventHandler,
+  SajkoConfig,
+  SajkoError,
+  LoaderOptions
+} from '@sajko/tracker';
 
 /**
  * SAJKO context value
@@ -12,6 +29,20 @@ export interface SajkoContextValue extends UseSajkoState {
   track: (event: string, properties?: Record<string, any>) => void;
   /** Identify a user */
   identify: (userId: string, traits?: Record<string, any>) => void;
+  /** Link a previous ID to a known user */
+  alias: (userId: string, previousId?: string) => void;
+  /** Associate the user with a group */
+  group: (groupId: string, traits?: Record<string, any>) => void;
+  /** Forget the user and start a new visitor and session */
+  reset: () => Promise<void>;
+  /** End the session and start a new one for the same visitor */
+  startNewSession: () => Promise<void>;
+  /** Pause replay capture, keeping the session */
+  pause: (reason?: string) => void;
+  /** Continue replay capture after pause() */
+  resume: () => void;
+  /** Send an error to the replay timeline */
+  captureException: (error: unknown, context?: ErrorContext) => void;
   /** Flush events */
   flush: () => Promise<void>;
 }
@@ -34,7 +65,9 @@ export interface SajkoProviderProps {
   /** Loading component */
   loadingComponent?: ReactNode;
   /** Error component */
-  errorComponent?: (error: Error) => ReactNode;
+  errorComponent?: (error: SajkoError) => ReactNode;
+  /** Called when a new session starts, with the reason */
+  onSessionChange?: SajkoEventHandler<'session_rotated'>;
 }
 
 /**
@@ -62,26 +95,44 @@ export function SajkoProvider({
   config,
   options,
   loadingComponent,
-  errorComponent
+  errorComponent,
+  onSessionChange
 }: SajkoProviderProps) {
   const sajkoState = useSajko(config, options);
   
+  // Latest callback without resubscribing on every render
+  const onSessionChangeRef = useRef(onSessionChange);
+  onSessionChangeRef.current = onSessionChange;
+  
+  useEffect(() => {
+    return subscribeSessionChange((payload) => onSessionChangeRef.current?.(payload));
+  }, []);
+  
   // Create context value with helper functions
   const contextValue: SajkoContextValue = {
     ...sajkoState,
     track: (event: string, properties?: Record<string, any>) => {
-      if (sajkoState.sajko?.trackEvent) {
-        sajkoState.sajko.trackEvent(event, properties);
-      }
+      trackEvent(event, properties);
     },
     identify: (userId: string, traits?: Record<string, any>) => {
-      if (sajkoState.sajko?.identify) {
-        sajkoState.sajko.identify(userId, traits);
-      }
+      identifyUser(userId, traits);
+    },
+    alias: (userId: string, previousId?: string) => {
+      aliasUser(userId, previousId);
+    },
+    group: (groupId: string, traits?: Record<string, any>) => {
+      groupUser(groupId, traits);
+    },
+    reset: () => resetIdentity(),
+    startNewSession: () => startSession(),
+    pause: (reason?: string) => pauseReplay(reason),
+    resume: () => resumeReplay(),
+    captureException: (error: unknown, context?: ErrorContext) => {
+      captureError(error, context);
     },
     flush: async () => {
-      if (sajkoState.sajko?.flush) {
-        await sajkoState.sajko.flush();
+      if (sajkoState.sajko) {
+        await flushEvents();
       }
     }
   };
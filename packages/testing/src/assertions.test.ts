@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { identify, track } from '@sajko/tracker';
+import { expectIdentified, expectNotTracked, expectTracked } from './assertions';
+import { mockSajko, restoreSajko } from './mock';
+
+describe('assertions', () => {
+  beforeEach(() => {
+    mockSajko();
+  });
+
+  afterEach(() => restoreSajko());
+
+  describe('expectTracked', () => {
+    it('passes on a subset of the properties', () => {
+      track('checkout', { plan: 'pro', amount: 49, items: ['seat'] });
+
+      const event = expectTracked('checkout', { plan: 'pro' });
+      expect(event.properties.amount).toBe(49);
+      expectTracked('checkout');
+      expectTracked('checkout', { amount: expect.any(Number), items: ['seat'] });
+    });
+
+    it('fails with the tracked events when nothing matches', () => {
+      track('checkout', { plan: 'free' });
+
+      expect(() => expectTracked('checkout', { plan: 'pro' })).toThrow(
+        'Expected "checkout" to be tracked with {"plan":"pro"}\nTracked events:\n  - "checkout" {"plan":"free"}'
+      );
+      expect(() => expectTracked('signup')).toThrow('Expected "signup" to be tracked');
+      expect(() => expectTracked('checkout', { items: [] })).toThrow();
+    });
+
+    it('fails when nothing was tracked', () => {
+      expect(() => expectTracked('checkout')).toThrow('Tracked events:\n  (none)');
+    });
+  });
+
+  describe('expectNotTracked', () => {
+    it('passes when no matching event was tracked', () => {
+      track('checkout', { plan: 'free' });
+
+      expectNotTracked('signup');
+      expectNotTracked('checkout', { plan: 'pro' });
+    });
+
+    it('fails on a matching event', () => {
+      track('checkout', { plan: 'pro' });
+
+      expect(() => expectNotTracked('checkout')).toThrow(
+        'Expected "checkout" not to be tracked, but it was with {"plan":"pro"}'
+      );
+      expect(() => expectNotTracked('checkout', { plan: expect.any(String) })).toThrow();
+    });
+  });
+
+  describe('expectIdentified', () => {
+    it('passes on a subset of the traits', () => {
+      identify('user-1', { email: 'user@example.com', plan: 'pro' });
+
+      expect(expectIdentified('user-1', { plan: 'pro' }).userId).toBe('user-1');
+      expectIdentified('user-1');
+    });
+
+    it('fails with the identify() calls when nothing matches', () => {
+      identify('user-1', { plan: 'free' });
+
+      expect(() => expectIdentified('user-1', { plan: 'pro' })).toThrow(
+        'identify() calls:\n  - "user-1" {"plan":"free"}'
+      );
+      expect(() => expectIdentified('user-2')).toThrow('Expected "user-2" to be identified');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import type { UserTraits } from '@sajko/tracker';
+import { getSajkoMock } from './mock';
+import { TrackedEvent, IdentifyCall } from './types';
+
+/**
+ * Assert that an event was tracked
+ *
+ * Properties are matched as a subset, so only the ones given are checked.
+ * Jest and Vitest asymmetric matchers (`expect.any(Number)`, ...) work as
+ * values.
+ *
+ * @param event - Event name
+ * @param properties - Properties the event must have
+ * @returns The first matching event
+ *
+ * @example
+ * ```typescript
+ * expectTracked('checkout', { plan: 'pro', amount: expect.any(Number) });
+ * ```
+ */
+export function expectTracked(event: string, properties?: Record<string, any>): TrackedEvent {
+  const tracked = getSajkoMock().tracked();
+  const match = tracked.find(item => item.event === event && matches(item.properties, properties));
+
+  if (!match) {
+    throw new Error(
+      `Expected "${event}" to be tracked${describeExpected(properties)}\n` +
+      `Tracked events:\n${describeReceived(tracked.map(item => [item.event, item.properties]))}`
+    );
+  }
+  return match;
+}
+
+/**
+ * Assert that no matching event was tracked
+ *
+ * @param event - Event name
+ * @param properties - Only fail for events with these properties
+ */
+export function expectNotTracked(event: string, properties?: Record<string, any>): void {
+  const tracked = getSajkoMock().tracked(event);
+  const match = tracked.find(item => matches(item.properties, properties));
+
+  if (match) {
+    throw new Error(
+      `Expected "${event}" not to be tracked${describeExpected(properties)}, ` +
+      `but it was with ${format(match.properties)}`
+    );
+  }
+}
+
+/**
+ * Assert that a user was identified
+ *
+ * @param userId - User identifier
+ * @param traits - Traits the call must have
+ * @returns The first matching call
+ */
+export function expectIdentified(userId: string, traits?: UserTraits): IdentifyCall {
+  const identified = getSajkoMock().identified();
+  const match = identified.find(item => item.userId === userId && matches(item.traits, traits));
+
+  if (!match) {
+    throw new Error(
+      `Expected "${userId}" to be identified${describeExpected(traits)}\n` +
+      `identify() calls:\n${describeReceived(identified.map(item => [item.userId, item.traits]))}`
+    );
+  }
+  return match;
+}
+
+/**
+ * Subset match: every key in expected must match the actual value
+ */
+function matches(actual: unknown, expected: unknown): boolean {
+  if (expected === undefined) return true;
+
+  if (isAsymmetricMatcher(expected)) {
+    return expected.asymmetricMatch(actual);
+  }
+
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual)
+      && actual.length === expected.length
+      && expected.every((item, index) => matches(actual[index], item));
+  }
+
+  if (typeof expected === 'object' && expected !== null) {
+    if (typeof actual !== 'object' || actual === null) return false;
+    return Object.entries(expected).every(([key, value]) =>
+      matches((actual as Record<string, unknown>)[key], value)
+    );
+  }
+
+  return Object.is(actual, expected);
+}
+
+function isAsymmetricMatcher(value: unknown): value is { asymmetricMatch: (actual: unknown) => boolean } {
+  return typeof value === 'object'
+    && value !== null
+    && typeof (value as { asymmetricMatch?: unknown }).asymmetricMatch === 'function';
+}
+
+function describeExpected(values?: Record<string, any>): string {
+  return values === undefined ? '' : ` with ${format(values)}`;
+}
+
+function describeReceived(items: Array<[string, Record<string, any>]>): string {
+  if (items.length === 0) return '  (none)';
+  return items.map(([name, values]) => `  - "${name}" ${format(values)}`).join('\n');
+}
+
+function format(value: unknown): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
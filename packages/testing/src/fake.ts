@@ -0,0 +1,253 @@
+import type {
+  SajkoReplay,
+  SajkoMetrics,
+  SajkoEvents,
+  SajkoEventName,
+  SajkoEventHandler,
+  ConsentState,
+  SamplingDecision,
+  CapturedError,
+  WebVitalMetric,
+  RecordingPause
+} from '@sajko/tracker';
+import {
+  RecordedCall,
+  TrackedEvent,
+  IdentifyCall,
+  AliasCall,
+  GroupCall,
+  FakeSajkoOptions
+} from './types';
+
+/**
+ * FakeSajkoReplay - In-memory SajkoReplay that records every call
+ *
+ * Stands in for the replay script in unit tests: nothing is loaded and no
+ * request is sent. Calls made through the core (track, identify, ...) arrive
+ * here after middleware, so assertions see what would have been sent.
+ */
+export class FakeSajkoReplay implements SajkoReplay {
+  sessionId: string;
+  visitorId: string;
+  isRecording: boolean;
+  version: string = '4.0.0-fake';
+  useWasm: boolean = false;
+
+  /** Every call, in order */
+  readonly calls: RecordedCall[] = [];
+  /** Consent last applied by the core */
+  consent: ConsentState | null = null;
+  /** Sampling decision last applied by the core */
+  sampling: SamplingDecision | null = null;
+  /** Super properties last handed over by the core */
+  superProperties: Record<string, any> = {};
+
+  private metrics: Partial<SajkoMetrics>;
+  private listeners = new Map<SajkoEventName, Set<(payload: any) => void>>();
+  private resets: number = 0;
+  private sessions: number = 0;
+  private pausedAt: RecordingPause | null = null;
+
+  constructor(options: FakeSajkoOptions = {}) {
+    this.sessionId = options.sessionId || 'test-session';
+    this.visitorId = options.visitorId || 'test-visitor';
+    this.isRecording = options.isRecording ?? true;
+    this.metrics = options.metrics || {};
+  }
+
+  async start(): Promise<void> {
+    this.record('start', []);
+    if (!this.isRecording) {
+      this.isRecording = true;
+      this.emit('recording_started', { sessionId: this.sessionId });
+    }
+  }
+
+  stop(): void {
+    this.record('stop', []);
+    if (this.isRecording) {
+      this.isRecording = false;
+      this.emit('recording_stopped', { sessionId: this.sessionId });
+    }
+  }
+
+  async flush(): Promise<void> {
+    this.record('flush', []);
+  }
+
+  trackEvent(eventName: string, data?: any): void {
+    this.record('trackEvent', [eventName, data]);
+  }
+
+  identify(userId: string, traits?: any): void {
+    this.record('identify', [userId, traits]);
+  }
+
+  alias(userId: string, previousId?: string | null): void {
+    this.record('alias', [userId, previousId]);
+  }
+
+  group(groupId: string, traits?: any): void {
+    this.record('group', [groupId, traits]);
+  }
+
+  captureException(error: CapturedError): void {
+    this.record('captureException', [error]);
+  }
+
+  reportWebVital(metric: WebVitalMetric): void {
+    this.record('reportWebVital', [metric]);
+  }
+
+  /**
+   * Rotate to new IDs like the replay script does on logout
+   */
+  reset(): void {
+    this.record('reset', []);
+    const previousSessionId = this.sessionId;
+    this.resets++;
+    this.sessionId = `test-session-${this.resets}`;
+    this.visitorId = `test-visitor-${this.resets}`;
+    this.emit('session_rotated', { sessionId: this.sessionId, previousSessionId, reason: 'reset' });
+  }
+
+  /**
+   * Rotate to a new session ID, keeping the visitor
+   */
+  startNewSession(): void {
+    this.record('startNewSession', []);
+    const previousSessionId = this.sessionId;
+    this.sessions++;
+    this.sessionId = `test-session-s${this.sessions}`;
+    this.emit('session_rotated', { sessionId: this.sessionId, previousSessionId, reason: 'manual' });
+  }
+
+  get isPaused(): boolean {
+    return this.pausedAt !== null;
+  }
+
+  pause(reason?: string): void {
+    this.record('pause', [reason]);
+    if (this.pausedAt) return;
+    this.pausedAt = { reason: reason || null, since: Date.now() };
+    this.emit('recording_paused', { sessionId: this.sessionId, reason: this.pausedAt.reason });
+  }
+
+  resume(): void {
+    this.record('resume', []);
+    if (!this.pausedAt) return;
+    const { reason, since } = this.pausedAt;
+    this.pausedAt = null;
+    this.emit('recording_resumed', { sessionId: this.sessionId, reason, pausedMs: Date.now() - since });
+  }
+
+  setConsent(consent: ConsentState): void {
+    this.record('setConsent', [consent]);
+    this.consent = consent;
+  }
+
+  setSampling(decision: SamplingDecision): void {
+    this.record('setSampling', [decision]);
+    this.sampling = decision;
+  }
+
+  setSuperProperties(properties: Record<string, any>): void {
+    this.record('setSuperProperties', [properties]);
+    this.superProperties = properties;
+  }
+
+  getMetrics(): SajkoMetrics {
+    return {
+      sessionId: this.sessionId,
+      isRecording: this.isRecording,
+      queueSize: 0,
+      hasWasm: false,
+      ...(this.pausedAt ? { paused: { ...this.pausedAt } } : {}),
+      ...this.metrics
+    };
+  }
+
+  on<K extends SajkoEventName>(event: K, handler: SajkoEventHandler<K>): () => void {
+    let handlers = this.listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(event, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers!.delete(handler);
+    };
+  }
+
+  /**
+   * Raise a lifecycle event, e.g. to test a flush_failed handler
+   */
+  emit<K extends SajkoEventName>(event: K, payload: SajkoEvents[K]): void {
+    this.listeners.get(event)?.forEach(handler => handler(payload));
+  }
+
+  /**
+   * Custom events received, optionally only those with the given name
+   */
+  tracked(event?: string): TrackedEvent[] {
+    return this.calls
+      .filter(call => call.method === 'trackEvent' && (event === undefined || call.args[0] === event))
+      .map(call => ({ event: call.args[0], properties: call.args[1] || {} }));
+  }
+
+  /**
+   * identify() calls received
+   */
+  identified(): IdentifyCall[] {
+    return this.calls
+      .filter(call => call.method === 'identify')
+      .map(call => ({ userId: call.args[0], traits: call.args[1] || {} }));
+  }
+
+  /**
+   * alias() calls received
+   */
+  aliased(): AliasCall[] {
+    return this.calls
+      .filter(call => call.method === 'alias')
+      .map(call => ({ userId: call.args[0], previousId: call.args[1] ?? null }));
+  }
+
+  /**
+   * group() calls received
+   */
+  grouped(): GroupCall[] {
+    return this.calls
+      .filter(call => call.method === 'group')
+      .map(call => ({ groupId: call.args[0], traits: call.args[1] || {} }));
+  }
+
+  /**
+   * Errors received from captureException() and the error handlers
+   */
+  exceptions(): CapturedError[] {
+    return this.calls
+      .filter(call => call.method === 'captureException')
+      .map(call => call.args[0]);
+  }
+
+  /**
+   * Web Vitals received
+   */
+  webVitals(): WebVitalMetric[] {
+    return this.calls
+      .filter(call => call.method === 'reportWebVital')
+      .map(call => call.args[0]);
+  }
+
+  /**
+   * Forget recorded calls, keeping IDs and listeners
+   */
+  clear(): void {
+    this.calls.length = 0;
+  }
+
+  private record(method: string, args: any[]): void {
+    this.calls.push({ method, args, timestamp: Date.now() });
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * @sajko/testing - In-memory SAJKO fake and assertions for unit tests
+ *
+ * Works with Vitest and Jest in a jsdom environment; nothing is loaded
+ * and no request is sent.
+ */
+
+export { FakeSajkoReplay } from './fake';
+export { mockSajko, restoreSajko, getSajkoMock } from './mock';
+export { expectTracked, expectNotTracked, expectIdentified } from './assertions';
+export * from './types';
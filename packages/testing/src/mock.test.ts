@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { getInstance, identify, register, track } from '@sajko/tracker';
+import { FakeSajkoReplay } from './fake';
+import { getSajkoMock, mockSajko, restoreSajko } from './mock';
+
+describe('mockSajko', () => {
+  afterEach(() => restoreSajko());
+
+  it('is adopted by the core instead of loading the replay script', () => {
+    const fake = mockSajko({ sessionId: 'session-1' });
+
+    track('checkout', { plan: 'pro' });
+    identify('user-1', { email: 'user@example.com' });
+
+    expect(getInstance()).toBe(fake);
+    expect(getInstance()?.sessionId).toBe('session-1');
+    expect(fake.tracked()).toEqual([{ event: 'checkout', properties: { plan: 'pro' } }]);
+    expect(fake.identified()).toEqual([
+      expect.objectContaining({ userId: 'user-1', traits: { email: 'user@example.com' } })
+    ]);
+  });
+
+  it('receives super properties through the core', () => {
+    const fake = mockSajko();
+
+    register({ tenant: 'acme' }, 'page');
+    track('report_viewed');
+
+    expect(fake.superProperties).toEqual({ tenant: 'acme' });
+    expect(fake.tracked('report_viewed')[0].properties).toEqual({ tenant: 'acme' });
+  });
+
+  it('starts each test from a fresh fake', () => {
+    const first = mockSajko();
+    track('first_test');
+
+    const second = mockSajko();
+    track('second_test');
+
+    expect(second).not.toBe(first);
+    expect(getSajkoMock()).toBe(second);
+    expect(second.tracked().map(item => item.event)).toEqual(['second_test']);
+  });
+
+  it('is removed by restoreSajko()', () => {
+    mockSajko();
+    restoreSajko();
+
+    expect(window.SajkoReplay).toBeUndefined();
+    expect(getInstance()).toBeNull();
+    expect(() => getSajkoMock()).toThrow('No fake installed');
+  });
+
+  it('installs a FakeSajkoReplay on window', () => {
+    expect(mockSajko()).toBeInstanceOf(FakeSajkoReplay);
+    expect(window.SajkoReplay).toBe(getSajkoMock());
+  });
+});
@@ -0,0 +1,67 @@
+import { unload } from '@sajko/tracker';
+import { FakeSajkoReplay } from './fake';
+import { MockSajkoOptions } from './types';
+
+let current: FakeSajkoReplay | null = null;
+
+/**
+ * Install a fake replay instance for the core, React and Vue packages
+ *
+ * init(), useSajko(), SajkoProvider and the Vue plugin pick up the fake
+ * instead of loading the replay script, and track()/identify()/... calls
+ * are recorded on it. Needs a DOM (jsdom or happy-dom).
+ *
+ * @param options - IDs and state for the fake
+ * @returns The installed fake
+ *
+ * @example
+ * ```typescript
+ * import { mockSajko, restoreSajko, expectTracked } from '@sajko/testing';
+ *
+ * beforeEach(() => mockSajko());
+ * afterEach(() => restoreSajko());
+ *
+ * it('tracks checkout', () => {
+ *   render(<CheckoutButton plan="pro" />);
+ *   fireEvent.click(screen.getByText('Buy'));
+ *   expectTracked('checkout', { plan: 'pro' });
+ * });
+ * ```
+ */
+export function mockSajko(options: MockSajkoOptions = {}): FakeSajkoReplay {
+  if (typeof window === 'undefined') {
+    throw new Error('SAJKO Testing: mockSajko() needs a DOM - run tests with the jsdom environment');
+  }
+
+  const { resetCore = true, ...fakeOptions } = options;
+
+  if (current || resetCore) {
+    restoreSajko();
+  }
+
+  current = new FakeSajkoReplay(fakeOptions);
+  window.SajkoReplay = current;
+  return current;
+}
+
+/**
+ * Remove the fake and reset the core's state
+ */
+export function restoreSajko(): void {
+  unload();
+  if (typeof window !== 'undefined') {
+    delete window.SajkoReplay;
+    delete window.sajkoConfig;
+  }
+  current = null;
+}
+
+/**
+ * The fake installed by mockSajko()
+ */
+export function getSajkoMock(): FakeSajkoReplay {
+  if (!current) {
+    throw new Error('SAJKO Testing: No fake installed - call mockSajko() first');
+  }
+  return current;
+}
@@ -0,0 +1,58 @@
+/**
+ * SAJKO Testing TypeScript Definitions
+ */
+
+import type { SajkoMetrics, GroupTraits, UserTraits } from '@sajko/tracker';
+
+/**
+ * Any call made on the fake, in order
+ */
+export interface RecordedCall {
+  /** SajkoReplay method that was called */
+  method: string;
+  /** Arguments it was called with */
+  args: any[];
+  /** When it was called */
+  timestamp: number;
+}
+
+export interface TrackedEvent {
+  /** Event name */
+  event: string;
+  /** Properties after middleware and super properties */
+  properties: Record<string, any>;
+}
+
+export interface IdentifyCall {
+  userId: string;
+  traits: UserTraits;
+}
+
+export interface AliasCall {
+  userId: string;
+  previousId: string | null;
+}
+
+export interface GroupCall {
+  groupId: string;
+  traits: GroupTraits;
+}
+
+export interface FakeSajkoOptions {
+  /** Session ID to report (default: 'test-session') */
+  sessionId?: string;
+  /** Visitor ID to report (default: 'test-visitor') */
+  visitorId?: string;
+  /** Whether the fake starts out recording (default: true) */
+  isRecording?: boolean;
+  /** Extra fields returned by getMetrics() */
+  metrics?: Partial<SajkoMetrics>;
+}
+
+export interface MockSajkoOptions extends FakeSajkoOptions {
+  /**
+   * Reset the core before installing, so state from an earlier test
+   * (init promise, queue, consent) does not leak in (default: true)
+   */
+  resetCore?: boolean;
+}
@@ -1,5 +1,16 @@
 import { ref, inject, onMounted, onUnmounted, Ref } from 'vue';
-import { SajkoReplay, SajkoMetrics } from '@sajko/tracker';
+import {
+  on,
+  logger,
+  ErrorContext,
+  SajkoReplay,
+  SajkoMetrics,
+  DefaultEventMap,
+  TrackFunction,
+  SessionChangeReason
+} from '@sajko/tracker';
+
+const log = logger.scope('vue');
 
 /**
  * SAJKO composable interface
@@ -9,6 +20,20 @@ export interface SajkoComposable {
   track: (event: string, properties?: Record<string, any>) => void;
   /** Identify a user */
   identify: (userId: string, traits?: Record<string, any>) => void;
+  /** Link a previous ID to a known user */
+  alias: (userId: string, previousId?: string) => void;
+  /** Associate the user with a group */
+  group: (groupId: string, traits?: Record<string, any>) => void;
+  /** Forget the user and start a new visitor and session */
+  reset: () => Promise<void>;
+  /** End the current session and start a new one for the same visitor */
+  startNewSession: () => Promise<void>;
+  /** Pause replay capture, keeping the session */
+  pause: (reason?: string) => void;
+  /** Continue replay capture after pause() */
+  resume: () => void;
+  /** Send an error to the replay timeline */
+  captureException: (error: unknown, context?: ErrorContext) => void;
   /** Get current metrics */
   getMetrics: () => SajkoMetrics | null;
   /** Get session ID */
@@ -43,12 +68,19 @@ export function useSajko(): SajkoComposable {
   const sajko = inject<SajkoComposable>('sajko');
   
   if (!sajko) {
-    console.warn('SAJKO Vue: useSajko() must be used after app.use(SajkoPlugin)');
+    log.warn('useSajko() must be used after app.use(SajkoPlugin)');
     
     // Return no-op functions
     return {
       track: () => {},
       identify: () => {},
+      alias: () => {},
+      group: () => {},
+      reset: () => Promise.resolve(),
+      startNewSession: () => Promise.resolve(),
+      pause: () => {},
+      resume: () => {},
+      captureException: () => {},
       getMetrics: () => null,
       getSessionId: () => null,
       isRecording: () => false
@@ -143,14 +175,18 @@ export function useMetrics(interval?: number): Ref<SajkoMetrics | null> {
 /**
  * Composable for tracking custom events
  * 
+ * Pass an event map to check event names and properties at compile time.
+ * 
  * @returns Track function
  * 
  * @example
  * ```vue
- * <script setup>
+ * <script setup lang="ts">
  * import { useTracker } from '@sajko/vue';
  * 
- * const track = useTracker();
+ * type MyEvents = { form_submit: { formId: string } };
+ * 
+ * const track = useTracker<MyEvents>();
  * 
  * const handleSubmit = () => {
  *   track('form_submit', { formId: 'contact' });
@@ -158,9 +194,9 @@ export function useMetrics(interval?: number): Ref<SajkoMetrics | null> {
  * </script>
  * ```
  */
-export function useTracker() {
+export function useTracker<E extends object = DefaultEventMap>(): TrackFunction<E> {
   const { track } = useSajko();
-  return track;
+  return track as TrackFunction<E>;
 }
 
 /**
@@ -187,40 +223,105 @@ export function useIdentify() {
   return identify;
 }
 
+/**
+ * Composable for the identity lifecycle: identify, alias, group and reset
+ * 
+ * @returns Identity functions
+ * 
+ * @example
+ * ```vue
+ * <script setup>
+ * import { useIdentity } from '@sajko/vue';
+ * 
+ * const { alias, group, reset } = useIdentity();
+ * 
+ * const onSignup = (user) => {
+ *   alias(user.id);
+ *   group(user.companyId, { name: user.companyName });
+ * };
+ * 
+ * // Next user on this device gets a fresh visitor and session
+ * const onLogout = () => reset();
+ * </script>
+ * ```
+ */
+export function useIdentity() {
+  const { identify, alias, group, reset } = useSajko();
+  return { identify, alias, group, reset };
+}
+
 /**
  * Composable for session info
  * 
- * @returns Session ID and recording status
+ * Updates when recording starts or stops and when the session rotates.
+ * 
+ * @param onSessionChange - Called when the session rotates, with the new
+ * session ID and why it rotated
+ * @returns Session ID, recording status, the last rotation reason and
+ * startNewSession()
  * 
  * @example
  * ```vue
  * <script setup>
  * import { useSession } from '@sajko/vue';
  * 
- * const { sessionId, isRecording } = useSession();
+ * const { sessionId, isRecording, startNewSession } = useSession(
+ *   ({ sessionId, reason }) => console.log('New session', sessionId, reason)
+ * );
  * </script>
  * 
  * <template>
  *   <div>
  *     <p>Session: {{ sessionId }}</p>
  *     <p v-if="isRecording">Recording active</p>
+ *     <button @click="startNewSession()">Next customer</button>
  *   </div>
  * </template>
  * ```
  */
-export function useSession() {
-  const { getSessionId, isRecording } = useSajko();
+export function useSession(
+  onSessionChange?: (payload: DefaultEventMap['session_rotated']) => void
+) {
+  const { getSessionId, isRecording, startNewSession } = useSajko();
   
   const sessionId = ref<string | null>(null);
   const recording = ref(false);
+  const sessionChangeReason = ref<SessionChangeReason | null>(null);
+  
+  let unsubscribers: Array<() => void> = [];
   
   onMounted(() => {
     sessionId.value = getSessionId();
     recording.value = isRecording();
+    
+    unsubscribers = [
+      on('ready', (payload) => {
+        sessionId.value = payload.sessionId;
+        recording.value = payload.isRecording;
+      }),
+      on('recording_started', (payload) => {
+        sessionId.value = payload.sessionId;
+        recording.value = true;
+      }),
+      on('recording_stopped', () => {
+        recording.value = false;
+      }),
+      on('session_rotated', (payload) => {
+        sessionId.value = payload.sessionId;
+        sessionChangeReason.value = payload.reason;
+        onSessionChange?.(payload);
+      })
+    ];
+  });
+  
+  onUnmounted(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
   });
   
   return {
     sessionId,
-    isRecording: recording
+    isRecording: recording,
+    sessionChangeReason,
+    startNewSession
   };
 }
\ No newline at end of file
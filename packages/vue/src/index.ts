@@ -12,6 +12,7 @@ export {
   useMetrics,
   useTracker,
   useIdentify,
+  useIdentity,
   useSession,
   type SajkoComposable
 } from './composables';
@@ -23,5 +24,48 @@ export type {
   SajkoMetrics,
   LoaderOptions,
   TrackingEvent,
-  UserTraits
-} from '@sajko/tracker';
\ No newline at end of file
+  UserTraits,
+  GroupTraits,
+  DefaultEventMap,
+  EventName,
+  TrackArgs,
+  TrackFunction,
+  Tracker,
+  ConsentState,
+  ConsentCategory,
+  SajkoEvents,
+  SajkoEventName,
+  SajkoEventHandler,
+  SajkoErrorCode,
+  SamplingConfig,
+  SamplingDecision,
+  ErrorCaptureConfig,
+  ErrorContext,
+  CapturedError,
+  WebVitalsConfig,
+  WebVitalName,
+  WebVitalMetric,
+  NetworkConfig,
+  NetworkCall,
+  ScrubConfig,
+  PIIDetector,
+  ScrubAction,
+  PrivacySignal,
+  PrivacySignalMode,
+  PrivacySignalDecision,
+  StorageType,
+  StorageAdapter,
+  CookieOptions,
+  StorageConfig,
+  CrossDomainConfig,
+  CrossDomainLink,
+  SessionConfig,
+  SessionChangeReason,
+  RecordingPause,
+  LogLevel,
+  LogEntry,
+  Logger
+} from '@sajko/tracker';
+
+// SajkoError is a class - re-exported as a value for instanceof checks
+export { SajkoError, isSajkoError } from '@sajko/tracker';
\ No newline at end of file
@@ -1,5 +1,25 @@
 import { App, Plugin } from 'vue';
-import { init, SajkoConfig, SajkoReplay, LoaderOptions } from '@sajko/tracker';
+import {
+  init,
+  SajkoError,
+  logger,
+  track as trackEvent,
+  identify as identifyUser,
+  alias as aliasUser,
+  group as groupUser,
+  reset as resetIdentity,
+  startNewSession as startSession,
+  pause as pauseReplay,
+  resume as resumeReplay,
+  captureException as captureError,
+  getMetrics as getCoreMetrics,
+  ErrorContext,
+  SajkoConfig,
+  SajkoReplay,
+  LoaderOptions
+} from '@sajko/tracker';
+
+const log = logger.scope('vue');
 
 /**
  * SAJKO Vue plugin options
@@ -11,6 +31,10 @@ export interface SajkoPluginOptions extends SajkoConfig {
   trackRouteChanges?: boolean;
   /** Custom route tracking formatter */
   formatRouteName?: (route: any) => string;
+  /** Whether to send errors reaching app.config.errorHandler (default: true) */
+  captureErrors?: boolean;
+  /** Called when initialization fails - branch on `error.code` */
+  onError?: (error: SajkoError) => void;
 }
 
 /**
@@ -46,14 +70,28 @@ export const SajkoPlugin: Plugin = {
       loaderOptions,
       trackRouteChanges = true,
       formatRouteName,
+      captureErrors = true,
+      onError,
       ...config
     } = options;
     
+    // Install before init resolves so errors thrown meanwhile are queued
+    if (captureErrors) {
+      setupErrorCapture(app);
+    }
+    
+    // With the router already installed, a sensitive first route pauses
+    // before the replay script takes its first snapshot
+    const routerInstalled = !!app.config.globalProperties.$router;
+    if (routerInstalled) {
+      setupRoutePause(app);
+    }
+    
     // Initialize SAJKO
     init(config, loaderOptions)
       .then((instance) => {
         sajkoInstance = instance;
-        console.log('SAJKO Vue: Initialized successfully', {
+        log.info('Initialized successfully', {
           sessionId: instance.sessionId,
           version: instance.version
         });
@@ -62,29 +100,47 @@ export const SajkoPlugin: Plugin = {
         if (trackRouteChanges && app.config.globalProperties.$router) {
           setupRouteTracking(app, formatRouteName);
         }
+        
+        if (!routerInstalled && app.config.globalProperties.$router) {
+          setupRoutePause(app);
+        }
       })
       .catch((error) => {
-        console.error('SAJKO Vue: Failed to initialize', error);
+        const sajkoError = SajkoError.from(error);
+        log.error('Failed to initialize', { error: sajkoError }, sajkoError.code);
+        onError?.(sajkoError);
       });
     
     // Provide global properties
     app.config.globalProperties.$sajko = {
+      // Routed through the core so calls made before init resolves are
+      // queued and every event passes the configured middleware
       track: (event: string, properties?: Record<string, any>) => {
-        if (sajkoInstance?.trackEvent) {
-          sajkoInstance.trackEvent(event, properties);
-        } else {
-          console.warn('SAJKO Vue: Not initialized yet');
-        }
+        trackEvent(event, properties);
       },
       identify: (userId: string, traits?: Record<string, any>) => {
-        if (sajkoInstance?.identify) {
-          sajkoInstance.identify(userId, traits);
-        } else {
-          console.warn('SAJKO Vue: Not initialized yet');
-        }
+        identifyUser(userId, traits);
+      },
+      alias: (userId: string, previousId?: string) => {
+        aliasUser(userId, previousId);
+      },
+      group: (groupId: string, traits?: Record<string, any>) => {
+        groupUser(groupId, traits);
+      },
+      reset: () => resetIdentity(),
+      startNewSession: () => startSession(),
+      pause: (reason?: string) => {
+        pauseReplay(reason);
+      },
+      resume: () => {
+        resumeReplay();
+      },
+      captureException: (error: unknown, context?: ErrorContext) => {
+        captureError(error, context);
       },
       getMetrics: () => {
-        return sajkoInstance?.getMetrics() || null;
+        // The core adds sampling and Web Vitals to the replay script's metrics
+        return sajkoInstance ? getCoreMetrics() : null;
       },
       getSessionId: () => {
         return sajkoInstance?.sessionId || null;
@@ -99,6 +155,28 @@ export const SajkoPlugin: Plugin = {
   }
 };
 
+/**
+ * Send component errors to SAJKO, keeping an existing errorHandler
+ */
+function setupErrorCapture(app: App) {
+  const previous = app.config.errorHandler;
+  
+  app.config.errorHandler = (error, instance, info) => {
+    captureError(error, {
+      mechanism: 'vue',
+      component: instance?.$options.name || instance?.$options.__name,
+      info
+    });
+    
+    if (previous) {
+      previous(error, instance, info);
+    } else {
+      // Vue only logs errors itself when no handler is set - keep them visible
+      console.error(error);
+    }
+  };
+}
+
 /**
  * Set up automatic route tracking
  */
@@ -106,16 +184,14 @@ function setupRouteTracking(app: App, formatRouteName?: (route: any) => string)
   const router = app.config.globalProperties.$router;
   
   if (!router) {
-    console.warn('SAJKO Vue: Router not found, skipping route tracking');
+    log.warn('Router not found, skipping route tracking');
     return;
   }
   
   router.afterEach((to: any, from: any) => {
-    if (!sajkoInstance?.trackEvent) return;
-    
     const routeName = formatRouteName ? formatRouteName(to) : to.name || to.path;
     
-    sajkoInstance.trackEvent('page_view', {
+    trackEvent('page_view', {
       page: routeName,
       path: to.path,
       fullPath: to.fullPath,
@@ -125,4 +201,29 @@ function setupRouteTracking(app: App, formatRouteName?: (route: any) => string)
       title: document.title
     });
   });
+}
+
+/**
+ * Pause replay capture on routes with `meta: { sajkoPause: true }` (or a
+ * reason string, e.g. `sajkoPause: 'payment'`) and resume when leaving them
+ */
+function setupRoutePause(app: App) {
+  const router = app.config.globalProperties.$router;
+  let paused = false;
+  
+  const apply = (route: any) => {
+    const flag = route.meta?.sajkoPause;
+    
+    if (flag && !paused) {
+      paused = true;
+      pauseReplay(typeof flag === 'string' ? flag : undefined);
+    } else if (!flag && paused) {
+      paused = false;
+      resumeReplay();
+    }
+  };
+  
+  // The app may have started on a sensitive route
+  apply(router.currentRoute.value);
+  router.afterEach((to: any) => apply(to));
 }
\ No newline at end of file